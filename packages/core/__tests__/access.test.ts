@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { isPathAllowed, matchPathPattern, normalizePath } from "../src/access.js";
+import { parse } from "../src/parser.js";
+import type { AgentsTxtDocument } from "../src/types.js";
+
+function makeDoc(allow: string[], disallow: string[]): AgentsTxtDocument {
+  return {
+    specVersion: "1.0",
+    site: { name: "Access Store", url: "https://shop.example.com" },
+    capabilities: [
+      {
+        id: "admin-report",
+        description: "Read-only sales report",
+        endpoint: "https://shop.example.com/admin/reports/:period",
+        protocol: "REST",
+      },
+    ],
+    access: { allow, disallow },
+    agents: { "*": {} },
+  };
+}
+
+describe("matchPathPattern", () => {
+  it("matches prefixes, wildcards and end anchors", () => {
+    expect(matchPathPattern("/api", "/api/search")).toBe(true);
+    expect(matchPathPattern("/api/*", "/api/search")).toBe(true);
+    expect(matchPathPattern("/*.json$", "/data/items.json")).toBe(true);
+    expect(matchPathPattern("/*.json$", "/data/items.json?page=2")).toBe(false);
+    expect(matchPathPattern("/search$", "/search/all")).toBe(false);
+    expect(matchPathPattern("/a*b*c", "/a-x-b-y-c-z")).toBe(true);
+    expect(matchPathPattern("/api/v1.0", "/api/v1x0")).toBe(false);
+  });
+});
+
+describe("normalizePath", () => {
+  it("keeps path and query, resolves dot segments and canonicalizes escapes", () => {
+    expect(normalizePath("https://shop.example.com/api/../admin/./users?x=1#top")).toBe("/admin/users?x=1");
+    expect(normalizePath("/%61dmin/%2f%7e")).toBe("/admin/%2F~");
+    expect(normalizePath("/café")).toBe("/caf%C3%A9");
+  });
+});
+
+describe("isPathAllowed", () => {
+  it("lets the longest matching pattern win", () => {
+    const doc = makeDoc(["/api/public/*"], ["/api/*"]);
+    expect(isPathAllowed(doc, "/api/public/items")).toEqual({
+      allowed: true,
+      reason: "allow",
+      rule: "/api/public/*",
+      path: "/api/public/items",
+    });
+    expect(isPathAllowed(doc, "/api/private")).toMatchObject({ allowed: false, reason: "disallow", rule: "/api/*" });
+  });
+
+  it("blocks everything in a file with only Disallow: /", () => {
+    const doc = parse("Site-Name: T\nSite-URL: https://t.com\nDisallow: /\n").document!;
+    expect(doc.access.allow).toEqual(["*"]);
+    expect(isPathAllowed(doc, "/")).toMatchObject({ allowed: false, reason: "disallow", rule: "/" });
+    expect(isPathAllowed(doc, "/products")).toMatchObject({ allowed: false, reason: "disallow", rule: "/" });
+  });
+
+  it("blocks only the disallowed prefix in a file with only Disallow: /private", () => {
+    const doc = parse("Site-Name: T\nSite-URL: https://t.com\nDisallow: /private\n").document!;
+    expect(isPathAllowed(doc, "/private/keys")).toMatchObject({ allowed: false, rule: "/private" });
+    expect(isPathAllowed(doc, "/products")).toMatchObject({ allowed: true, reason: "allow", rule: "*" });
+  });
+
+  it("lets Allow win a tie", () => {
+    const doc = makeDoc(["/page"], ["/page"]);
+    expect(isPathAllowed(doc, "/page")).toMatchObject({ allowed: true, rule: "/page" });
+  });
+
+  it("allows unmatched paths by default", () => {
+    expect(isPathAllowed(makeDoc([], ["/admin/*"]), "/products")).toEqual({
+      allowed: true,
+      reason: "default",
+      path: "/products",
+    });
+  });
+
+  it("normalizes before matching so encodings and dot segments cannot bypass rules", () => {
+    const doc = makeDoc(["*"], ["/admin/*"]);
+    expect(isPathAllowed(doc, "/%61dmin/users").allowed).toBe(false);
+    expect(isPathAllowed(doc, "/public/../admin/users").allowed).toBe(false);
+    expect(isPathAllowed(makeDoc([], ["/café/*"]), "/caf%c3%a9/menu").allowed).toBe(false);
+  });
+
+  it("exempts declared capability endpoints from Disallow", () => {
+    const doc = makeDoc(["*"], ["/admin/*"]);
+    expect(isPathAllowed(doc, "https://shop.example.com/admin/reports/2026-q1")).toEqual({
+      allowed: true,
+      reason: "capability",
+      capability: "admin-report",
+      rule: "/admin/*",
+      path: "/admin/reports/2026-q1",
+    });
+    expect(isPathAllowed(doc, "/admin/reports/2026-q1/raw").allowed).toBe(false);
+    expect(isPathAllowed(doc, "https://other.example.com/admin/reports/2026-q1").allowed).toBe(false);
+  });
+
+  it("ignores empty patterns", () => {
+    expect(isPathAllowed(makeDoc([], [""]), "/anything").reason).toBe("default");
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AgentsTxtClient } from "../src/client.js";
+import { MemoryCache, FileSystemCache, parseCacheControl } from "../src/cache.js";
+import type { CacheEntry } from "../src/cache.js";
+
+const BODY = `# Spec-Version: 1.0
+Site-Name: Cache Store
+Site-URL: https://cache.example.com
+`;
+
+const START = Date.parse("2026-01-01T00:00:00Z");
+
+interface Call {
+  url: string;
+  headers: Record<string, string>;
+}
+
+/** Stub fetch with a handler and record every request. */
+function stubFetch(handler: (call: Call) => Response): Call[] {
+  const calls: Call[] = [];
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+    const call = { url, headers: init.headers as Record<string, string> };
+    calls.push(call);
+    return handler(call);
+  });
+  return calls;
+}
+
+function entry(overrides: Partial<CacheEntry> = {}): CacheEntry {
+  return { url: "https://a.test/x", body: "x", fetchedAt: 0, expiresAt: 1, staleUntil: 1, ...overrides };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("parseCacheControl", () => {
+  it("reads the directives a private cache uses", () => {
+    expect(parseCacheControl("public, max-age=300, stale-while-revalidate=60")).toEqual({
+      maxAge: 300,
+      staleWhileRevalidate: 60,
+      noStore: false,
+      noCache: false,
+    });
+    expect(parseCacheControl("No-Store, max-age=abc")).toEqual({ noStore: true, noCache: false });
+    expect(parseCacheControl(null)).toEqual({ noStore: false, noCache: false });
+  });
+});
+
+describe("MemoryCache", () => {
+  it("evicts the least recently used entry", () => {
+    const cache = new MemoryCache({ maxEntries: 2 });
+    cache.set("a", entry());
+    cache.set("b", entry());
+    cache.get("a");
+    cache.set("c", entry());
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBeDefined();
+    expect(cache.size).toBe(2);
+  });
+});
+
+describe("FileSystemCache", () => {
+  it("stores entries as files", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "agents-txt-cache-"));
+    try {
+      const cache = new FileSystemCache(join(dir, "nested"));
+      expect(await cache.get("https://a.test/x")).toBeUndefined();
+      await cache.set("https://a.test/x", entry({ etag: '"v1"' }));
+      expect(await new FileSystemCache(join(dir, "nested")).get("https://a.test/x")).toEqual(entry({ etag: '"v1"' }));
+      expect(await readdir(join(dir, "nested"))).toHaveLength(1);
+      await cache.delete("https://a.test/x");
+      expect(await cache.get("https://a.test/x")).toBeUndefined();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("AgentsTxtClient caching", () => {
+  it("serves fresh responses from the cache within max-age", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(START);
+    const calls = stubFetch(() => new Response(BODY, { headers: { "Cache-Control": "public, max-age=300" } }));
+    const client = new AgentsTxtClient();
+
+    const first = await client.discover("https://cache.example.com");
+    expect(first.source).toEqual({
+      url: "https://cache.example.com/.well-known/agents.txt",
+      fetchedAt: "2026-01-01T00:00:00.000Z",
+      expiresAt: "2026-01-01T00:05:00.000Z",
+      cache: "miss",
+    });
+
+    vi.setSystemTime(START + 299_000);
+    const second = await client.discover("https://cache.example.com");
+    expect(second.source!.cache).toBe("hit");
+    expect(second.document!.site.name).toBe("Cache Store");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("revalidates with If-None-Match and If-Modified-Since", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(START);
+    const lastModified = "Wed, 31 Dec 2025 00:00:00 GMT";
+    const calls = stubFetch((call) =>
+      call.headers["If-None-Match"] === '"v1"'
+        ? new Response(null, { status: 304, headers: { "Cache-Control": "max-age=60" } })
+        : new Response(BODY, { headers: { ETag: '"v1"', "Last-Modified": lastModified, "Cache-Control": "max-age=60" } }),
+    );
+    const client = new AgentsTxtClient();
+
+    await client.discover("https://cache.example.com");
+    vi.setSystemTime(START + 61_000);
+    const result = await client.discover("https://cache.example.com");
+
+    expect(calls[1].headers).toMatchObject({ "If-None-Match": '"v1"', "If-Modified-Since": lastModified });
+    expect(result.success).toBe(true);
+    expect(result.source).toMatchObject({ cache: "revalidated", expiresAt: "2026-01-01T00:02:01.000Z" });
+
+    vi.setSystemTime(START + 62_000);
+    expect((await client.discover("https://cache.example.com")).source!.cache).toBe("hit");
+    expect(calls).toHaveLength(2);
+  });
+
+  it("serves stale content while revalidating in the background", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(START);
+    let version = 1;
+    const calls = stubFetch(
+      () =>
+        new Response(BODY.replace("Cache Store", `Cache Store v${version}`), {
+          headers: { "Cache-Control": "max-age=10, stale-while-revalidate=60" },
+        }),
+    );
+    const client = new AgentsTxtClient();
+    await client.discover("https://cache.example.com");
+
+    version = 2;
+    vi.setSystemTime(START + 30_000);
+    const stale = await client.discover("https://cache.example.com");
+    expect(stale.source!.cache).toBe("stale");
+    expect(stale.document!.site.name).toBe("Cache Store v1");
+    expect(calls).toHaveLength(2);
+
+    await vi.waitFor(async () => {
+      const fresh = await client.discover("https://cache.example.com");
+      expect(fresh.source!.cache).toBe("hit");
+      expect(fresh.document!.site.name).toBe("Cache Store v2");
+    });
+    expect(calls).toHaveLength(2);
+  });
+
+  it("does not store no-store responses or responses without validators", async () => {
+    const calls = stubFetch(() => new Response(BODY, { headers: { "Cache-Control": "no-store" } }));
+    const cache = new MemoryCache();
+    const client = new AgentsTxtClient({ cache });
+
+    const result = await client.discover("https://cache.example.com");
+    expect(result.source!.expiresAt).toBe(result.source!.fetchedAt);
+    await client.discover("https://cache.example.com");
+    expect(calls).toHaveLength(2);
+    expect(cache.size).toBe(0);
+  });
+
+  it("can be disabled", async () => {
+    const calls = stubFetch(() => new Response(BODY, { headers: { "Cache-Control": "max-age=300" } }));
+    const client = new AgentsTxtClient({ cache: false });
+    await client.discover("https://cache.example.com");
+    await client.discover("https://cache.example.com");
+    expect(calls).toHaveLength(2);
+  });
+
+  it("keeps working when the cache store fails", async () => {
+    stubFetch(() => new Response(BODY, { headers: { "Cache-Control": "max-age=300" } }));
+    const broken = {
+      get: async () => undefined,
+      set: async () => {
+        throw new Error("disk full");
+      },
+      delete: async () => {},
+    };
+    const result = await new AgentsTxtClient({ cache: broken }).discover("https://cache.example.com");
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { SarifLog } from "../src/reports.js";
+
+const STORE = `Spec-Version: 1.0
+Site-Name: CLI Store
+Site-URL: https://cli.example.com
+
+Capability: search
+  Endpoint: https://cli.example.com/api/search
+  Method: GET
+  Protocol: REST
+  Description: Search the catalog
+
+Capability: orders
+  Endpoint: https://cli.example.com/api/orders
+  Method: POST
+  Protocol: REST
+  Description: Place an order
+
+Allow: /api/*
+
+Agent: *
+  Capabilities: search, orders
+`;
+
+const OPENAPI = JSON.stringify({
+  openapi: "3.0.3",
+  info: { title: "CLI API", version: "1" },
+  servers: [{ url: "https://cli.example.com/api" }],
+  paths: {
+    "/search": { get: { operationId: "search", summary: "Search the catalog", tags: ["catalog"] } },
+    "/admin": { post: { operationId: "reindex", summary: "Rebuild the index", tags: ["internal"] } },
+  },
+});
+
+// A lint plugin: its default export is an array of rules
+const PLUGIN = `export default [
+  {
+    id: "require-contact",
+    code: "MISSING_CONTACT",
+    description: "Sites must list a contact",
+    defaultSeverity: "error",
+    check(doc, report) {
+      if (!doc.site.contact) report({ path: "site.contact", message: "No contact address" });
+    },
+  },
+];
+`;
+
+let dir: string;
+const file = (name: string) => join(dir, name);
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "agents-txt-cli-"));
+  writeFileSync(file("agents.txt"), STORE);
+  writeFileSync(file("insecure.txt"), STORE.replace("https://cli.example.com/api/search", "http://cli.example.com/api/search"));
+  writeFileSync(file("smaller.txt"), STORE.replace(/\nCapability: orders[^]*?\n\n/, "\n").replace("search, orders", "search"));
+  writeFileSync(file("broken.txt"), "Site-Name: Broken\n");
+  writeFileSync(file("openapi.json"), OPENAPI);
+  writeFileSync(file("plugin.mjs"), PLUGIN);
+  writeFileSync(file("not-rules.mjs"), "export default { rules: true };\n");
+  writeFileSync(file("strict.json"), JSON.stringify({ rules: { "insecure-endpoint": "error" } }));
+  writeFileSync(file("plugins.json"), JSON.stringify({ plugins: ["./plugin.mjs"] }));
+  writeFileSync(file("bad-plugin.json"), JSON.stringify({ plugins: ["./not-rules.mjs"] }));
+  writeFileSync(file("sites.txt"), "# Sites to crawl\nhttps://cli.example.com\nhttps://empty.example.com\n");
+  mkdirSync(file("web/cli.example.com/.well-known"), { recursive: true });
+  writeFileSync(file("web/cli.example.com/.well-known/agents.txt"), STORE);
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Run the CLI entry point in-process with `args`, capturing its output and
+ * the code it exits with.
+ */
+async function run(...args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  vi.spyOn(process.stdout, "write").mockImplementation((chunk) => (stdout.push(String(chunk)), true));
+  vi.spyOn(console, "log").mockImplementation((...parts) => void stdout.push(`${parts.join(" ")}\n`));
+  vi.spyOn(console, "error").mockImplementation((...parts) => void stderr.push(`${parts.join(" ")}\n`));
+  const argv = process.argv;
+  process.argv = ["node", "agents-txt", ...args];
+  try {
+    const code = await new Promise<number>((resolve) => {
+      // The first exit wins; the entry point stops there when it is not stubbed
+      vi.spyOn(process, "exit").mockImplementation(((exitCode?: number) => resolve(exitCode ?? 0)) as never);
+      vi.resetModules();
+      void import("../src/cli.js");
+    });
+    return { code, stdout: stdout.join(""), stderr: stderr.join("") };
+  } finally {
+    process.argv = argv;
+    vi.restoreAllMocks();
+  }
+}
+
+describe("agents-txt", () => {
+  it("prints the usage and exits 1 without a known command", async () => {
+    for (const args of [[], ["no-such-command"]]) {
+      const { code, stderr } = await run(...args);
+      expect(code).toBe(1);
+      expect(stderr).toMatch(/^Usage: agents-txt <command>/);
+    }
+  });
+});
+
+describe("agents-txt import-openapi", () => {
+  it("prints the imported capabilities as agents.txt", async () => {
+    const { code, stdout } = await run("import-openapi", file("openapi.json"), "--exclude-tag", "internal");
+    expect(code).toBe(0);
+    expect(stdout).toContain("Capability: search\n");
+    expect(stdout).toContain("  Endpoint: https://cli.example.com/api/search\n");
+    expect(stdout).not.toContain("reindex");
+  });
+
+  it("prints JSON with --format json", async () => {
+    const { code, stdout } = await run("import-openapi", file("openapi.json"), "--format", "json");
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout).map((c: { id: string }) => c.id)).toEqual(["search", "reindex"]);
+  });
+
+  it("exits 1 without a file", async () => {
+    expect((await run("import-openapi")).code).toBe(1);
+  });
+});
+
+describe("agents-txt export", () => {
+  it("converts a file to the target format", async () => {
+    const { code, stdout } = await run("export", file("agents.txt"), "--to", "openapi");
+    expect(code).toBe(0);
+    expect(Object.keys(JSON.parse(stdout).paths)).toEqual(["/api/search", "/api/orders"]);
+  });
+
+  it("exits 1 for an unknown target format or an unparseable file", async () => {
+    const unknown = await run("export", file("agents.txt"), "--to", "toString");
+    expect(unknown.code).toBe(1);
+    expect(unknown.stderr).toMatch(/^Usage:/);
+    expect((await run("export", file("broken.txt"), "--to", "llms")).code).toBe(1);
+  });
+});
+
+describe("agents-txt lint", () => {
+  it("exits 0 for a file with only warnings, and prints where they are", async () => {
+    const { code, stdout } = await run("lint", file("insecure.txt"));
+    expect(code).toBe(0);
+    expect(stdout).toContain(`${file("insecure.txt")}:6:3: warning capabilities.search.endpoint:`);
+    expect(stdout).toMatch(/0 error\(s\), 1 warning\(s\)/);
+  });
+
+  it("applies severities from --config", async () => {
+    const { code, stdout } = await run("lint", file("insecure.txt"), "--config", file("strict.json"));
+    expect(code).toBe(1);
+    expect(stdout).toMatch(/1 error\(s\), 0 warning\(s\)/);
+  });
+
+  it("reads the default config from the working directory", async () => {
+    writeFileSync(file(".agents-txt-lint.json"), JSON.stringify({ rules: { "insecure-endpoint": "off" } }));
+    const cwd = process.cwd();
+    process.chdir(dir);
+    try {
+      const { code, stdout } = await run("lint", "insecure.txt");
+      expect(code).toBe(0);
+      expect(stdout).toMatch(/0 error\(s\), 0 warning\(s\)/);
+    } finally {
+      process.chdir(cwd);
+      rmSync(file(".agents-txt-lint.json"));
+    }
+  });
+
+  it("loads plugin rules relative to the config file", async () => {
+    const { code, stdout } = await run("lint", file("agents.txt"), "--config", file("plugins.json"));
+    expect(code).toBe(1);
+    expect(stdout).toContain("error site.contact: No contact address (require-contact)");
+  });
+
+  it("includes plugin rules in SARIF output", async () => {
+    const { stdout } = await run("lint", file("agents.txt"), "--config", file("plugins.json"), "--format", "sarif");
+    const { rules } = (JSON.parse(stdout) as SarifLog).runs[0].tool.driver;
+    expect(rules).toEqual([
+      { id: "require-contact", shortDescription: { text: "Sites must list a contact" }, properties: { code: "MISSING_CONTACT" } },
+    ]);
+  });
+
+  it("exits 1 when a plugin does not export rules, or the config is missing", async () => {
+    const plugin = await run("lint", file("agents.txt"), "--config", file("bad-plugin.json"));
+    expect(plugin.code).toBe(1);
+    expect(plugin.stderr).toContain("Lint plugin ./not-rules.mjs must export an array of rules");
+    expect((await run("lint", file("agents.txt"), "--config", file("missing.json"))).code).toBe(1);
+  });
+
+  it("rewrites the file with --fix", async () => {
+    writeFileSync(file("fixable.txt"), readFileSync(file("insecure.txt"), "utf8"));
+    const { code } = await run("lint", file("fixable.txt"), "--fix");
+    expect(code).toBe(0);
+    expect(readFileSync(file("fixable.txt"), "utf8")).toBe(STORE);
+  });
+
+  it("exits 1 for a file that does not parse", async () => {
+    const { code, stderr } = await run("lint", file("broken.txt"));
+    expect(code).toBe(1);
+    expect(stderr).toContain("[agents-txt] error:");
+  });
+});
+
+describe("agents-txt diff", () => {
+  it("exits 1 on breaking changes not covered by --allow", async () => {
+    const { code, stderr } = await run("diff", file("agents.txt"), file("smaller.txt"));
+    expect(code).toBe(1);
+    expect(stderr).toContain("breaking change(s) not covered by --allow");
+  });
+
+  it("exits 0 when --allow covers every breaking change", async () => {
+    const { code } = await run("diff", file("agents.txt"), file("smaller.txt"), "--allow", "capabilities.orders");
+    expect(code).toBe(0);
+  });
+
+  it("exits 0 for a compatible change", async () => {
+    expect((await run("diff", file("smaller.txt"), file("agents.txt"))).code).toBe(0);
+  });
+});
+
+describe("agents-txt crawl", () => {
+  it("writes a JSON line per site and the summary to stderr", async () => {
+    const { code, stdout, stderr } = await run("crawl", file("sites.txt"), "--directory", file("web"), "--delay", "0");
+    expect(code).toBe(0);
+    const results = stdout.trim().split("\n").map((line) => JSON.parse(line));
+    expect(results.map((r) => [r.origin, r.status]).sort()).toEqual([
+      ["https://cli.example.com", "found"],
+      ["https://empty.example.com", "not-found"],
+    ]);
+    expect(stderr).toContain("https://cli.example.com");
+  });
+
+  it("rejects limits that are not whole numbers", async () => {
+    for (const [option, value] of [["--concurrency", "0"], ["--delay", "-5"], ["--timeout", "1.5"]]) {
+      const { code, stderr } = await run("crawl", file("sites.txt"), `${option}=${value}`);
+      expect(code).toBe(1);
+      expect(stderr).toContain(`${option} must be a whole number`);
+    }
+  });
+});
+
+describe("agents-txt graph", () => {
+  it("prints the graph of a site", async () => {
+    const { code, stdout } = await run("graph", "https://cli.example.com", "--directory", file("web"), "--depth", "0");
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout).root).toBe("https://cli.example.com");
+  });
+
+  it("validates --depth", async () => {
+    for (const depth of ["-1", "two", "1e3", ""]) {
+      const { code, stderr } = await run("graph", "https://cli.example.com", `--depth=${depth}`);
+      expect(code).toBe(1);
+      expect(stderr).toContain(`--depth must be a whole number of at least 0, got "${depth}"`);
+    }
+  });
+
+  it("exits 1 when the site cannot be loaded", async () => {
+    const { code, stderr } = await run("graph", "https://empty.example.com", "--directory", file("web"));
+    expect(code).toBe(1);
+    expect(stderr).toContain("[agents-txt] error: https://empty.example.com is");
+  });
+});
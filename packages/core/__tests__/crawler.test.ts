@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer } from "node:http";
+import type { Server, RequestListener } from "node:http";
+import { crawl, formatCrawlSummary } from "../src/crawler.js";
+import { generate } from "../src/generator.js";
+import { generateJSON } from "../src/generator-json.js";
+import type { AgentsTxtDocument } from "../src/types.js";
+
+const DOC: AgentsTxtDocument = {
+  specVersion: "1.0",
+  site: { name: "Crawl Store", url: "https://crawl.example.com" },
+  capabilities: [
+    {
+      id: "search",
+      description: "Search",
+      endpoint: "https://crawl.example.com/api/search",
+      method: "GET",
+      protocol: "REST",
+    },
+    {
+      id: "orders",
+      description: "Orders",
+      endpoint: "https://crawl.example.com/api/orders",
+      method: "GET",
+      protocol: "REST",
+    },
+  ],
+  access: { allow: ["/api/*"], disallow: [] },
+  agents: { "*": { rateLimit: { requests: 30, window: "minute" } } },
+};
+
+/** Every request: which fixture site, and when it started and ended. */
+const requests: { site: string; start: number; end: number }[] = [];
+let inFlight = 0;
+let maxInFlight = 0;
+
+const fixtures: Record<string, RequestListener> = {
+  both: (req, res) => {
+    if (req.url === "/.well-known/agents.txt") res.writeHead(200, { "Content-Type": "text/plain" }).end(generate(DOC));
+    else if (req.url === "/.well-known/agents.json") {
+      res.writeHead(200, { "Content-Type": "application/json" }).end(generateJSON(DOC));
+    } else res.writeHead(404).end();
+  },
+  "txt-only": (req, res) => {
+    if (req.url === "/.well-known/agents.txt") res.writeHead(200, { "Content-Type": "text/plain" }).end(generate(DOC));
+    else res.writeHead(404).end();
+  },
+  broken: (req, res) => {
+    if (req.url === "/.well-known/agents.json") res.writeHead(200, { "Content-Type": "application/json" }).end("{ nope");
+    else res.writeHead(404).end();
+  },
+  empty: (_req, res) => {
+    res.writeHead(404).end();
+  },
+  failing: (_req, res) => {
+    res.writeHead(500).end();
+  },
+};
+
+const servers: Server[] = [];
+const ports: Record<string, number> = {};
+
+function origin(site: string, host = "127.0.0.1"): string {
+  return `http://${host}:${ports[site]}`;
+}
+
+beforeAll(async () => {
+  for (const [site, handler] of Object.entries(fixtures)) {
+    const server = createServer((req, res) => {
+      const start = Date.now();
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      // Slow enough that overlapping requests are visible
+      setTimeout(() => {
+        res.on("finish", () => {
+          inFlight--;
+          requests.push({ site, start, end: Date.now() });
+        });
+        handler(req, res);
+      }, 30);
+    });
+    // No host: listen on both IPv4 and IPv6 so "localhost" works either way
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    ports[site] = (server.address() as { port: number }).port;
+    servers.push(server);
+  }
+});
+
+afterAll(() => {
+  for (const server of servers) {
+    server.closeAllConnections();
+    server.close();
+  }
+});
+
+function reset() {
+  requests.length = 0;
+  maxInFlight = 0;
+}
+
+describe("crawl", () => {
+  it("records status, formats, validation and capability counts per site", async () => {
+    const sites = ["both", "txt-only", "broken", "empty", "failing"];
+    const { results, summary } = await crawl(
+      sites.map((site) => origin(site)),
+      { perHostDelay: 0, client: { timeout: 2_000 } },
+    );
+
+    expect(results.map((r) => r.origin)).toEqual(sites.map((site) => origin(site)));
+    const bySite = Object.fromEntries(sites.map((site, i) => [site, results[i]]));
+
+    expect(bySite.both).toMatchObject({
+      status: "found",
+      formats: ["txt", "json"],
+      siteName: "Crawl Store",
+      valid: true,
+      capabilities: 2,
+      inconsistencies: 0,
+    });
+    expect(bySite["txt-only"]).toMatchObject({ status: "found", formats: ["txt"], capabilities: 2 });
+    expect(bySite.broken).toMatchObject({ status: "invalid", formats: ["json"], valid: false });
+    expect(bySite.broken.errors.length).toBeGreaterThan(0);
+    expect(bySite.empty).toMatchObject({ status: "not-found", formats: [], capabilities: 0 });
+    expect(bySite.failing.status).toBe("error");
+    expect(bySite.failing.error).toContain("HTTP 500");
+
+    expect(summary).toEqual({
+      total: 5,
+      found: 2,
+      invalid: 1,
+      notFound: 1,
+      errored: 1,
+      formats: { txt: 2, json: 2, both: 1 },
+      capabilities: 4,
+    });
+  });
+
+  it("reports each site as it finishes", async () => {
+    const seen: string[] = [];
+    await crawl([origin("both"), origin("empty")], { perHostDelay: 0, onResult: (r) => seen.push(r.origin) });
+    expect(seen.sort()).toEqual([origin("both"), origin("empty")].sort());
+  });
+
+  it("normalizes origins and crawls duplicates once", async () => {
+    reset();
+    const { results } = await crawl([`${origin("empty")}/some/page`, `${origin("empty")}/`], { perHostDelay: 0 });
+    expect(results).toHaveLength(1);
+    expect(results[0].origin).toBe(origin("empty"));
+  });
+
+  it("reports an unparseable origin as an error without stopping the crawl", async () => {
+    const { results } = await crawl(["http://[bad", origin("empty")], { perHostDelay: 0 });
+    expect(results[0].status).toBe("error");
+    expect(results[1].status).toBe("not-found");
+  });
+
+  it("crawls different hosts in parallel up to the concurrency limit", async () => {
+    reset();
+    await crawl([origin("empty", "127.0.0.1"), origin("failing", "localhost")], { concurrency: 2, perHostDelay: 0 });
+    expect(maxInFlight).toBe(2);
+
+    reset();
+    await crawl([origin("empty", "127.0.0.1"), origin("failing", "localhost")], { concurrency: 1, perHostDelay: 0 });
+    expect(maxInFlight).toBe(1);
+  });
+
+  it("falls back to the defaults when the limits are not numbers", async () => {
+    reset();
+    const { summary } = await crawl([origin("empty")], { concurrency: NaN, perHostDelay: NaN });
+    expect(summary.total).toBe(1);
+  }, 10_000);
+
+  it("visits sites on the same host one at a time with a delay between them", async () => {
+    reset();
+    // Same hostname, different ports: one host
+    await crawl([origin("empty"), origin("failing")], { concurrency: 4, perHostDelay: 150 });
+
+    expect(maxInFlight).toBe(1);
+    const lastOfFirst = Math.max(...requests.filter((r) => r.site === "empty").map((r) => r.end));
+    const firstOfSecond = Math.min(...requests.filter((r) => r.site === "failing").map((r) => r.start));
+    expect(firstOfSecond - lastOfFirst).toBeGreaterThanOrEqual(100);
+  });
+
+  it("spaces out every request to a host, not just the sites on it", async () => {
+    reset();
+    await crawl([origin("empty")], { perHostDelay: 100 });
+
+    const starts = requests.map((r) => r.start).sort((a, b) => a - b);
+    expect(starts.length).toBeGreaterThan(1);
+    for (let i = 1; i < starts.length; i++) expect(starts[i] - starts[i - 1]).toBeGreaterThanOrEqual(95);
+  });
+});
+
+describe("formatCrawlSummary", () => {
+  it("renders a row per site and the totals", async () => {
+    const { results } = await crawl([origin("both"), origin("empty")], { perHostDelay: 0 });
+    const table = formatCrawlSummary(results);
+    const lines = table.split("\n");
+
+    expect(lines[0]).toMatch(/^Origin\s+Status\s+Formats\s+Capabilities\s+Errors\s+Warnings$/);
+    expect(lines[1]).toMatch(/^-+ {2}-+/);
+    expect(lines[2]).toMatch(new RegExp(`^${origin("both")}\\s+found\\s+txt\\+json\\s+2\\s+0`));
+    expect(lines[3]).toMatch(new RegExp(`^${origin("empty")}\\s+not-found\\s+-\\s+0`));
+    expect(table).toContain("Sites: 2");
+    expect(table).toContain("Found: 1 (50.0%)");
+    expect(table).toContain("Formats: 1 agents.txt, 1 agents.json, 1 both");
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { parseCST, printCST, AgentsTxtEditor } from "../src/cst.js";
+import { parse } from "../src/parser.js";
+
+const SOURCE = `# agents.txt - hand maintained
+# Spec-Version: 1.0
+
+Site-Name: Example Store
+Site-URL: https://example.com
+Site-Description:   Outdoor gear   
+
+# --- Search ---
+Capability: product-search
+  Endpoint: https://example.com/api/search
+  Protocol: REST
+  Rate-Limit: 60/minute
+
+Capability: store-assistant
+\tEndpoint: https://example.com/mcp
+\tProtocol: MCP
+
+Allow: /api/*
+Disallow: /admin/*
+
+Agent: *
+# Partner agents
+Agent: claude
+  Rate-Limit: 200/minute
+  Capabilities: product-search
+`;
+
+describe("parseCST / printCST", () => {
+  it("prints the source back byte-for-byte", () => {
+    expect(printCST(parseCST(SOURCE))).toBe(SOURCE);
+  });
+
+  it("preserves CRLF line endings and a missing final newline", () => {
+    const input = "Site-Name: A\r\nSite-URL: https://a.com\r\n\r\n# end";
+    expect(printCST(parseCST(input))).toBe(input);
+  });
+
+  it("round-trips a CRLF file line for line", () => {
+    const input = SOURCE.replace(/\n/g, "\r\n");
+    const cst = parseCST(input);
+    expect(printCST(cst)).toBe(input);
+    expect(cst.lines).toHaveLength(SOURCE.split("\n").length - 1);
+    expect(cst.lines.every((l) => l.eol === "\r\n")).toBe(true);
+    expect(cst.lines.find((l) => l.key?.text === "Endpoint")!.line).toBe(10);
+    expect(parse(printCST(cst)).document).toEqual(parse(SOURCE).document);
+  });
+
+  it("does not end a line at a lone carriage return", () => {
+    const input = "Site-Name: A\rB\nSite-URL: https://a.com\n";
+    const cst = parseCST(input);
+    expect(printCST(cst)).toBe(input);
+    expect(cst.lines.map((l) => l.key?.text)).toEqual(["Site-Name", "Site-URL"]);
+    expect(cst.lines[1].line).toBe(2);
+  });
+
+  it("records line and column positions for tokens", () => {
+    const cst = parseCST(SOURCE);
+    const endpoint = cst.lines.find((l) => l.key?.text === "Endpoint")!;
+    expect(endpoint.line).toBe(10);
+    expect(endpoint.key!.column).toBe(3);
+    expect(endpoint.value!.text).toBe("https://example.com/api/search");
+    expect(endpoint.value!.column).toBe(13);
+
+    const description = cst.lines.find((l) => l.key?.text === "Site-Description")!;
+    expect(description.separator).toBe(":   ");
+    expect(description.trailing).toBe("   ");
+  });
+
+  it("classifies comments, blank lines and unparseable lines", () => {
+    const cst = parseCST("# hi\n\nnot a field\n");
+    expect(cst.lines.map((l) => l.kind)).toEqual(["comment", "blank", "invalid"]);
+  });
+});
+
+describe("AgentsTxtEditor", () => {
+  it("changes only the edited line", () => {
+    const editor = new AgentsTxtEditor(SOURCE);
+    editor.setCapabilityField("product-search", "Rate-Limit", "120/minute");
+    const out = editor.toString();
+    expect(out).toBe(SOURCE.replace("60/minute", "120/minute"));
+  });
+
+  it("resolves Site-* aliases and keeps the original key spelling", () => {
+    const editor = new AgentsTxtEditor(SOURCE);
+    expect(editor.get("description")).toBe("Outdoor gear");
+    editor.set("Description", "Outdoor gear and apparel");
+    expect(editor.toString()).toContain("Site-Description:   Outdoor gear and apparel   \n");
+  });
+
+  it("inserts new top-level fields after the site section", () => {
+    const editor = new AgentsTxtEditor(SOURCE);
+    editor.set("Contact", "agents@example.com");
+    const lines = editor.toString().split("\n");
+    expect(lines[6]).toBe("Contact: agents@example.com");
+    expect(editor.toDocument().document?.site.contact).toBe("agents@example.com");
+  });
+
+  it("adds a capability after the last capability block", () => {
+    const editor = new AgentsTxtEditor(SOURCE);
+    editor.addCapability({
+      id: "order-status",
+      description: "Check order status",
+      endpoint: "https://example.com/api/orders",
+      protocol: "REST",
+    });
+    const doc = editor.toDocument().document!;
+    expect(doc.capabilities.map((c) => c.id)).toEqual(["product-search", "store-assistant", "order-status"]);
+    expect(editor.toString()).toContain("\tProtocol: MCP\n\nCapability: order-status\n");
+    expect(editor.toString().startsWith(SOURCE.slice(0, SOURCE.indexOf("Allow:") - 1))).toBe(true);
+  });
+
+  it("removes an agent block together with its attached comment", () => {
+    const editor = new AgentsTxtEditor(SOURCE);
+    expect(editor.removeAgent("Claude")).toBe(true);
+    expect(editor.toString()).toBe(SOURCE.slice(0, SOURCE.indexOf("# Partner agents")));
+    expect(editor.toDocument().document?.agents).toEqual({ "*": {} });
+  });
+
+  it("removes a capability without leaving a double blank line", () => {
+    const editor = new AgentsTxtEditor(SOURCE);
+    editor.removeCapability("store-assistant");
+    expect(editor.toString()).not.toContain("\n\n\n");
+    expect(editor.toDocument().document?.capabilities.map((c) => c.id)).toEqual(["product-search"]);
+  });
+
+  it("adds and removes block fields with the block's indentation", () => {
+    const editor = new AgentsTxtEditor(SOURCE);
+    editor.setCapabilityField("store-assistant", "Auth", "bearer-token");
+    expect(editor.toString()).toContain("\tProtocol: MCP\n\tAuth: bearer-token\n");
+    editor.setAgentField("claude", "Capabilities", undefined);
+    expect(editor.toDocument().document?.agents["claude"].capabilities).toBeUndefined();
+  });
+
+  it("keeps line numbers current after edits", () => {
+    const editor = new AgentsTxtEditor(SOURCE);
+    editor.removeCapability("product-search");
+    const header = editor.getCapability("store-assistant")!.header;
+    expect(editor.lines[header.line - 1]).toBe(header);
+  });
+
+  it("rejects edits to unknown blocks", () => {
+    const editor = new AgentsTxtEditor(SOURCE);
+    expect(() => editor.setCapabilityField("nope", "Method", "GET")).toThrow(/Unknown capability/);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { diff, formatDiff } from "../src/diff.js";
+import type { AgentsTxtDocument } from "../src/types.js";
+
+function makeDoc(): AgentsTxtDocument {
+  return {
+    specVersion: "1.0",
+    site: { name: "Diff Store", url: "https://diff.example.com" },
+    capabilities: [
+      {
+        id: "search",
+        description: "Search products",
+        endpoint: "https://diff.example.com/api/search",
+        method: "GET",
+        protocol: "REST",
+        auth: { type: "none" },
+        rateLimit: { requests: 60, window: "minute" },
+        parameters: [
+          { name: "q", in: "query", type: "string", required: true },
+          { name: "limit", in: "query", type: "integer", max: 100 },
+        ],
+      },
+      {
+        id: "checkout",
+        description: "Checkout",
+        endpoint: "https://diff.example.com/api/checkout",
+        method: "POST",
+        protocol: "REST",
+        auth: { type: "bearer-token", tokenEndpoint: "https://diff.example.com/token" },
+      },
+    ],
+    access: { allow: ["/products/*"], disallow: ["/admin/*"] },
+    agents: {
+      "*": { capabilities: ["search"] },
+      claude: { capabilities: ["search", "checkout"] },
+    },
+  };
+}
+
+function severities(result: ReturnType<typeof diff>): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  for (const change of result.changes) (out[change.severity] ??= []).push(change.message);
+  return out;
+}
+
+describe("diff", () => {
+  it("reports no changes for identical documents", () => {
+    const result = diff(makeDoc(), makeDoc());
+    expect(result).toEqual({ breaking: false, changes: [] });
+    expect(formatDiff(result)).toBe("No changes");
+  });
+
+  it("classifies added and removed capabilities", () => {
+    const before = makeDoc();
+    const after = makeDoc();
+    after.capabilities = [after.capabilities[0], { ...after.capabilities[1], id: "orders" }];
+    after.agents.claude.capabilities = ["search", "orders"];
+
+    const result = diff(before, after);
+    expect(result.breaking).toBe(true);
+    expect(result.changes.map((c) => [c.path, c.kind, c.severity])).toEqual([
+      ["capabilities.checkout", "removed", "breaking"],
+      ["capabilities.orders", "added", "non-breaking"],
+    ]);
+  });
+
+  it("treats endpoint and method moves as breaking", () => {
+    const after = makeDoc();
+    after.capabilities[0].endpoint = "https://diff.example.com/v2/search";
+    after.capabilities[0].method = "POST";
+    after.capabilities[0].description = "Search the catalog";
+
+    expect(severities(diff(makeDoc(), after))).toEqual({
+      breaking: [
+        "Endpoint moved from https://diff.example.com/api/search to https://diff.example.com/v2/search",
+        "Method changed from GET to POST",
+      ],
+      informational: ["Description changed"],
+    });
+  });
+
+  it("classifies parameter changes", () => {
+    const after = makeDoc();
+    after.capabilities[0].parameters = [
+      { name: "q", in: "query", type: "string" },
+      { name: "limit", in: "query", type: "integer", max: 50 },
+      { name: "category", in: "query", type: "string", required: true },
+      { name: "sort", in: "query", type: "string", enum: ["price", "name"] },
+    ];
+
+    const result = diff(makeDoc(), after);
+    expect(result.changes.map((c) => [c.path, c.severity])).toEqual([
+      ["capabilities.search.parameters.q.required", "non-breaking"],
+      ["capabilities.search.parameters.limit.max", "breaking"],
+      ["capabilities.search.parameters.category", "breaking"],
+      ["capabilities.search.parameters.sort", "non-breaking"],
+    ]);
+  });
+
+  it("compares rate limits by rate, not by numbers", () => {
+    const tighter = makeDoc();
+    tighter.capabilities[0].rateLimit = { requests: 1000, window: "day" };
+    expect(diff(makeDoc(), tighter).changes[0]).toMatchObject({
+      path: "capabilities.search.rateLimit",
+      severity: "breaking",
+      message: "Rate limit changed from 60/minute to 1000/day",
+    });
+
+    const looser = makeDoc();
+    looser.capabilities[0].rateLimit = { requests: 2, window: "second" };
+    expect(diff(makeDoc(), looser).changes[0].severity).toBe("non-breaking");
+
+    const same = makeDoc();
+    same.capabilities[0].rateLimit = { requests: 1, window: "second" };
+    expect(diff(makeDoc(), same).changes[0].severity).toBe("informational");
+
+    const removed = makeDoc();
+    delete removed.capabilities[0].rateLimit;
+    expect(diff(makeDoc(), removed).changes[0].severity).toBe("non-breaking");
+  });
+
+  it("classifies auth type changes by direction", () => {
+    const after = makeDoc();
+    after.capabilities[0].auth = { type: "api-key" };
+    after.capabilities[1].auth = { type: "none" };
+    expect(diff(makeDoc(), after).changes.map((c) => [c.path, c.severity])).toEqual([
+      ["capabilities.search.auth.type", "breaking"],
+      ["capabilities.checkout.auth.type", "non-breaking"],
+    ]);
+  });
+
+  it("reports agents gaining or losing capabilities", () => {
+    const after = makeDoc();
+    after.agents = { "*": { capabilities: ["search", "checkout"] } };
+
+    expect(diff(makeDoc(), after).changes.map((c) => [c.path, c.severity, c.message])).toEqual([
+      ["agents.*.capabilities", "non-breaking", 'Agent "*" gained access to "checkout"'],
+      ["agents.claude", "informational", 'Agent block "claude" removed'],
+    ]);
+
+    after.agents = { "*": {}, claude: { capabilities: ["checkout"] } };
+    expect(diff(makeDoc(), after).changes.map((c) => c.message)).toEqual([
+      'Agent "*" gained access to "checkout"',
+      'Agent "claude" lost access to "search"',
+    ]);
+  });
+
+  it("classifies access rule changes", () => {
+    const after = makeDoc();
+    after.access = { allow: [], disallow: ["/admin/*", "/cart/*"] };
+    expect(diff(makeDoc(), after).changes.map((c) => [c.path, c.kind, c.severity])).toEqual([
+      ["access.allow", "removed", "breaking"],
+      ["access.disallow", "added", "breaking"],
+    ]);
+  });
+});
+
+describe("formatDiff", () => {
+  it("groups changes by severity in text output", () => {
+    const after = makeDoc();
+    after.capabilities.pop();
+    after.agents.claude.capabilities = ["search"];
+    after.site.description = "Now with descriptions";
+
+    expect(formatDiff(diff(makeDoc(), after))).toBe(
+      [
+        "Breaking changes (1):",
+        '  - capabilities.checkout: Capability "checkout" removed',
+        "",
+        "Informational changes (1):",
+        "  - site.description: Site description changed",
+      ].join("\n"),
+    );
+  });
+
+  it("renders JSON", () => {
+    const after = makeDoc();
+    after.site.name = "Renamed";
+    const parsed = JSON.parse(formatDiff(diff(makeDoc(), after), "json"));
+    expect(parsed.breaking).toBe(false);
+    expect(parsed.changes[0]).toMatchObject({ path: "site.name", before: "Diff Store", after: "Renamed" });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { exportOpenAPI } from "../src/exporter-openapi.js";
+import { exportAgentCard } from "../src/exporter-a2a.js";
+import { exportLlmsTxt } from "../src/exporter-llms.js";
+import type { AgentsTxtDocument } from "../src/types.js";
+
+function makeDoc(): AgentsTxtDocument {
+  return {
+    specVersion: "1.0",
+    site: {
+      name: "Example Store",
+      url: "https://example.com",
+      description: "Outdoor gear",
+      contact: "agents@example.com",
+    },
+    capabilities: [
+      {
+        id: "product-search",
+        description: "Search products",
+        endpoint: "https://api.example.com/search",
+        method: "GET",
+        protocol: "REST",
+        auth: { type: "api-key" },
+        rateLimit: { requests: 60, window: "minute" },
+        parameters: [
+          { name: "q", in: "query", type: "string", required: true, max: 200, description: "Search query" },
+          { name: "limit", in: "query", type: "integer", default: 20, min: 1, max: 100 },
+        ],
+      },
+      {
+        id: "get-order",
+        description: "Get an order",
+        endpoint: "https://api.example.com/orders/:id",
+        method: "GET",
+        protocol: "REST",
+        auth: { type: "oauth2", tokenEndpoint: "https://example.com/token", scopes: ["orders.read"] },
+        parameters: [{ name: "id", in: "path", type: "string", required: true }],
+      },
+      {
+        id: "create-order",
+        description: "Place an order",
+        endpoint: "https://api.example.com/orders",
+        method: "POST",
+        protocol: "REST",
+        parameters: [{ name: "sku", in: "body", type: "string", required: true }],
+      },
+      {
+        id: "shopping-agent",
+        description: "Delegate a shopping task",
+        endpoint: "https://example.com/a2a",
+        protocol: "A2A",
+        auth: { type: "bearer-token" },
+      },
+    ],
+    access: { allow: ["*"], disallow: ["/admin/*"] },
+    agents: { "*": {}, claude: { rateLimit: { requests: 200, window: "minute" } } },
+  };
+}
+
+describe("exportOpenAPI", () => {
+  it("exports REST capabilities as operations", () => {
+    const { output } = exportOpenAPI(makeDoc());
+    expect(output.openapi).toBe("3.1.0");
+    expect(output.servers).toEqual([{ url: "https://api.example.com" }]);
+
+    const paths = output.paths as Record<string, Record<string, Record<string, unknown>>>;
+    expect(Object.keys(paths)).toEqual(["/search", "/orders/{id}", "/orders"]);
+    expect(paths["/search"].get.operationId).toBe("product-search");
+    expect(paths["/search"].get.parameters).toEqual([
+      { name: "q", in: "query", required: true, description: "Search query", schema: { type: "string", maxLength: 200 } },
+      { name: "limit", in: "query", required: false, schema: { type: "integer", default: 20, minimum: 1, maximum: 100 } },
+    ]);
+    expect(paths["/orders"].post.requestBody).toMatchObject({
+      required: true,
+      content: { "application/json": { schema: { type: "object", required: ["sku"] } } },
+    });
+    expect(paths["/orders/{id}"].get.security).toEqual([{ oauth2: ["orders.read"] }]);
+    expect(output.components).toEqual({
+      securitySchemes: {
+        "api-key": { type: "apiKey", in: "header", name: "X-API-Key" },
+        oauth2: {
+          type: "oauth2",
+          flows: { clientCredentials: { tokenUrl: "https://example.com/token", scopes: { "orders.read": "orders.read" } } },
+        },
+      },
+    });
+  });
+
+  it("reports what OpenAPI cannot represent", () => {
+    const paths = exportOpenAPI(makeDoc()).unsupported.map((i) => i.path);
+    expect(paths).toEqual([
+      "capabilities.product-search.rateLimit",
+      "capabilities.shopping-agent",
+      "access",
+      "agents.claude",
+    ]);
+  });
+
+  it("keeps an endpoint path with malformed percent-encoding as written", () => {
+    const doc = makeDoc();
+    doc.capabilities = [{ id: "odd", description: "Odd", endpoint: "https://s.example/a%E0%A4%A", protocol: "REST" }];
+    const { output, unsupported } = exportOpenAPI(doc);
+    expect(Object.keys(output.paths as object)).toEqual(["/a%E0%A4%A"]);
+    expect(unsupported.map((i) => i.path)).toContain("capabilities.odd.endpoint");
+  });
+});
+
+describe("exportAgentCard", () => {
+  it("describes the A2A capabilities of a platform", () => {
+    const { output, unsupported } = exportAgentCard(makeDoc());
+    expect(output.url).toBe("https://example.com/a2a");
+    expect(output.skills).toEqual([
+      { id: "shopping-agent", name: "Shopping Agent", description: "Delegate a shopping task", tags: ["a2a"] },
+    ]);
+    expect(output.securitySchemes).toEqual({ "bearer-token": { type: "http", scheme: "bearer" } });
+    expect(unsupported.filter((i) => i.path.startsWith("capabilities.")).map((i) => i.path)).toEqual([
+      "capabilities.product-search",
+      "capabilities.get-order",
+      "capabilities.create-order",
+    ]);
+  });
+
+  it("turns every capability of an agent declaration into a skill", () => {
+    const doc = { ...makeDoc(), declarationType: "agent" as const, operatesOn: ["https://x.com"] };
+    const { output, unsupported } = exportAgentCard(doc);
+    expect(output.skills).toHaveLength(4);
+    expect(unsupported.some((i) => i.path === "operatesOn")).toBe(true);
+    expect(unsupported.some((i) => i.path === "capabilities.product-search.parameters")).toBe(true);
+  });
+});
+
+describe("exportLlmsTxt", () => {
+  it("writes an llms.txt-style summary", () => {
+    const { output } = exportLlmsTxt(makeDoc());
+    expect(output.startsWith("# Example Store\n\n> Outdoor gear\n")).toBe(true);
+    expect(output).toContain("## Capabilities\n");
+    expect(output).toContain(
+      "- [product-search](https://api.example.com/search): Search products (GET REST, auth: api-key, limit: 60/minute)",
+    );
+    expect(output).toContain("  - `q` (query, string, required): Search query");
+    expect(output).toContain("Agents must not access: `/admin/*`");
+  });
+
+  it("reports parameter constraints and agent policies", () => {
+    const paths = exportLlmsTxt(makeDoc()).unsupported.map((i) => i.path);
+    expect(paths).toContain("capabilities.product-search.parameters.limit");
+    expect(paths).toContain("agents.claude");
+  });
+});
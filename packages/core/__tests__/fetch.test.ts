@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import { AgentsTxtClient } from "../src/client.js";
+import {
+  isPrivateAddress,
+  BlockedAddressError,
+  BodyTooLargeError,
+  ContentTypeError,
+  CrossSiteRedirectError,
+  FetchTimeoutError,
+  HttpStatusError,
+  InsecureUrlError,
+  TooManyRedirectsError,
+} from "../src/fetch.js";
+import type { ParseResult } from "../src/types.js";
+
+const BODY = `# Spec-Version: 1.0
+Site-Name: Fetch Store
+Site-URL: https://fetch.example.com
+`;
+
+// rebind.test resolves to loopback, but only for a lookup made as a connection is opened
+vi.mock("node:dns", async (importOriginal) => {
+  const dns = await importOriginal<typeof import("node:dns")>();
+  const lookup = ((hostname: string, options: object, callback: (...args: unknown[]) => void) => {
+    if (hostname === "rebind.test") return callback(null, [{ address: "127.0.0.1", family: 4 }]);
+    return dns.lookup(hostname, options, callback as never);
+  }) as typeof dns.lookup;
+  return { ...dns, default: { ...dns, lookup }, lookup };
+});
+
+let server: Server;
+let base: string;
+let requests = 0;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests++;
+    const path = req.url ?? "/";
+    if (path.startsWith("/loop")) {
+      res.writeHead(302, { Location: `/loop${Number(path.slice(5) || 0) + 1}` }).end();
+    } else if (path === "/away/.well-known/agents.txt") {
+      res.writeHead(301, { Location: "https://elsewhere.test/.well-known/agents.txt" }).end();
+    } else if (path === "/moved/.well-known/agents.txt") {
+      res.writeHead(308, { Location: "/.well-known/agents.txt" }).end();
+    } else if (path === "/big/.well-known/agents.txt") {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end(BODY + "# " + "x".repeat(5000) + "\n");
+    } else if (path === "/html/.well-known/agents.txt") {
+      res.writeHead(200, { "Content-Type": "text/html" }).end(BODY);
+    } else if (path === "/slow/.well-known/agents.txt") {
+      setTimeout(() => res.writeHead(200).end(BODY), 500);
+    } else if (path === "/.well-known/agents.txt") {
+      res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8" }).end(BODY);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+});
+
+afterAll(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+function fetchErrors(result: ParseResult) {
+  return result.errors.flatMap((e) => (e.fetchError ? [e.fetchError] : []));
+}
+
+describe("isPrivateAddress", () => {
+  it("flags private, loopback, link-local and reserved IPv4", () => {
+    for (const ip of ["10.1.2.3", "127.0.0.1", "169.254.169.254", "172.20.0.1", "192.168.1.1", "100.64.0.1", "0.0.0.0", "224.0.0.1"]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+    for (const ip of ["8.8.8.8", "172.32.0.1", "93.184.216.34"]) {
+      expect(isPrivateAddress(ip)).toBe(false);
+    }
+  });
+
+  it("flags private IPv6, including embedded IPv4", () => {
+    for (const ip of ["::1", "::", "fe80::1", "fd00::1", "[::1]", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe", "64:ff9b::10.0.0.1"]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+    expect(isPrivateAddress("2606:4700:4700::1111")).toBe(false);
+    expect(isPrivateAddress("::ffff:8.8.8.8")).toBe(false);
+  });
+});
+
+describe("AgentsTxtClient fetch policy", () => {
+  it("reports HTTP failures as typed errors", async () => {
+    const result = await new AgentsTxtClient().discover(`${base}/missing`);
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toBe(`No agents.txt found at ${base}/missing`);
+    const errors = fetchErrors(result);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toBeInstanceOf(HttpStatusError);
+    expect(errors[0]).toMatchObject({ code: "HTTP_STATUS", status: 404, url: `${base}/missing/.well-known/agents.txt` });
+  });
+
+  it("follows redirects and reports the final URL", async () => {
+    const result = await new AgentsTxtClient().discover(`${base}/moved`);
+    expect(result.success).toBe(true);
+    expect(result.source!.url).toBe(`${base}/.well-known/agents.txt`);
+  });
+
+  it("waits on the throttle before every request, redirects included", async () => {
+    const throttled: string[] = [];
+    const client = new AgentsTxtClient({ throttle: async (url) => void throttled.push(url) });
+    await client.discover(`${base}/moved`);
+    expect(throttled).toEqual([`${base}/moved/.well-known/agents.txt`, `${base}/.well-known/agents.txt`]);
+  });
+
+  it("limits the number of redirects", async () => {
+    const result = await new AgentsTxtClient({ maxRedirects: 3 }).discover(`${base}/loop`);
+    expect(fetchErrors(result)[0]).toBeInstanceOf(TooManyRedirectsError);
+  });
+
+  it("refuses cross-site redirects when asked to", async () => {
+    const result = await new AgentsTxtClient({ sameSiteRedirects: true }).discover(`${base}/away`);
+    const [error] = fetchErrors(result);
+    expect(error).toBeInstanceOf(CrossSiteRedirectError);
+    expect((error as CrossSiteRedirectError).location).toBe("https://elsewhere.test/.well-known/agents.txt");
+  });
+
+  it("refuses http: URLs in HTTPS-only mode", async () => {
+    const result = await new AgentsTxtClient({ httpsOnly: true }).discover(base);
+    expect(fetchErrors(result).every((e) => e instanceof InsecureUrlError)).toBe(true);
+  });
+
+  it("blocks private addresses", async () => {
+    const client = new AgentsTxtClient({ blockPrivateAddresses: true });
+    const [error] = fetchErrors(await client.discover(base));
+    expect(error).toBeInstanceOf(BlockedAddressError);
+    expect((error as BlockedAddressError).address).toBe("127.0.0.1");
+
+    const metadata = fetchErrors(await client.discover("http://169.254.169.254/latest"))[0];
+    expect(metadata).toBeInstanceOf(BlockedAddressError);
+  });
+
+  it("blocks hostnames after resolving them", async () => {
+    const client = new AgentsTxtClient({ blockPrivateAddresses: true });
+    const [error] = fetchErrors(await client.discover("http://localhost:1"));
+    expect(error).toBeInstanceOf(BlockedAddressError);
+  });
+
+  it("checks the address the connection is made to", async () => {
+    const port = (server.address() as { port: number }).port;
+    const before = requests;
+    const client = new AgentsTxtClient({ blockPrivateAddresses: true });
+    const [error] = fetchErrors(await client.discover(`http://rebind.test:${port}`));
+    expect(error).toBeInstanceOf(BlockedAddressError);
+    expect((error as BlockedAddressError).address).toBe("127.0.0.1");
+    expect(requests).toBe(before);
+  });
+
+  it("caps the body size", async () => {
+    const result = await new AgentsTxtClient({ maxBodyBytes: 1024 }).discover(`${base}/big`);
+    const [error] = fetchErrors(result);
+    expect(error).toBeInstanceOf(BodyTooLargeError);
+    expect((error as BodyTooLargeError).limit).toBe(1024);
+  });
+
+  it("enforces the content type when asked to", async () => {
+    const strict = new AgentsTxtClient({ enforceContentType: true });
+    expect(fetchErrors(await strict.discover(`${base}/html`))[0]).toBeInstanceOf(ContentTypeError);
+    expect((await strict.discover(base)).success).toBe(true);
+    expect((await new AgentsTxtClient().discover(`${base}/html`)).success).toBe(true);
+  });
+
+  it("reports timeouts", async () => {
+    const result = await new AgentsTxtClient({ timeout: 50 }).discover(`${base}/slow`);
+    expect(fetchErrors(result)[0]).toBeInstanceOf(FetchTimeoutError);
+  });
+});
@@ -166,3 +166,67 @@ describe("generateJSON", () => {
     expect(parsed.agents.claude.rateLimit.requests).toBe(200);
   });
 });
+
+describe("generate options", () => {
+  it("omits or pins the timestamp", () => {
+    expect(generate(makeDoc(), { generatedAt: false })).not.toContain("# Generated:");
+    expect(generate(makeDoc(), { generatedAt: "2030-01-01T00:00:00.000Z" })).toContain(
+      "# Generated: 2030-01-01T00:00:00.000Z",
+    );
+  });
+
+  it("sorts capabilities and agents canonically", () => {
+    const doc = makeDoc();
+    doc.agents = { zeta: {}, claude: {}, "*": {} };
+    const txt = generate(doc, { sort: true });
+    expect(txt.indexOf("Capability: browse-products")).toBeLessThan(txt.indexOf("Capability: product-search"));
+    expect(txt.indexOf("Agent: *")).toBeLessThan(txt.indexOf("Agent: claude"));
+    expect(txt.indexOf("Agent: claude")).toBeLessThan(txt.indexOf("Agent: zeta"));
+  });
+
+  it("gives byte-identical output regardless of input ordering", () => {
+    const a = makeDoc({ metadata: { B: "2", A: "1" } });
+    const b = makeDoc({ metadata: { A: "1", B: "2" } });
+    b.capabilities.reverse();
+    b.agents = { claude: a.agents.claude, "*": {} };
+    const options = { sort: true, generatedAt: false } as const;
+    expect(generate(a, options)).toBe(generate(b, options));
+    expect(generateJSON(a, options)).toBe(generateJSON(b, options));
+  });
+
+  it("writes Site-* key aliases", () => {
+    const txt = generate(makeDoc(), { keyStyle: "site" });
+    expect(txt).toContain("Site-Description: A test store");
+    expect(txt).toContain("Site-Contact: test@example.com");
+  });
+
+  it("leaves out defaults", () => {
+    const txt = generate(makeDoc({ access: { allow: ["*"], disallow: [] }, agents: { "*": {} } }), {
+      omitDefaults: true,
+    });
+    expect(txt).not.toContain("Allow:");
+    expect(txt).not.toContain("Agent:");
+  });
+
+  it("adds header comments and section separators", () => {
+    const txt = generate(makeDoc(), {
+      headerComments: ["Managed by CI - do not edit", "# Owner: platform team"],
+      sectionSeparators: true,
+    });
+    expect(txt).toContain("# Managed by CI - do not edit\n# Owner: platform team\n");
+    expect(txt).toContain("# --- Capabilities ---\nCapability: product-search");
+    expect(txt).toContain("# --- Agents ---\nAgent: *");
+  });
+
+  it("sets the JSON indentation", () => {
+    expect(generateJSON(makeDoc(), { indent: 0 })).not.toContain("\n");
+    expect(generateJSON(makeDoc(), { indent: "\t" })).toContain('\n\t"specVersion"');
+  });
+
+  it("does not modify the input document", () => {
+    const doc = makeDoc();
+    generate(doc, { sort: true, generatedAt: false });
+    expect(doc.capabilities[0].id).toBe("product-search");
+    expect(doc.generatedAt).toBe("2026-01-01T00:00:00.000Z");
+  });
+});
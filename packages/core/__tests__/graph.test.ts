@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { buildDeclarationGraph, formatGraph } from "../src/graph.js";
+import { parse } from "../src/parser.js";
+import { generateJSON } from "../src/generator-json.js";
+
+const PLATFORM = `Spec-Version: 1.0
+Site-Name: Social
+Site-URL: https://social.example.com
+
+Capability: search-posts
+  Endpoint: https://api.social.example.com/v2/posts/search
+  Method: GET
+  Protocol: REST
+
+Capability: post-message
+  Endpoint: https://api.social.example.com/v2/posts
+  Method: POST
+  Protocol: REST
+
+Capability: follow-user
+  Endpoint: https://api.social.example.com/v2/users/:id/following
+  Method: POST
+  Protocol: REST
+
+Agent: *
+  Capabilities: search-posts
+
+Agent: acme-bot
+  Capabilities: search-posts, post-message
+  Agent-Declaration: https://bot.acme.com/.well-known/agents.txt
+`;
+
+const AGENT = `Spec-Version: 1.0
+Declaration-Type: agent
+Operates-On: https://social.example.com
+
+Site-Name: Acme Bot
+Site-URL: https://bot.acme.com
+
+Capability: customer-reply
+  Endpoint: https://api.social.example.com/v2/posts/
+  Method: POST
+  Protocol: REST
+  Description: Reply to customers
+
+Capability: trend-watch
+  Endpoint: https://api.social.example.com/v2/posts/search
+  Protocol: REST
+  Description: Watch trending posts
+`;
+
+function stubWeb(files: Record<string, string>): string[] {
+  const requested: string[] = [];
+  vi.stubGlobal("fetch", async (url: string) => {
+    requested.push(url);
+    return Object.hasOwn(files, url) ? new Response(files[url]) : new Response("", { status: 404 });
+  });
+  return requested;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("buildDeclarationGraph", () => {
+  it("follows links in both directions and verifies the handshake", async () => {
+    stubWeb({
+      "https://social.example.com/.well-known/agents.txt": PLATFORM,
+      "https://bot.acme.com/.well-known/agents.txt": AGENT,
+    });
+
+    const graph = await buildDeclarationGraph("https://social.example.com");
+    expect(graph.root).toBe("https://social.example.com");
+    expect(graph.nodes.map(({ id, kind, status, depth }) => ({ id, kind, status, depth }))).toEqual([
+      { id: "https://social.example.com", kind: "platform", status: "loaded", depth: 0 },
+      { id: "https://bot.acme.com", kind: "agent", status: "loaded", depth: 1 },
+    ]);
+    expect(graph.edges).toEqual([
+      {
+        from: "https://social.example.com",
+        to: "https://bot.acme.com",
+        kind: "agent-declaration",
+        agent: "acme-bot",
+        reciprocated: true,
+      },
+      { from: "https://bot.acme.com", to: "https://social.example.com", kind: "operates-on", reciprocated: true },
+    ]);
+    expect(graph.issues).toEqual([]);
+  });
+
+  it("flags an agent that claims a platform which does not list it", async () => {
+    stubWeb({
+      "https://social.example.com/.well-known/agents.txt": PLATFORM.replace(/ {2}Agent-Declaration: .*\n/, ""),
+      "https://bot.acme.com/.well-known/agents.txt": AGENT,
+    });
+
+    const graph = await buildDeclarationGraph("https://bot.acme.com");
+    expect(graph.nodes[0].kind).toBe("agent");
+    expect(graph.edges).toEqual([
+      { from: "https://bot.acme.com", to: "https://social.example.com", kind: "operates-on", reciprocated: false },
+    ]);
+    expect(graph.issues).toHaveLength(1);
+    expect(graph.issues[0]).toMatchObject({ code: "NOT_RECIPROCATED", from: "https://bot.acme.com" });
+  });
+
+  it("flags a platform link the agent declaration does not return", async () => {
+    stubWeb({
+      "https://social.example.com/.well-known/agents.txt": PLATFORM,
+      "https://bot.acme.com/.well-known/agents.txt": AGENT.replace("Operates-On: https://social.example.com", "Operates-On: https://other.example.com"),
+    });
+
+    const graph = await buildDeclarationGraph("https://social.example.com", { maxDepth: 1 });
+    expect(graph.issues.map((i) => i.code)).toEqual(["NOT_RECIPROCATED"]);
+    expect(graph.issues[0].message).toContain("does not list https://social.example.com in Operates-On");
+    // Beyond maxDepth: recorded, not fetched
+    expect(graph.nodes.find((n) => n.id === "https://other.example.com")).toMatchObject({ status: "skipped", depth: 2 });
+  });
+
+  it("flags a declaration URL that cannot be fetched", async () => {
+    stubWeb({ "https://social.example.com/.well-known/agents.txt": PLATFORM });
+
+    const graph = await buildDeclarationGraph("https://social.example.com");
+    expect(graph.nodes[1]).toMatchObject({ id: "https://bot.acme.com", status: "unreachable" });
+    expect(graph.nodes[1].error).toContain("HTTP 404");
+    expect(graph.issues).toEqual([
+      expect.objectContaining({ code: "UNREACHABLE_DECLARATION", from: "https://social.example.com", to: "https://bot.acme.com" }),
+    ]);
+  });
+
+  it("flags capabilities the platform does not grant to the agent", async () => {
+    const agent = `${AGENT}
+Capability: growth
+  Endpoint: https://api.social.example.com/v2/users/{user}/following
+  Method: POST
+  Protocol: REST
+
+Capability: delete-posts
+  Endpoint: https://api.social.example.com/v2/posts
+  Method: DELETE
+  Protocol: REST
+
+Capability: own-api
+  Endpoint: https://bot.acme.com/api
+  Protocol: REST
+`;
+    stubWeb({
+      "https://social.example.com/.well-known/agents.txt": PLATFORM,
+      "https://bot.acme.com/.well-known/agents.txt": agent,
+    });
+
+    const graph = await buildDeclarationGraph("https://social.example.com");
+    const mismatches = graph.issues.filter((i) => i.code === "CAPABILITY_MISMATCH");
+    // customer-reply and trend-watch match granted capabilities by endpoint; own-api is not on the platform
+    expect(mismatches.map((i) => i.capability)).toEqual(["growth", "delete-posts"]);
+    expect(mismatches[0].message).toContain('does not grant to "acme-bot"');
+    expect(mismatches[1].message).toContain("does not declare");
+  });
+
+  it("flags links to the wrong kind of declaration", async () => {
+    stubWeb({
+      "https://social.example.com/.well-known/agents.txt": PLATFORM,
+      "https://bot.acme.com/.well-known/agents.txt": AGENT.replace("Declaration-Type: agent\n", ""),
+    });
+
+    const graph = await buildDeclarationGraph("https://social.example.com");
+    expect(graph.issues.map((i) => i.code)).toContain("WRONG_DECLARATION_TYPE");
+  });
+
+  it("starts from a document in hand and fetches the exact Agent-Declaration URL", async () => {
+    const requested = stubWeb({
+      "https://bot.acme.com/declarations/agent.json": generateJSON(parse(AGENT).document!),
+    });
+    const document = parse(PLATFORM.replace("https://bot.acme.com/.well-known/agents.txt", "https://bot.acme.com/declarations/agent.json")).document!;
+
+    const graph = await buildDeclarationGraph({ document, url: "https://social.example.com/.well-known/agents.txt" });
+    expect(requested).toEqual(["https://bot.acme.com/declarations/agent.json"]);
+    expect(graph.nodes[1]).toMatchObject({ status: "loaded", kind: "agent", url: "https://bot.acme.com/declarations/agent.json" });
+    expect(graph.issues).toEqual([]);
+  });
+
+  it("stops fetching after maxNodes", async () => {
+    const requested = stubWeb({
+      "https://social.example.com/.well-known/agents.txt": PLATFORM,
+      "https://bot.acme.com/.well-known/agents.txt": AGENT,
+    });
+
+    const graph = await buildDeclarationGraph("https://social.example.com", { maxNodes: 1 });
+    expect(graph.nodes[1].status).toBe("skipped");
+    expect(requested).not.toContain("https://bot.acme.com/.well-known/agents.txt");
+  });
+});
+
+describe("formatGraph", () => {
+  it("renders DOT with node shapes and unreturned links in red", async () => {
+    stubWeb({
+      "https://social.example.com/.well-known/agents.txt": PLATFORM,
+      "https://bot.acme.com/.well-known/agents.txt": AGENT.replace("Operates-On: https://social.example.com\n", ""),
+    });
+    const graph = await buildDeclarationGraph("https://social.example.com");
+    const dot = formatGraph(graph, "dot");
+
+    expect(dot.split("\n")).toEqual([
+      "digraph declarations {",
+      "  rankdir=LR;",
+      '  "https://social.example.com" [label="Social\\nhttps://social.example.com", shape=box];',
+      '  "https://bot.acme.com" [label="Acme Bot\\nhttps://bot.acme.com", shape=ellipse];',
+      '  "https://social.example.com" -> "https://bot.acme.com" [label="Agent-Declaration (acme-bot)", color=red];',
+      "}",
+    ]);
+    expect(JSON.parse(formatGraph(graph, "json"))).toEqual(graph);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import { importOpenAPI } from "../src/importer-openapi.js";
+import { validate } from "../src/validator.js";
+import type { AgentsTxtDocument } from "../src/types.js";
+
+const YAML_SPEC = `
+openapi: 3.0.3
+info:
+  title: Store API
+  version: "1"
+servers:
+  - url: https://{env}.example.com/v1
+    variables:
+      env:
+        default: api
+security:
+  - oauth: [orders.read]
+paths:
+  /products:
+    get:
+      operationId: searchProducts
+      summary: Search the product catalog
+      tags: [catalog]
+      security: []
+      parameters:
+        - $ref: "#/components/parameters/Limit"
+        - name: q
+          in: query
+          required: true
+          description: Search query
+          schema:
+            type: string
+            maxLength: 200
+        - name: session
+          in: cookie
+          schema:
+            type: string
+  /products/{id}:
+    parameters:
+      - name: id
+        in: path
+        schema:
+          type: string
+    get:
+      operationId: getProduct
+      tags: [catalog]
+      description: Fetch one product
+  /orders:
+    post:
+      operationId: createOrder
+      summary: Place an order
+      tags: [orders]
+      requestBody:
+        content:
+          application/json:
+            schema:
+              $ref: "#/components/schemas/NewOrder"
+  /admin/reindex:
+    post:
+      tags: [internal]
+      security:
+        - key: []
+components:
+  parameters:
+    Limit:
+      name: limit
+      in: query
+      schema:
+        type: integer
+        minimum: 1
+        maximum: 100
+        default: 20
+  schemas:
+    NewOrder:
+      type: object
+      required: [sku]
+      properties:
+        sku:
+          type: string
+        quantity:
+          type: integer
+          minimum: 1
+        email:
+          type: string
+          format: email
+  securitySchemes:
+    oauth:
+      type: oauth2
+      flows:
+        clientCredentials:
+          tokenUrl: https://auth.example.com/token
+          scopes:
+            orders.read: Read orders
+    key:
+      type: apiKey
+      in: header
+      name: X-API-Key
+`;
+
+describe("importOpenAPI", () => {
+  it("maps operations to capabilities", () => {
+    const result = importOpenAPI(YAML_SPEC, { specUrl: "https://api.example.com/openapi.yaml" });
+    expect(result.success).toBe(true);
+    expect(result.capabilities.map((c) => c.id)).toEqual([
+      "search-products",
+      "get-product",
+      "create-order",
+      "post-admin-reindex",
+    ]);
+
+    const search = result.capabilities[0];
+    expect(search).toMatchObject({
+      description: "Search the product catalog",
+      endpoint: "https://api.example.com/v1/products",
+      method: "GET",
+      protocol: "REST",
+      auth: { type: "none" },
+      openapi: "https://api.example.com/openapi.yaml",
+    });
+    expect(search.parameters).toEqual([
+      { name: "limit", in: "query", type: "integer", required: false, default: 20, min: 1, max: 100 },
+      { name: "q", in: "query", type: "string", required: true, max: 200, description: "Search query" },
+    ]);
+  });
+
+  it("maps path parameters, request bodies and security schemes", () => {
+    const [, product, order, reindex] = importOpenAPI(YAML_SPEC).capabilities;
+    expect(product.description).toBe("Fetch one product");
+    expect(product.endpoint).toBe("https://api.example.com/v1/products/{id}");
+    expect(product.parameters).toEqual([{ name: "id", in: "path", type: "string", required: true }]);
+    expect(product.auth).toEqual({
+      type: "oauth2",
+      tokenEndpoint: "https://auth.example.com/token",
+      scopes: ["orders.read"],
+    });
+
+    expect(order.parameters).toEqual([
+      { name: "sku", in: "body", type: "string", required: true },
+      { name: "quantity", in: "body", type: "integer", required: false, min: 1 },
+      { name: "email", in: "body", type: "string", required: false, format: "email" },
+    ]);
+    expect(reindex.auth).toEqual({ type: "api-key" });
+  });
+
+  it("warns about fields it cannot represent", () => {
+    const result = importOpenAPI(YAML_SPEC);
+    expect(result.warnings.some((w) => w.message.includes('"session" in cookie'))).toBe(true);
+  });
+
+  it("filters by tag and path", () => {
+    const byTag = importOpenAPI(YAML_SPEC, { includeTags: ["catalog"], excludePaths: ["/products/*"] });
+    expect(byTag.capabilities.map((c) => c.id)).toEqual(["search-products"]);
+
+    const byPath = importOpenAPI(YAML_SPEC, { excludeTags: ["internal"], includePaths: ["/orders", "/admin/*"] });
+    expect(byPath.capabilities.map((c) => c.id)).toEqual(["create-order"]);
+  });
+
+  it("accepts JSON text and parsed objects", () => {
+    const spec = {
+      openapi: "3.1.0",
+      paths: { "/ping": { get: { operationId: "ping", responses: {} } } },
+    };
+    const fromText = importOpenAPI(JSON.stringify(spec), { baseUrl: "https://example.com" });
+    const fromObject = importOpenAPI(spec, { baseUrl: "https://example.com" });
+    expect(fromText.capabilities).toEqual(fromObject.capabilities);
+    expect(fromObject.capabilities[0].endpoint).toBe("https://example.com/ping");
+    expect(fromObject.capabilities[0].description).toBe("GET /ping");
+  });
+
+  it("rejects documents that are not OpenAPI 3.x", () => {
+    expect(importOpenAPI('{"swagger": "2.0"}').success).toBe(false);
+    expect(importOpenAPI("openapi: [").success).toBe(false);
+  });
+
+  it("produces capabilities that validate", () => {
+    const doc: AgentsTxtDocument = {
+      specVersion: "1.0",
+      site: { name: "Store", url: "https://example.com" },
+      capabilities: importOpenAPI(YAML_SPEC).capabilities,
+      access: { allow: ["*"], disallow: [] },
+      agents: { "*": {} },
+    };
+    expect(validate(doc).errors).toEqual([]);
+  });
+});
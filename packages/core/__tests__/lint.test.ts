@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import { lint, applyFixes, applyTextFixes, BUILTIN_RULES } from "../src/lint.js";
+import type { LintRule } from "../src/lint.js";
+import { validate } from "../src/validator.js";
+import type { AgentsTxtDocument } from "../src/types.js";
+
+function makeDoc(): AgentsTxtDocument {
+  return {
+    specVersion: "1.0",
+    site: { name: "Lint Store", url: "https://lint.example.com" },
+    capabilities: [
+      {
+        id: "search",
+        description: "Search",
+        endpoint: "https://lint.example.com/api/search",
+        protocol: "REST",
+      },
+    ],
+    access: { allow: ["/api/*"], disallow: [] },
+    agents: { "*": {} },
+  };
+}
+
+describe("lint", () => {
+  it("matches validate() without a config", () => {
+    const doc = makeDoc();
+    doc.site.url = "http://lint.example.com";
+    doc.agents["claude"] = { capabilities: ["missing"] };
+    const { valid, errors, warnings } = lint(doc);
+    expect(validate(doc)).toEqual({ valid, errors, warnings });
+  });
+
+  it("tags every problem with its rule ID", () => {
+    const doc = makeDoc();
+    doc.capabilities[0].endpoint = "http://lint.example.com/api/search";
+    const result = lint(doc);
+    expect(result.warnings).toEqual([
+      {
+        path: "capabilities.search.endpoint",
+        message: 'Capability "search" endpoint should use HTTPS',
+        code: "INSECURE_ENDPOINT",
+        rule: "insecure-endpoint",
+      },
+    ]);
+    expect(result.fixable).toBe(1);
+  });
+
+  it("overrides severities and turns rules off", () => {
+    const doc = makeDoc();
+    doc.capabilities[0].endpoint = "http://lint.example.com/api/search";
+    doc.site.url = "http://lint.example.com";
+
+    const result = lint(doc, { rules: { "insecure-endpoint": "error", "insecure-url": "off" } });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.code)).toEqual(["INSECURE_ENDPOINT"]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("reports malformed capability IDs once, under their own rule", () => {
+    const doc = makeDoc();
+    doc.capabilities[0].id = "Product_Search";
+    const result = lint(doc);
+    expect(result.errors.map((e) => e.rule)).toEqual(["capability-id-format"]);
+  });
+
+  it("runs custom rules after the built-in ones", () => {
+    const rule: LintRule = {
+      id: "require-contact",
+      code: "MISSING_CONTACT",
+      description: "Sites must list a contact",
+      defaultSeverity: "warning",
+      check(doc, report) {
+        if (!doc.site.contact) report({ path: "site.contact", message: "No contact address" });
+      },
+    };
+    const result = lint(makeDoc(), { customRules: [rule] });
+    expect(result.warnings).toEqual([
+      { path: "site.contact", message: "No contact address", code: "MISSING_CONTACT", rule: "require-contact" },
+    ]);
+    expect(lint(makeDoc(), { customRules: [rule], rules: { "require-contact": "off" } }).warnings).toEqual([]);
+  });
+
+  it("rejects unknown rules, bad severities and malformed custom rules", () => {
+    const doc = makeDoc();
+    expect(() => lint(doc, { rules: { "no-such-rule": "error" } })).toThrow(/Unknown lint rule/);
+    expect(() => lint(doc, { rules: { schema: "fatal" as never } })).toThrow(/Invalid severity/);
+    const base = { description: "x", defaultSeverity: "warning" as const, check() {} };
+    expect(() => lint(doc, { customRules: [{ ...base, id: "Bad_Rule", code: "BAD" }] })).toThrow(/kebab-case/);
+    expect(() => lint(doc, { customRules: [{ ...base, id: "bad-code", code: "bad" }] })).toThrow(/Invalid code/);
+    expect(() => lint(doc, { customRules: [{ ...base, id: "schema", code: "MINE" }] })).toThrow(/Duplicate/);
+  });
+
+  it("gives every built-in rule a kebab-case ID and an upper snake case code", () => {
+    for (const rule of BUILTIN_RULES) {
+      expect(rule.id).toMatch(/^[a-z][a-z0-9-]*$/);
+      expect(rule.code).toMatch(/^[A-Z][A-Z0-9_]*$/);
+    }
+  });
+});
+
+describe("applyFixes", () => {
+  it("fixes a copy of the document and re-lints it", () => {
+    const doc = makeDoc();
+    doc.site.url = "http://lint.example.com";
+    doc.capabilities[0].id = "Product Search";
+    doc.capabilities[0].endpoint = "http://lint.example.com/api/search";
+    doc.agents["claude"] = { capabilities: ["Product Search"] };
+
+    const result = applyFixes(doc, { rules: { "missing-agents-json": "warning" } });
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([]);
+    expect(result.output.site.url).toBe("https://lint.example.com");
+    expect(result.output.capabilities[0].id).toBe("product-search");
+    expect(result.output.capabilities[0].endpoint).toBe("https://lint.example.com/api/search");
+    expect(result.output.agents["claude"].capabilities).toEqual(["product-search"]);
+    expect(result.output.metadata).toEqual({ "Agents-JSON": "https://lint.example.com/.well-known/agents.json" });
+    expect(result.fixed.map((f) => f.rule)).toEqual([
+      "capability-id-format",
+      "insecure-url",
+      "insecure-endpoint",
+      "missing-agents-json",
+    ]);
+    // The input is untouched
+    expect(doc.capabilities[0].id).toBe("Product Search");
+  });
+
+  it("does not offer a rename that would collide with an existing ID", () => {
+    const doc = makeDoc();
+    doc.capabilities.push({ ...doc.capabilities[0], id: "Search" });
+    const result = applyFixes(doc);
+    expect(result.fixed).toEqual([]);
+    expect(result.errors.map((e) => e.code)).toEqual(["INVALID_CAPABILITY_ID"]);
+  });
+});
+
+describe("applyTextFixes", () => {
+  const SOURCE = `# Hand maintained
+Site-Name: Lint Store
+Site-URL:   http://lint.example.com
+
+# Search
+Capability: Product_Search
+  Endpoint: http://lint.example.com/api/search
+  Protocol: REST
+  Description: Search products
+
+Agent: claude
+  Capabilities: Product_Search
+`;
+
+  it("applies fixes through the editor, keeping comments and spacing", () => {
+    const result = applyTextFixes(SOURCE);
+    expect(result.valid).toBe(true);
+    expect(result.output).toBe(`# Hand maintained
+Site-Name: Lint Store
+Site-URL:   https://lint.example.com
+
+# Search
+Capability: product-search
+  Endpoint: https://lint.example.com/api/search
+  Protocol: REST
+  Description: Search products
+
+Agent: claude
+  Capabilities: product-search
+`);
+    expect(result.fixed.map((f) => f.code)).toEqual(["INVALID_CAPABILITY_ID", "INSECURE_URL", "INSECURE_ENDPOINT"]);
+  });
+
+  it("inserts a missing Agents-JSON cross-reference when the rule is enabled", () => {
+    const result = applyTextFixes("Site-Name: Lint Store\nSite-URL: https://lint.example.com\n", {
+      rules: { "missing-agents-json": "warning" },
+    });
+    expect(result.output).toBe(
+      "Site-Name: Lint Store\nSite-URL: https://lint.example.com\nAgents-JSON: https://lint.example.com/.well-known/agents.json\n",
+    );
+  });
+
+  it("leaves disabled rules unfixed", () => {
+    const result = applyTextFixes(SOURCE, { rules: { "insecure-url": "off" } });
+    expect(result.output).toContain("Site-URL:   http://lint.example.com");
+    expect(result.output).toContain("Endpoint: https://lint.example.com/api/search");
+  });
+});
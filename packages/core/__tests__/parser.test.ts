@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { parse } from "../src/parser.js";
+import { parseJSON } from "../src/parser-json.js";
 
 const MINIMAL_DOC = `
 Site-Name: My Store
@@ -309,3 +310,100 @@ Agent: *
     expect(d.access.disallow).toContain("/2/dm_conversations/*");
   });
 });
+
+describe("parse (strict mode and limits)", () => {
+  const UNKNOWN_FIELDS = `
+Site-Name: Test
+Site-URL: https://test.com
+
+Capability: search
+  Endpoint: https://test.com/search
+  Protocol: SOAP
+  Colour: blue
+
+Agent: claude
+  Rate-Limit: lots
+`;
+
+  it("reports malformed agent Rate-Limit lines as warnings", () => {
+    const result = parse(UNKNOWN_FIELDS);
+    expect(result.success).toBe(true);
+    expect(result.warnings.some((w) => w.field === "Rate-Limit" && w.line === 11)).toBe(true);
+  });
+
+  it("turns warnings into errors in strict mode", () => {
+    const result = parse(UNKNOWN_FIELDS, { strict: true });
+    expect(result.success).toBe(false);
+    expect(result.warnings).toHaveLength(0);
+    expect(result.errors.map((e) => e.message)).toEqual([
+      "Unknown protocol: SOAP",
+      "Unknown capability field: Colour",
+      "Invalid rate limit: lots",
+    ]);
+  });
+
+  it("reports agents.json fields the schema does not know", () => {
+    const json = JSON.stringify({
+      specVersion: "1.0",
+      site: { name: "T", url: "https://t.com", colour: "blue" },
+      capabilities: [{ id: "s", description: "S", endpoint: "https://t.com/s", protocol: "REST", priority: 1 }],
+      access: { allow: ["*"], disallow: [] },
+      agents: { "*": {} },
+    });
+
+    const lenient = parseJSON(json);
+    expect(lenient.success).toBe(true);
+    expect(lenient.warnings.map((w) => w.field)).toEqual(["site.colour", "capabilities.0.priority"]);
+
+    const strict = parseJSON(json, { strict: true });
+    expect(strict.success).toBe(false);
+    expect(strict.errors.map((e) => e.message)).toEqual([
+      "Unknown field: site.colour",
+      "Unknown field: capabilities.0.priority",
+    ]);
+  });
+
+  it("warns on unsupported spec version by default", () => {
+    const result = parse("# Spec-Version: 2.0\nSite-Name: T\nSite-URL: https://t.com\n");
+    expect(result.success).toBe(true);
+    expect(result.warnings.some((w) => w.field === "Spec-Version")).toBe(true);
+  });
+
+  it("refuses unsupported spec versions in strict mode", () => {
+    const result = parse("# Spec-Version: 2.0\nSite-Name: T\nSite-URL: https://t.com\n", { strict: true });
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatchObject({ line: 1, field: "Spec-Version" });
+  });
+
+  it("reads the uncommented Spec-Version header and gates on the requested versions", () => {
+    const input = "Spec-Version: 1.1\nSite-Name: T\nSite-URL: https://t.com\n";
+    expect(parse(input).document?.specVersion).toBe("1.1");
+    expect(parse(input, { specVersion: ["1.0", "1.1"] }).success).toBe(true);
+    expect(parse(input, { specVersion: "1.0" }).success).toBe(false);
+  });
+
+  it("rejects input over maxBytes before parsing", () => {
+    const result = parse(MINIMAL_DOC + "#".repeat(100), { maxBytes: 64 });
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toMatch(/maximum size of 64 bytes/);
+  });
+
+  it("counts multi-byte characters against maxBytes", () => {
+    const input = `Site-Name: ${"é".repeat(20)}\nSite-URL: https://t.com\n`;
+    expect(parse(input, { maxBytes: 50 }).success).toBe(false);
+    expect(parse(input, { maxBytes: 100 }).success).toBe(true);
+  });
+
+  it("stops at the first line over maxLineLength", () => {
+    const result = parse(`Site-Name: ${"x".repeat(200)}\nSite-URL: https://t.com\n`, { maxLineLength: 100 });
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([{ line: 1, message: "Line exceeds maximum length of 100 characters" }]);
+  });
+
+  it("stops once maxCapabilities is exceeded", () => {
+    const caps = Array.from({ length: 5 }, (_, i) => `Capability: c${i}\n  Endpoint: https://t.com/${i}\n`).join("");
+    const result = parse(`Site-Name: T\nSite-URL: https://t.com\n${caps}`, { maxCapabilities: 3 });
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toMatch(/maximum of 3 capabilities/);
+  });
+});
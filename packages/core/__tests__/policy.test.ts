@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { resolveAgentPolicy, agentNameFromUserAgent, moreRestrictive } from "../src/policy.js";
+import type { AgentsTxtDocument } from "../src/types.js";
+
+function makeDoc(): AgentsTxtDocument {
+  return {
+    specVersion: "1.0",
+    site: { name: "Policy Store", url: "https://policy.example.com" },
+    capabilities: [
+      {
+        id: "search",
+        description: "Search",
+        endpoint: "https://policy.example.com/api/search",
+        protocol: "REST",
+        rateLimit: { requests: 10, window: "second" },
+      },
+      {
+        id: "checkout",
+        description: "Checkout",
+        endpoint: "https://policy.example.com/api/checkout",
+        protocol: "REST",
+        rateLimit: { requests: 5, window: "minute" },
+      },
+      {
+        id: "assistant",
+        description: "Assistant",
+        endpoint: "https://policy.example.com/mcp",
+        protocol: "MCP",
+      },
+    ],
+    access: { allow: ["*"], disallow: [] },
+    agents: {
+      "*": { capabilities: ["search"] },
+      Claude: { rateLimit: { requests: 200, window: "minute" }, capabilities: ["search", "checkout", "assistant"] },
+    },
+  };
+}
+
+describe("agentNameFromUserAgent", () => {
+  it("takes the first token without its version, lowercased", () => {
+    expect(agentNameFromUserAgent("Claude/1.0 (+https://anthropic.com)")).toBe("claude");
+    expect(agentNameFromUserAgent("  gpt ")).toBe("gpt");
+    expect(agentNameFromUserAgent("")).toBe("");
+  });
+});
+
+describe("resolveAgentPolicy", () => {
+  it("matches the first User-Agent token case-insensitively", () => {
+    const resolved = resolveAgentPolicy(makeDoc(), "claude/2.1");
+    expect(resolved.agent).toBe("Claude");
+    expect(resolved.capabilities).toEqual(["search", "checkout", "assistant"]);
+    expect(resolved.rateLimit).toEqual({ requests: 200, window: "minute" });
+  });
+
+  it("applies the more restrictive of capability and agent limits", () => {
+    const { rateLimits } = resolveAgentPolicy(makeDoc(), "claude");
+    expect(rateLimits).toEqual({
+      // 200/minute is tighter than 10/second (600/minute)
+      search: { requests: 200, window: "minute" },
+      checkout: { requests: 5, window: "minute" },
+      assistant: { requests: 200, window: "minute" },
+    });
+  });
+
+  it("falls back to * for unknown and missing User-Agents", () => {
+    for (const ua of ["Mozilla/5.0 ClaudeBot/1.0", undefined]) {
+      const resolved = resolveAgentPolicy(makeDoc(), ua);
+      expect(resolved.agent).toBe("*");
+      expect(resolved.capabilities).toEqual(["search"]);
+      expect(resolved.rateLimits).toEqual({ search: { requests: 10, window: "second" } });
+      expect(resolved.rateLimit).toBeUndefined();
+    }
+  });
+
+  it("allows everything when no block matches and there is no *", () => {
+    const doc = makeDoc();
+    doc.agents = { gpt: { capabilities: [] } };
+    const resolved = resolveAgentPolicy(doc, "claude");
+    expect(resolved.agent).toBeNull();
+    expect(resolved.capabilities).toEqual(["search", "checkout", "assistant"]);
+  });
+
+  it("ignores capability references that are not declared", () => {
+    const doc = makeDoc();
+    doc.agents["*"] = { capabilities: ["search", "missing"] };
+    expect(resolveAgentPolicy(doc, "bot").capabilities).toEqual(["search"]);
+  });
+});
+
+describe("moreRestrictive", () => {
+  it("compares limits across windows", () => {
+    expect(moreRestrictive({ requests: 1000, window: "hour" }, { requests: 20, window: "minute" }))
+      .toEqual({ requests: 1000, window: "hour" });
+    expect(moreRestrictive(undefined, { requests: 1, window: "day" })).toEqual({ requests: 1, window: "day" });
+    expect(moreRestrictive(undefined, undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { parseRateLimitHeaders, rateLimitDelay } from "../src/rate-limit-headers.js";
+import { AgentsTxtClient } from "../src/client.js";
+
+const NOW = Date.UTC(2026, 0, 1);
+
+describe("parseRateLimitHeaders", () => {
+  it("reads the IETF RateLimit and RateLimit-Policy fields by policy name", () => {
+    const info = parseRateLimitHeaders(
+      new Headers({
+        "RateLimit-Policy": '"burst";q=10;w=1, "daily";q=1000;w=86400',
+        RateLimit: '"burst";r=9;t=1, "daily";r=3;t=3600',
+      }),
+    );
+    expect(info).toEqual({
+      limit: 1000,
+      remaining: 3,
+      resetSeconds: 3600,
+      policies: [
+        { name: "burst", limit: 10, windowSeconds: 1, remaining: 9, resetSeconds: 1 },
+        { name: "daily", limit: 1000, windowSeconds: 86400, remaining: 3, resetSeconds: 3600 },
+      ],
+    });
+  });
+
+  it("reads policy names containing separators", () => {
+    const info = parseRateLimitHeaders({ RateLimit: '"agent:2/minute";r=1;t=60, "a\\"b,c";r=0;t=5' });
+    expect(info!.policies.map((p) => p.name)).toEqual(["agent:2/minute", 'a"b,c']);
+    expect(info!.remaining).toBe(0);
+  });
+
+  it("reads the earlier draft's forms", () => {
+    const info = parseRateLimitHeaders({
+      "RateLimit-Policy": "100;w=60",
+      RateLimit: "limit=100, remaining=50, reset=30",
+    });
+    expect(info).toEqual({
+      limit: 100,
+      remaining: 50,
+      resetSeconds: 30,
+      policies: [{ limit: 100, windowSeconds: 60, remaining: 50, resetSeconds: 30 }],
+    });
+  });
+
+  it("falls back to X-RateLimit-* headers, with reset as a delay or a Unix time", () => {
+    expect(parseRateLimitHeaders({ "X-RateLimit-Limit": "60", "X-RateLimit-Remaining": "42", "X-RateLimit-Reset": "30" }, NOW)).toEqual({
+      limit: 60,
+      remaining: 42,
+      resetSeconds: 30,
+      policies: [{ limit: 60, remaining: 42, resetSeconds: 30 }],
+    });
+    const epoch = String(NOW / 1000 + 45);
+    expect(parseRateLimitHeaders({ "x-ratelimit-remaining": "0", "x-ratelimit-reset": epoch }, NOW)!.resetSeconds).toBe(45);
+  });
+
+  it("reads Retry-After as seconds or an HTTP date", () => {
+    expect(parseRateLimitHeaders({ "Retry-After": "12" })).toEqual({ retryAfterSeconds: 12, policies: [] });
+    const date = new Date(NOW + 90_000).toUTCString();
+    expect(parseRateLimitHeaders({ "Retry-After": date }, NOW)!.retryAfterSeconds).toBe(90);
+  });
+
+  it("returns undefined without rate limit headers and ignores garbage", () => {
+    expect(parseRateLimitHeaders(new Headers({ "Content-Type": "text/plain" }))).toBeUndefined();
+    expect(parseRateLimitHeaders({ "X-RateLimit-Remaining": "lots", "Retry-After": "soon" })).toBeUndefined();
+  });
+});
+
+describe("rateLimitDelay", () => {
+  it("waits for Retry-After, or for the reset once nothing remains", () => {
+    expect(rateLimitDelay(undefined)).toBe(0);
+    expect(rateLimitDelay({ retryAfterSeconds: 3, remaining: 5, resetSeconds: 60, policies: [] })).toBe(3000);
+    expect(rateLimitDelay({ remaining: 0, resetSeconds: 20, policies: [] })).toBe(20_000);
+    expect(rateLimitDelay({ remaining: 4, resetSeconds: 20, policies: [] })).toBe(0);
+  });
+
+  it("can spread the remaining requests over the time until reset", () => {
+    expect(rateLimitDelay({ remaining: 4, resetSeconds: 20, policies: [] }, { spread: true })).toBe(5000);
+  });
+});
+
+describe("AgentsTxtClient rate limit helpers", () => {
+  it("reads a response's rate limit headers", () => {
+    const response = new Response("", {
+      status: 429,
+      headers: { RateLimit: '"search";r=0;t=30', "RateLimit-Policy": '"search";q=10;w=60', "Retry-After": "30" },
+    });
+    const client = new AgentsTxtClient();
+    expect(client.rateLimit(response)).toMatchObject({ limit: 10, remaining: 0, resetSeconds: 30, retryAfterSeconds: 30 });
+    expect(client.rateLimitDelay(response)).toBe(30_000);
+    expect(client.rateLimit(new Response(""))).toBeUndefined();
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { reconcile } from "../src/reconcile.js";
+import { AgentsTxtClient } from "../src/client.js";
+import { generate } from "../src/generator.js";
+import { generateJSON } from "../src/generator-json.js";
+import type { AgentsTxtDocument } from "../src/types.js";
+
+function makeDoc(): AgentsTxtDocument {
+  return {
+    specVersion: "1.0",
+    site: { name: "Both Store", url: "https://both.example.com" },
+    capabilities: [
+      {
+        id: "search",
+        description: "Search",
+        endpoint: "https://both.example.com/api/search",
+        method: "GET",
+        protocol: "REST",
+        rateLimit: { requests: 60, window: "minute" },
+      },
+      {
+        id: "checkout",
+        description: "Checkout",
+        endpoint: "https://both.example.com/api/checkout",
+        method: "POST",
+        protocol: "REST",
+        auth: { type: "bearer-token", tokenEndpoint: "https://both.example.com/token" },
+      },
+    ],
+    access: { allow: ["/api/*"], disallow: [] },
+    agents: { "*": { rateLimit: { requests: 30, window: "minute" } } },
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("reconcile", () => {
+  it("merges identical documents with no inconsistencies", () => {
+    const { document, provenance, inconsistencies } = reconcile(makeDoc(), makeDoc());
+    expect(document).toEqual(makeDoc());
+    expect(inconsistencies).toEqual([]);
+    expect(provenance["capabilities.search"]).toBe("both");
+    expect(provenance["capabilities.search.rateLimit"]).toBe("both");
+    expect(provenance["site.name"]).toBe("both");
+  });
+
+  it("ignores differences that are only spelling", () => {
+    const txt = makeDoc();
+    const json = makeDoc();
+    delete json.capabilities[0].method;
+    json.capabilities[1].method = "post";
+    json.capabilities[1].auth = { tokenEndpoint: "https://both.example.com/token", type: "bearer-token" };
+    txt.capabilities[0].parameters = [];
+    txt.capabilities[1].parameters = [{ name: "cart", in: "body", type: "string", required: false }];
+    json.capabilities[1].parameters = [{ name: "cart", in: "body", type: "string" }];
+    expect(reconcile(txt, json).inconsistencies).toEqual([]);
+  });
+
+  it("reports capabilities that exist in only one format", () => {
+    const txt = makeDoc();
+    const json = makeDoc();
+    txt.capabilities.pop();
+    json.capabilities.shift();
+
+    const { document, provenance, inconsistencies } = reconcile(txt, json);
+    expect(document.capabilities.map((c) => c.id)).toEqual(["checkout", "search"]);
+    expect(provenance["capabilities.checkout"]).toBe("json");
+    expect(provenance["capabilities.search"]).toBe("txt");
+    expect(inconsistencies.map((i) => i.message)).toEqual([
+      'Capability "checkout" is only in agents.json',
+      'Capability "search" is only in agents.txt',
+    ]);
+  });
+
+  it("prefers agents.json on conflicts and reports them", () => {
+    const txt = makeDoc();
+    const json = makeDoc();
+    json.capabilities[0].rateLimit = { requests: 10, window: "minute" };
+    txt.agents["*"].capabilities = ["search"];
+
+    const { document, provenance, inconsistencies } = reconcile(txt, json);
+    expect(document.capabilities[0].rateLimit).toEqual({ requests: 10, window: "minute" });
+    expect(provenance["capabilities.search.rateLimit"]).toBe("json");
+    expect(document.agents["*"].capabilities).toEqual(["search"]);
+    expect(provenance["agents.*.capabilities"]).toBe("txt");
+    expect(inconsistencies).toEqual([
+      {
+        path: "capabilities.search.rateLimit",
+        message:
+          'capabilities.search.rateLimit differs: {"requests":60,"window":"minute"} in agents.txt, {"requests":10,"window":"minute"} in agents.json',
+        txt: { requests: 60, window: "minute" },
+        json: { requests: 10, window: "minute" },
+      },
+      {
+        path: "agents.*.capabilities",
+        message: "agents.*.capabilities is only in agents.txt",
+        txt: ["search"],
+      },
+    ]);
+  });
+
+  it("can prefer agents.txt", () => {
+    const json = makeDoc();
+    json.site.name = "JSON Name";
+    const { document, provenance } = reconcile(makeDoc(), json, "txt");
+    expect(document.site.name).toBe("Both Store");
+    expect(provenance["site.name"]).toBe("txt");
+  });
+
+  it("does not report the Agents-JSON cross-reference or generation time", () => {
+    const txt = makeDoc();
+    const json = makeDoc();
+    txt.metadata = { "Agents-JSON": "https://both.example.com/.well-known/agents.json" };
+    txt.generatedAt = "2026-01-01T00:00:00Z";
+    const { document, inconsistencies } = reconcile(txt, json);
+    expect(inconsistencies).toEqual([]);
+    expect(document.metadata).toEqual(txt.metadata);
+    expect(document.generatedAt).toBe(txt.generatedAt);
+  });
+
+  it("matches agent names case-insensitively", () => {
+    const txt = makeDoc();
+    const json = makeDoc();
+    txt.agents.Claude = { capabilities: ["search"] };
+    json.agents.claude = { capabilities: ["search"] };
+    const { document, inconsistencies } = reconcile(txt, json);
+    expect(inconsistencies).toEqual([]);
+    expect(Object.keys(document.agents)).toEqual(["*", "claude"]);
+  });
+});
+
+describe("AgentsTxtClient.discoverAll", () => {
+  function stubSite(files: Record<string, string>): string[] {
+    const requested: string[] = [];
+    vi.stubGlobal("fetch", async (url: string) => {
+      requested.push(url);
+      return Object.hasOwn(files, url) ? new Response(files[url]) : new Response("", { status: 404 });
+    });
+    return requested;
+  }
+
+  it("fetches both formats and reconciles them", async () => {
+    const json = makeDoc();
+    json.capabilities[0].rateLimit = { requests: 10, window: "minute" };
+    stubSite({
+      "https://both.example.com/.well-known/agents.txt": generate(makeDoc()),
+      "https://both.example.com/.well-known/agents.json": generateJSON(json),
+    });
+
+    const result = await new AgentsTxtClient().discoverAll("https://both.example.com/");
+    expect(result.success).toBe(true);
+    expect(result.document!.capabilities[0].rateLimit).toEqual({ requests: 10, window: "minute" });
+    expect(result.inconsistencies.map((i) => i.path)).toEqual(["capabilities.search.rateLimit"]);
+    expect(result.source!.url).toBe("https://both.example.com/.well-known/agents.json");
+    expect(result.txt.success).toBe(true);
+  });
+
+  it("follows the Agents-JSON cross-reference", async () => {
+    const txt = makeDoc();
+    txt.metadata = { "Agents-JSON": "/static/agents.json" };
+    const requested = stubSite({
+      "https://both.example.com/.well-known/agents.txt": generate(txt),
+      "https://both.example.com/static/agents.json": generateJSON(makeDoc()),
+    });
+
+    const result = await new AgentsTxtClient().discoverAll("https://both.example.com");
+    expect(result.inconsistencies).toEqual([]);
+    expect(result.json.source!.url).toBe("https://both.example.com/static/agents.json");
+    expect(requested).not.toContain("https://both.example.com/.well-known/agents.json");
+  });
+
+  it("does not follow an off-site Agents-JSON cross-reference", async () => {
+    const txt = makeDoc();
+    txt.metadata = { "Agents-JSON": "https://evil.example.net/agents.json" };
+    const impostor = makeDoc();
+    impostor.capabilities[0].endpoint = "https://evil.example.net/api/search";
+    const requested = stubSite({
+      "https://both.example.com/.well-known/agents.txt": generate(txt),
+      "https://both.example.com/.well-known/agents.json": generateJSON(makeDoc()),
+      "https://evil.example.net/agents.json": generateJSON(impostor),
+    });
+
+    const result = await new AgentsTxtClient().discoverAll("https://both.example.com");
+    expect(requested).not.toContain("https://evil.example.net/agents.json");
+    expect(result.document!.capabilities[0].endpoint).toBe(makeDoc().capabilities[0].endpoint);
+    expect(result.warnings.map((w) => w.message)).toContain(
+      "Not following off-site agents.json reference: https://evil.example.net/agents.json",
+    );
+  });
+
+  it("falls back to the well-known location when the cross-reference fails", async () => {
+    const txt = makeDoc();
+    txt.metadata = { "Agents-JSON": "https://both.example.com/missing.json" };
+    stubSite({
+      "https://both.example.com/.well-known/agents.txt": generate(txt),
+      "https://both.example.com/.well-known/agents.json": generateJSON(makeDoc()),
+    });
+
+    const result = await new AgentsTxtClient().discoverAll("https://both.example.com");
+    expect(result.json.success).toBe(true);
+    expect(result.warnings.map((w) => w.message)).toContainEqual(
+      expect.stringContaining("Could not load agents.json from https://both.example.com/missing.json"),
+    );
+  });
+
+  it("uses whichever format exists when only one does", async () => {
+    stubSite({ "https://both.example.com/agents.txt": generate(makeDoc()) });
+    const result = await new AgentsTxtClient().discoverAll("https://both.example.com");
+    expect(result.success).toBe(true);
+    expect(result.document!.site.name).toBe("Both Store");
+    expect(result.provenance).toEqual({});
+    expect(result.json.success).toBe(false);
+  });
+
+  it("fails with both sets of errors when neither exists", async () => {
+    stubSite({});
+    const result = await new AgentsTxtClient().discoverAll("https://both.example.com");
+    expect(result.success).toBe(false);
+    expect(result.errors.filter((e) => !e.fetchError).map((e) => e.message)).toEqual([
+      "No agents.json found at https://both.example.com",
+      "No agents.txt found at https://both.example.com",
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { formatReport, toJSONReport, toSARIF, toJUnit } from "../src/reports.js";
+import type { SarifLog } from "../src/reports.js";
+import { validateText } from "../src/validator.js";
+import type { ValidationResult } from "../src/types.js";
+
+const TEXT = [
+  "Site-Name: Report <Store>",
+  "Site-URL: https://report.example.com",
+  "",
+  "Capability: search",
+  "  Endpoint: http://report.example.com/api/search",
+  "  Description: Search",
+  "  Protocol: REST",
+  "",
+  "Agent: claude",
+  "  Capabilities: search, checkout",
+  "",
+].join("\n");
+
+function result(): ValidationResult {
+  return validateText(TEXT);
+}
+
+describe("toJSONReport", () => {
+  it("lists errors then warnings with their ranges", () => {
+    const report = toJSONReport(result(), { file: "public/agents.txt" });
+    expect(report).toEqual({
+      version: 1,
+      file: "public/agents.txt",
+      valid: false,
+      summary: { errors: 1, warnings: 1 },
+      problems: [
+        {
+          severity: "error",
+          code: "UNKNOWN_CAPABILITY_REF",
+          rule: "unknown-capability-ref",
+          path: "agents.claude.capabilities",
+          message: expect.stringContaining("checkout"),
+          range: { line: 10, column: 3, endLine: 10, endColumn: 33 },
+        },
+        {
+          severity: "warning",
+          code: "INSECURE_ENDPOINT",
+          rule: "insecure-endpoint",
+          path: "capabilities.search.endpoint",
+          message: expect.any(String),
+          range: { line: 5, column: 3, endLine: 5, endColumn: 49 },
+        },
+      ],
+    });
+  });
+});
+
+describe("toSARIF", () => {
+  it("produces a SARIF 2.1.0 log with regions", () => {
+    const sarif: SarifLog = toSARIF(result(), { file: "agents.txt" });
+    expect(sarif.version).toBe("2.1.0");
+    const run = sarif.runs[0];
+    expect(run.tool.driver.name).toBe("agents-txt");
+    expect(run.tool.driver.rules.map((r) => r.id)).toEqual(["unknown-capability-ref", "insecure-endpoint"]);
+    expect(run.tool.driver.rules[1].shortDescription?.text).toBeTruthy();
+
+    expect(run.results[1]).toMatchObject({
+      ruleId: "insecure-endpoint",
+      ruleIndex: 1,
+      level: "warning",
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "agents.txt" },
+            region: { startLine: 5, startColumn: 3, endLine: 5, endColumn: 49 },
+          },
+        },
+      ],
+    });
+  });
+
+  it("omits the region when a problem has no range", () => {
+    const sarif: SarifLog = toSARIF({ valid: false, errors: [{ path: "", message: "Empty", code: "PARSE_ERROR" }], warnings: [] });
+    expect(sarif.runs[0].results[0].ruleId).toBe("PARSE_ERROR");
+    expect(sarif.runs[0].results[0].locations[0].physicalLocation).toEqual({ artifactLocation: { uri: "agents.txt" } });
+  });
+});
+
+describe("toJUnit", () => {
+  it("reports errors as failures and escapes XML", () => {
+    const xml = toJUnit(result(), { file: "agents.txt" });
+    expect(xml).toContain('<testsuite name="agents.txt" tests="2" failures="1" errors="0" skipped="0">');
+    expect(xml).toContain('<failure type="UNKNOWN_CAPABILITY_REF"');
+    expect(xml).toContain("agents.txt:10:3: ");
+    expect(xml).toContain("<system-out>warning: agents.txt:5:3: ");
+    expect(xml).not.toMatch(/<Store>/);
+  });
+
+  it("has a single passing test case for a clean result", () => {
+    const xml = toJUnit({ valid: true, errors: [], warnings: [] });
+    expect(xml).toContain('tests="1" failures="0"');
+    expect(xml).toContain('<testcase classname="agents.txt" name="valid"/>');
+  });
+
+  it("escapes markup in messages", () => {
+    const xml = toJUnit({ valid: false, errors: [{ path: "site.name", message: 'Bad "<name>" & more', code: "X" }], warnings: [] });
+    expect(xml).toContain("Bad &quot;&lt;name&gt;&quot; &amp; more");
+  });
+});
+
+describe("formatReport", () => {
+  it("renders each format as a string", () => {
+    expect(JSON.parse(formatReport(result(), "json")).version).toBe(1);
+    expect(JSON.parse(formatReport(result(), "sarif"))).toEqual<SarifLog>(toSARIF(result()));
+    expect(formatReport(result(), "junit")).toMatch(/^<\?xml/);
+  });
+});
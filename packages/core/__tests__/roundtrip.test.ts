@@ -143,3 +143,71 @@ describe("roundtrip: generate -> parse", () => {
     );
   });
 });
+
+describe("roundtrip: parameter constraints", () => {
+  const constrained: AgentsTxtDocument = {
+    ...testDoc,
+    capabilities: [
+      {
+        id: "search",
+        description: "Search products",
+        endpoint: "https://roundtrip.example.com/api/search",
+        method: "GET",
+        protocol: "REST",
+        parameters: [
+          { name: "q", in: "query", type: "string", required: true, min: 1, max: 200, description: "Search query (keywords)" },
+          { name: "limit", in: "query", type: "integer", required: false, default: 20, min: 1, max: 100 },
+          { name: "sort", in: "query", type: "string", required: false, default: "price, asc", enum: ["price, asc", "newest"] },
+          { name: "since", in: "query", type: "string", required: false, format: "date-time" },
+          { name: "contact", in: "body", type: "string", required: false, format: "email", default: "" },
+          { name: "in_stock", in: "query", type: "boolean", required: false, default: true },
+          { name: "rating", in: "query", type: "number", required: false, enum: [1, 2.5, 5] },
+        ],
+      },
+    ],
+  };
+
+  it("txt -> json -> txt preserves defaults, bounds, enums and formats", () => {
+    const text = generate(constrained);
+    const fromText = parse(text);
+    expect(fromText.success).toBe(true);
+    expect(fromText.warnings).toHaveLength(0);
+    expect(fromText.document?.capabilities[0].parameters).toEqual(constrained.capabilities[0].parameters);
+
+    const fromJson = parseJSON(generateJSON(fromText.document!));
+    expect(fromJson.success).toBe(true);
+    expect(generate(fromJson.document!)).toBe(text);
+  });
+
+  it("writes constraints as Param attributes", () => {
+    const text = generate(constrained);
+    expect(text).toContain("Param: limit (query, integer, default=20, min=1, max=100)");
+    expect(text).toContain('Param: sort (query, string, default="price, asc", enum="price, asc"|newest)');
+    expect(text).toContain("Param: since (query, string, format=date-time)");
+  });
+
+  it("rejects constraints that do not match the parameter type", () => {
+    const result = parse(
+      "Site-Name: T\nSite-URL: https://t.com\nCapability: s\n  Endpoint: https://t.com/s\n  Param: n (query, integer, default=abc)\n",
+    );
+    expect(result.document?.capabilities[0].parameters).toBeUndefined();
+    expect(result.warnings.some((w) => w.field === "Param")).toBe(true);
+  });
+
+  it("keeps structured defaults in JSON and refuses them in text", () => {
+    const filter = { name: "filter", in: "body", type: "object", required: false, default: { tags: ["new"] } } as const;
+    const doc: AgentsTxtDocument = {
+      ...constrained,
+      capabilities: [{ ...constrained.capabilities[0], parameters: [filter] }],
+    };
+
+    const fromJson = parseJSON(generateJSON(doc));
+    expect(fromJson.document?.capabilities[0].parameters?.[0].default).toEqual({ tags: ["new"] });
+    expect(() => generate(doc)).toThrow(/"filter" has a structured default/);
+  });
+
+  it("rejects unknown formats in the JSON schema", () => {
+    const json = generateJSON(constrained).replace('"date-time"', '"phone"');
+    expect(parseJSON(json).success).toBe(false);
+  });
+});
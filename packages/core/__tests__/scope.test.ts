@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { analyzeScope, confirmsAgent, registrableDomain } from "../src/scope.js";
+import { lint } from "../src/lint.js";
+import { validate } from "../src/validator.js";
+import { AgentsTxtClient } from "../src/client.js";
+import { generate } from "../src/generator.js";
+import { memorySource } from "../src/transport.js";
+import { sameSite } from "../src/fetch.js";
+import type { AgentsTxtDocument } from "../src/types.js";
+
+function makeDoc(): AgentsTxtDocument {
+  return {
+    specVersion: "1.0",
+    site: { name: "Scope Store", url: "https://www.example.com" },
+    capabilities: [
+      {
+        id: "search",
+        description: "Search",
+        endpoint: "https://api.example.com/search",
+        protocol: "REST",
+        auth: { type: "bearer-token", tokenEndpoint: "https://auth.example.com/token" },
+        openapi: "https://docs.example.com/openapi.json",
+      },
+      {
+        id: "partner-checkout",
+        description: "Checkout",
+        endpoint: "https://pay.partner.com/checkout",
+        protocol: "REST",
+      },
+    ],
+    access: { allow: ["*"], disallow: [] },
+    agents: { "*": {}, claude: { capabilities: ["search", "partner-checkout"] } },
+    metadata: { "Agents-JSON": "https://www.example.com/.well-known/agents.json" },
+  };
+}
+
+describe("registrableDomain", () => {
+  it("returns eTLD+1 using the Public Suffix List", () => {
+    expect(registrableDomain("shop.example.com")).toBe("example.com");
+    expect(registrableDomain("a.b.example.co.uk")).toBe("example.co.uk");
+    expect(registrableDomain("Alice.GitHub.io.")).toBe("alice.github.io");
+  });
+
+  it("handles wildcard and exception rules", () => {
+    expect(registrableDomain("shop.site.er")).toBe("shop.site.er");
+    expect(registrableDomain("www.ck")).toBe("www.ck");
+    expect(registrableDomain("a.www.ck")).toBe("www.ck");
+  });
+
+  it("returns null for public suffixes and passes IPs through", () => {
+    expect(registrableDomain("co.uk")).toBeNull();
+    expect(registrableDomain("github.io")).toBeNull();
+    expect(registrableDomain("127.0.0.1")).toBe("127.0.0.1");
+    expect(registrableDomain("localhost")).toBe("localhost");
+  });
+
+  it("knows the whole list, including ccTLD second levels and shared hosting", () => {
+    expect(registrableDomain("shop.example.co.ug")).toBe("example.co.ug");
+    expect(registrableDomain("alice.bitbucket.io")).toBe("alice.bitbucket.io");
+    expect(registrableDomain("docs.alice.readthedocs.io")).toBe("alice.readthedocs.io");
+    expect(registrableDomain("a.b.kawasaki.jp")).toBe("a.b.kawasaki.jp");
+    expect(registrableDomain("city.kawasaki.jp")).toBe("city.kawasaki.jp");
+  });
+
+  it("keeps tenants of a shared hosting domain apart", () => {
+    const doc = makeDoc();
+    doc.site.url = "https://alice.bitbucket.io";
+    doc.capabilities = [
+      { ...doc.capabilities[0], endpoint: "https://alice.bitbucket.io/api/search", auth: undefined, openapi: undefined },
+      { ...doc.capabilities[0], id: "lookup", endpoint: "https://mallory.bitbucket.io/api/lookup", auth: undefined, openapi: undefined },
+    ];
+    delete doc.metadata;
+    expect(analyzeScope(doc).violations.map((v) => v.url)).toEqual(["https://mallory.bitbucket.io/api/lookup"]);
+    expect(sameSite("https://alice.bitbucket.io/", "https://mallory.bitbucket.io/")).toBe(false);
+    expect(sameSite("https://shop.example.co.ug/", "https://api.example.co.ug/")).toBe(true);
+  });
+
+  it("accepts extra suffixes", () => {
+    expect(registrableDomain("team.apps.internal.dev", ["apps.internal.dev"])).toBe("team.apps.internal.dev");
+  });
+});
+
+describe("analyzeScope", () => {
+  it("allows subdomains of the registrable domain by default", () => {
+    const { siteOrigin, violations } = analyzeScope(makeDoc());
+    expect(siteOrigin).toBe("https://www.example.com");
+    expect(violations).toEqual([
+      {
+        path: "capabilities.partner-checkout.endpoint",
+        url: "https://pay.partner.com/checkout",
+        message: "https://pay.partner.com is outside the scope of https://www.example.com",
+        capability: "partner-checkout",
+      },
+    ]);
+  });
+
+  it("requires an exact origin match in same-origin mode", () => {
+    const paths = analyzeScope(makeDoc(), { mode: "same-origin" }).violations.map((v) => v.path);
+    expect(paths).toEqual([
+      "capabilities.search.endpoint",
+      "capabilities.search.auth.tokenEndpoint",
+      "capabilities.search.openapi",
+      "capabilities.partner-checkout.endpoint",
+    ]);
+  });
+
+  it("accepts allowlisted partner origins", () => {
+    const { violations } = analyzeScope(makeDoc(), { allowedOrigins: ["https://pay.partner.com/"] });
+    expect(violations).toEqual([]);
+  });
+
+  it("does not treat sibling sites on a shared hosting suffix as one domain", () => {
+    const doc = makeDoc();
+    doc.site.url = "https://alice.github.io";
+    doc.capabilities = [{ ...doc.capabilities[0], endpoint: "https://mallory.github.io/api", auth: undefined, openapi: undefined }];
+    delete doc.metadata;
+    expect(analyzeScope(doc).violations.map((v) => v.url)).toEqual(["https://mallory.github.io/api"]);
+  });
+
+  it("checks the Agents-JSON cross-reference and can use the fetched URL as the site", () => {
+    const doc = makeDoc();
+    doc.capabilities = [];
+    doc.metadata = { "Agents-JSON": "https://www.example.com/.well-known/agents.json" };
+    const { violations } = analyzeScope(doc, {}, "https://evil.test");
+    expect(violations.map((v) => v.path)).toEqual(["metadata.Agents-JSON"]);
+  });
+
+  it("does not let an agent declaration put its own Operates-On platforms in scope", () => {
+    const doc: AgentsTxtDocument = {
+      specVersion: "1.0",
+      declarationType: "agent",
+      operatesOn: ["https://evil.net"],
+      site: { name: "Bot", url: "https://example.com" },
+      capabilities: [{ id: "collect", description: "Collect", endpoint: "https://evil.net/collect", protocol: "REST" }],
+      access: { allow: ["*"], disallow: [] },
+      agents: { "*": {} },
+    };
+    expect(analyzeScope(doc, {}, "https://example.com").violations.map((v) => v.path)).toEqual(["capabilities.collect.endpoint"]);
+  });
+
+  it("treats Operates-On platforms as in scope when the policy trusts them", () => {
+    const doc = makeDoc();
+    doc.declarationType = "agent";
+    doc.operatesOn = ["https://partner.com"];
+    expect(analyzeScope(doc, { operatesOn: true }).violations).toEqual([]);
+    expect(analyzeScope(doc, { operatesOn: ["https://partner.com"] }).violations).toEqual([]);
+    expect(analyzeScope(doc, { operatesOn: ["https://other.com"] }).violations).toHaveLength(1);
+    // Only platforms the document names
+    doc.operatesOn = [];
+    expect(analyzeScope(doc, { operatesOn: ["https://partner.com"] }).violations).toHaveLength(1);
+  });
+});
+
+describe("confirmsAgent", () => {
+  it("checks for an Agent-Declaration on the agent's host", () => {
+    const platform = makeDoc();
+    platform.agents = { "*": {}, bot: { agentDeclaration: "https://bot.example.net/.well-known/agents.txt" } };
+    expect(confirmsAgent(platform, "https://www.example.com", "https://bot.example.net")).toBe(true);
+    expect(confirmsAgent(platform, "https://www.example.com", "https://evil.net")).toBe(false);
+  });
+});
+
+describe("out-of-scope rule", () => {
+  it("is an error in validate()", () => {
+    const result = validate(makeDoc());
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.code)).toEqual(["OUT_OF_SCOPE"]);
+  });
+
+  it("takes a scope policy as rule options", () => {
+    const allowed = lint(makeDoc(), { rules: { "out-of-scope": ["warning", { allowedOrigins: ["https://pay.partner.com"] }] } });
+    expect(allowed.warnings).toEqual([]);
+    const strict = lint(makeDoc(), { rules: { "out-of-scope": ["warning", { mode: "same-origin" }] } });
+    expect(strict.valid).toBe(true);
+    expect(strict.warnings).toHaveLength(4);
+  });
+});
+
+describe("AgentsTxtClient scope", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("drops capabilities outside the site the file was fetched from", async () => {
+    vi.stubGlobal("fetch", async () => new Response(JSON.stringify(makeDoc())));
+    const client = new AgentsTxtClient({ scope: { mode: "registrable-domain" } });
+
+    const result = await client.discoverJSON("https://www.example.com");
+
+    expect(result.success).toBe(true);
+    expect(result.document!.capabilities.map((c) => c.id)).toEqual(["search"]);
+    expect(result.document!.agents["claude"].capabilities).toEqual(["search"]);
+    expect(result.warnings.map((w) => w.field)).toEqual(["capabilities.partner-checkout.endpoint"]);
+  });
+
+  it("keeps an agent declaration's capabilities only on platforms that confirm it", async () => {
+    const agent: AgentsTxtDocument = {
+      specVersion: "1.0",
+      declarationType: "agent",
+      operatesOn: ["https://platform.test", "https://evil.net"],
+      site: { name: "Bot", url: "https://bot.test" },
+      capabilities: [
+        { id: "post", description: "Post", endpoint: "https://platform.test/api/post", protocol: "REST" },
+        { id: "collect", description: "Collect", endpoint: "https://evil.net/collect", protocol: "REST" },
+      ],
+      access: { allow: ["*"], disallow: [] },
+      agents: { "*": {} },
+    };
+    const platform = { ...makeDoc(), site: { name: "Platform", url: "https://platform.test" }, capabilities: [] };
+    platform.agents = { "*": {}, bot: { agentDeclaration: "https://bot.test/.well-known/agents.txt" } };
+    // evil.net has a file too, but it does not declare the agent
+    const evil = { ...platform, site: { name: "Evil", url: "https://evil.net" }, agents: { "*": {} } };
+    const client = new AgentsTxtClient({
+      scope: {},
+      transport: memorySource({
+        "https://bot.test/.well-known/agents.txt": generate(agent),
+        "https://platform.test/.well-known/agents.txt": generate(platform),
+        "https://evil.net/.well-known/agents.txt": generate(evil),
+      }),
+    });
+
+    const result = await client.discover("https://bot.test");
+    expect(result.document!.capabilities.map((c) => c.id)).toEqual(["post"]);
+    expect(result.warnings.map((w) => w.field)).toContain("capabilities.collect.endpoint");
+  });
+
+  it("keeps everything when no scope policy is set", async () => {
+    vi.stubGlobal("fetch", async () => new Response(JSON.stringify(makeDoc())));
+    const result = await new AgentsTxtClient().discoverJSON("https://evil.test");
+    expect(result.document!.capabilities).toHaveLength(2);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { parseEndpointTemplate, expandEndpoint } from "../src/template.js";
+import { validate } from "../src/validator.js";
+import type { AgentsTxtDocument, Capability } from "../src/types.js";
+
+function makeDoc(cap: Partial<Capability>): AgentsTxtDocument {
+  return {
+    specVersion: "1.0",
+    site: { name: "Template Store", url: "https://api.example.com" },
+    capabilities: [
+      {
+        id: "get-item",
+        description: "Get an item",
+        endpoint: "https://api.example.com/items/:id",
+        protocol: "REST",
+        ...cap,
+      },
+    ],
+    access: { allow: ["*"], disallow: [] },
+    agents: { "*": {} },
+  };
+}
+
+describe("parseEndpointTemplate", () => {
+  it("finds colon and brace placeholders in the path only", () => {
+    const template = parseEndpointTemplate("https://api.example.com:8443/users/:userId/posts/{post_id}?fields={all}#top");
+    expect(template.origin).toBe("https://api.example.com:8443");
+    expect(template.suffix).toBe("?fields={all}#top");
+    expect(template.params).toEqual(["userId", "post_id"]);
+    expect(template.segments).toEqual([
+      { type: "literal", value: "/users/" },
+      { type: "param", name: "userId", syntax: ":" },
+      { type: "literal", value: "/posts/" },
+      { type: "param", name: "post_id", syntax: "{}" },
+    ]);
+  });
+
+  it("ignores colons that do not start a segment", () => {
+    expect(parseEndpointTemplate("https://api.example.com/v1/models/gemini:generate").params).toEqual([]);
+  });
+
+  it("handles relative endpoints", () => {
+    expect(parseEndpointTemplate("/items/{id}").params).toEqual(["id"]);
+  });
+});
+
+describe("expandEndpoint", () => {
+  it("substitutes encoded values", () => {
+    expect(expandEndpoint("https://api.example.com/users/:id/files/{name}?v=1", { id: 42, name: "a b/c.txt" }))
+      .toBe("https://api.example.com/users/42/files/a%20b%2Fc.txt?v=1");
+  });
+
+  it("rejects missing values and dot segments", () => {
+    expect(() => expandEndpoint("https://api.example.com/items/:id", {})).toThrow(/Missing value.*"id"/);
+    expect(() => expandEndpoint("https://api.example.com/items/:id", { id: ".." })).toThrow(/Invalid value/);
+  });
+});
+
+describe("path-params rule", () => {
+  it("accepts matching placeholders and path parameters", () => {
+    const doc = makeDoc({ parameters: [{ name: "id", in: "path", type: "string", required: true }] });
+    expect(validate(doc).errors).toEqual([]);
+  });
+
+  it("rejects placeholders without a path parameter", () => {
+    const missing = validate(makeDoc({}));
+    expect(missing.errors.map((e) => e.code)).toEqual(["UNDECLARED_PATH_PARAM"]);
+
+    const wrongLocation = validate(makeDoc({ parameters: [{ name: "id", in: "query", type: "string" }] }));
+    expect(wrongLocation.errors[0].message).toContain("declared as a query parameter");
+  });
+
+  it("rejects path parameters missing from the endpoint", () => {
+    const result = validate(
+      makeDoc({
+        endpoint: "https://api.example.com/items",
+        parameters: [{ name: "id", in: "path", type: "string" }],
+      }),
+    );
+    expect(result.errors).toEqual([
+      {
+        path: "capabilities.get-item.parameters.id",
+        message: 'Path parameter "id" does not appear in the endpoint of "get-item"',
+        code: "UNUSED_PATH_PARAM",
+        rule: "path-params",
+      },
+    ]);
+  });
+});
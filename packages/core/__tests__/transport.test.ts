@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AgentsTxtClient } from "../src/client.js";
+import { crawl } from "../src/crawler.js";
+import { memorySource, fileSource, directorySource } from "../src/transport.js";
+import type { Transport } from "../src/transport.js";
+import { generateJSON } from "../src/generator-json.js";
+import { parse } from "../src/parser.js";
+
+const TXT = `Spec-Version: 1.0
+Site-Name: Offline Store
+Site-URL: https://offline.example.com
+
+Capability: search
+  Endpoint: https://offline.example.com/api/search
+  Method: GET
+  Protocol: REST
+  Description: Search
+`;
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "agents-txt-transport-"));
+  mkdirSync(join(dir, "offline.example.com", ".well-known"), { recursive: true });
+  writeFileSync(join(dir, "offline.example.com", ".well-known", "agents.txt"), TXT);
+  writeFileSync(join(dir, "offline.example.com", ".well-known", "agents.json"), generateJSON(parse(TXT).document!));
+  mkdirSync(join(dir, "fallback.example.com"));
+  writeFileSync(join(dir, "fallback.example.com", "agents.txt"), TXT.replace("Offline Store", "Fallback Store"));
+  mkdirSync(join(dir, "localhost_8080"));
+  writeFileSync(join(dir, "localhost_8080", "agents.txt"), TXT.replace("Offline Store", "Port Store"));
+  writeFileSync(join(dir, "secret.txt"), "not for agents");
+  writeFileSync(join(dir, "single.txt"), TXT);
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("custom transport", () => {
+  it("makes every request through the transport", async () => {
+    const seen: { url: string; headers: Record<string, string> }[] = [];
+    const transport: Transport = async (url, init) => {
+      seen.push({ url, headers: init?.headers as Record<string, string> });
+      return new Response(TXT, { headers: { "Content-Type": "text/plain" } });
+    };
+
+    const result = await new AgentsTxtClient({ transport, userAgent: "test-agent/1.0" }).discover("https://any.example.com");
+    expect(result.success).toBe(true);
+    expect(seen).toEqual([
+      { url: "https://any.example.com/.well-known/agents.txt", headers: { "User-Agent": "test-agent/1.0" } },
+    ]);
+  });
+
+  it("still checks redirects returned by the transport", async () => {
+    const transport: Transport = async () => new Response("", { status: 302, headers: { Location: "http://plain.example.com/" } });
+    const result = await new AgentsTxtClient({ transport, httpsOnly: true }).discover("https://any.example.com");
+    expect(result.errors.map((e) => e.fetchError?.code)).toContain("INSECURE_URL");
+  });
+});
+
+describe("memorySource", () => {
+  it("serves files by URL and 404s everything else", async () => {
+    const client = new AgentsTxtClient({
+      transport: memorySource({ "https://offline.example.com/.well-known/agents.txt": TXT }),
+      enforceContentType: true,
+    });
+
+    const found = await client.discover("https://offline.example.com");
+    expect(found.document!.site.name).toBe("Offline Store");
+    expect(found.source!.url).toBe("https://offline.example.com/.well-known/agents.txt");
+
+    const missing = await client.discover("https://other.example.com");
+    expect(missing.success).toBe(false);
+    expect(missing.errors[1].message).toContain("HTTP 404");
+  });
+
+  it("accepts a Map and serves agents.json as JSON", async () => {
+    const source = memorySource(new Map([["https://offline.example.com/agents.json", "{}"]]));
+    const response = await source("https://offline.example.com/agents.json");
+    expect(response.headers.get("content-type")).toBe("application/json");
+  });
+});
+
+describe("fileSource", () => {
+  it("serves one file as agents.txt for any site", async () => {
+    const client = new AgentsTxtClient({ transport: fileSource(join(dir, "single.txt")) });
+    const result = await client.discoverAll("https://anywhere.example.com");
+    expect(result.document!.site.name).toBe("Offline Store");
+    expect(result.json.success).toBe(false);
+  });
+
+  it("can be limited to one origin", async () => {
+    const transport = fileSource(join(dir, "single.txt"), { origin: "https://offline.example.com" });
+    expect((await transport("https://offline.example.com/.well-known/agents.txt")).status).toBe(200);
+    expect((await transport("https://other.example.com/.well-known/agents.txt")).status).toBe(404);
+    expect((await transport("https://offline.example.com/robots.txt")).status).toBe(404);
+  });
+});
+
+describe("directorySource", () => {
+  const client = () => new AgentsTxtClient({ transport: directorySource(dir), cache: false });
+
+  it("reads <directory>/<host>/<path>, both formats", async () => {
+    const result = await client().discoverAll("https://offline.example.com");
+    expect(result.success).toBe(true);
+    expect(result.txt.success).toBe(true);
+    expect(result.json.success).toBe(true);
+    expect(result.inconsistencies).toEqual([]);
+  });
+
+  it("finds the /agents.txt fallback and hosts with ports", async () => {
+    expect((await client().discover("https://fallback.example.com")).document!.site.name).toBe("Fallback Store");
+    expect((await client().discover("http://localhost:8080")).document!.site.name).toBe("Port Store");
+  });
+
+  it("never reads outside the directory", async () => {
+    const source = directorySource(join(dir, "offline.example.com"));
+    expect((await source("https://x/../secret.txt")).status).toBe(404);
+    expect((await source("https://x/%2e%2e/secret.txt")).status).toBe(404);
+  });
+
+  it("lets a crawl run offline", async () => {
+    const { summary } = await crawl(["offline.example.com", "fallback.example.com", "missing.example.com"], {
+      perHostDelay: 0,
+      client: { transport: directorySource(dir) },
+    });
+    expect(summary).toMatchObject({ total: 3, found: 2, notFound: 1 });
+  });
+});
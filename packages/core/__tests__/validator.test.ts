@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { validate, validateText } from "../src/validator.js";
+import { validate, validateText, validateJSON } from "../src/validator.js";
 import type { AgentsTxtDocument } from "../src/types.js";
 
 function makeValidDoc(): AgentsTxtDocument {
@@ -113,4 +113,57 @@ describe("validateText", () => {
     const result = validateText("");
     expect(result.valid).toBe(false);
   });
+
+  it("reports where each problem is in the source", () => {
+    const text = [
+      "# Spec-Version: 1.0",
+      "Site-Name: Test",
+      "Site-URL: https://test.com",
+      "",
+      "Capability: Search_Products",
+      "  Endpoint: http://test.com/api/search",
+      "  Description: Search",
+      "  Protocol: REST",
+      "",
+    ].join("\n");
+    const result = validateText(text);
+
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({
+        code: "INVALID_CAPABILITY_ID",
+        range: { line: 5, column: 13, endLine: 5, endColumn: 28 },
+      }),
+    );
+    expect(result.warnings).toContainEqual(
+      expect.objectContaining({
+        code: "INSECURE_ENDPOINT",
+        range: { line: 6, column: 3, endLine: 6, endColumn: 39 },
+      }),
+    );
+  });
+
+  it("keeps parse warnings and their lines", () => {
+    const text = "Site-Name: Test\nSite-URL: https://test.com\n\nCapability: search\n  Endpoint: https://test.com/s\n  Description: S\n  Protocol: SOAP\n";
+    const result = validateText(text);
+    expect(result.warnings[0]).toEqual({
+      path: "Protocol",
+      message: "Unknown protocol: SOAP",
+      code: "PARSE_WARNING",
+      range: { line: 7, column: 3, endLine: 7, endColumn: 17 },
+    });
+  });
+
+  it("locates a spec version written as a comment", () => {
+    const result = validateText("Site-Name: Test\nSite-URL: https://test.com\n# Spec-Version: 9.0\n");
+    expect(result.valid).toBe(true);
+    expect(result.warnings[0]).toMatchObject({ code: "PARSE_WARNING", range: { line: 3 } });
+  });
+});
+
+describe("validateJSON", () => {
+  it("validates without source ranges", () => {
+    const result = validateJSON(JSON.stringify(makeValidDoc()));
+    expect(result.valid).toBe(true);
+    expect(validateJSON("{").errors[0].code).toBe("PARSE_ERROR");
+  });
 });
@@ -0,0 +1,122 @@
+import type { AgentsTxtDocument } from "./types.js";
+import { parseEndpointTemplate } from "./template.js";
+
+/**
+ * agents.txt - Allow/Disallow evaluation (SPEC 3.5)
+ *
+ * robots.txt semantics (RFC 9309): patterns match from the start of the
+ * path, `*` matches any run of characters and a trailing `$` anchors the end.
+ * The longest matching pattern wins and Allow wins a tie. A bare `*` (the
+ * Allow the parser assumes when a file has none) ranks below any pattern
+ * that names a path, so `Disallow: /` still blocks. Declared capability
+ * endpoints are reachable even when a Disallow rule matches them.
+ */
+
+export interface AccessDecision {
+  allowed: boolean;
+  /** What decided the answer. */
+  reason: "allow" | "disallow" | "capability" | "default";
+  /** The Allow or Disallow pattern that matched, as written in the document. */
+  rule?: string;
+  /** The capability whose endpoint exempted the path from a Disallow rule. */
+  capability?: string;
+  /** The normalized path (with query) that was checked. */
+  path: string;
+}
+
+/**
+ * Decide whether an agent may access a URL or path under the document's
+ * Allow/Disallow rules.
+ */
+export function isPathAllowed(doc: AgentsTxtDocument, urlOrPath: string): AccessDecision {
+  const path = normalizePath(urlOrPath);
+
+  let best: { pattern: string; length: number; allow: boolean } | undefined;
+  const consider = (pattern: string, allow: boolean) => {
+    // An empty pattern matches nothing, as in robots.txt
+    if (pattern === "") return;
+    const normalized = normalizePattern(pattern);
+    if (!matchPathPattern(normalized, path)) return;
+    const length = /^\*+$/.test(normalized) ? 0 : normalized.length;
+    if (!best || length > best.length || (length === best.length && allow && !best.allow)) {
+      best = { pattern, length, allow };
+    }
+  };
+  for (const pattern of doc.access.allow) consider(pattern, true);
+  for (const pattern of doc.access.disallow) consider(pattern, false);
+
+  if (best && !best.allow) {
+    const capability = findCapability(doc, urlOrPath, path);
+    if (capability) return { allowed: true, reason: "capability", capability, rule: best.pattern, path };
+    return { allowed: false, reason: "disallow", rule: best.pattern, path };
+  }
+  if (best) return { allowed: true, reason: "allow", rule: best.pattern, path };
+  return { allowed: true, reason: "default", path };
+}
+
+/**
+ * Match a robots.txt-style pattern against a normalized path. Both should
+ * already be normalized (see normalizePath).
+ */
+export function matchPathPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path);
+}
+
+/**
+ * Normalize a URL or path for matching: keep only path and query, resolve
+ * dot segments, percent-encode non-ASCII and use one spelling for every
+ * escape (unreserved characters decoded, hex digits uppercased).
+ */
+export function normalizePath(urlOrPath: string): string {
+  let url: URL;
+  try {
+    url = new URL(urlOrPath, "http://agents-txt.invalid/");
+  } catch {
+    return normalizeEscapes(urlOrPath);
+  }
+  return normalizeEscapes(url.pathname + url.search);
+}
+
+function normalizePattern(pattern: string): string {
+  const encoded = pattern.replace(/[^\x21-\x7e]/gu, (ch) => encodeURIComponent(ch));
+  return normalizeEscapes(encoded);
+}
+
+function normalizeEscapes(value: string): string {
+  return value.replace(/%([0-9a-fA-F]{2})/g, (escape, hex: string) => {
+    const ch = String.fromCharCode(parseInt(hex, 16));
+    return /[A-Za-z0-9\-._~]/.test(ch) ? ch : escape.toUpperCase();
+  });
+}
+
+/** The ID of a capability whose endpoint is exactly this path (and origin, for absolute URLs). */
+function findCapability(doc: AgentsTxtDocument, urlOrPath: string, path: string): string | undefined {
+  const origin = originOf(urlOrPath);
+  const pathname = path.replace(/\?.*$/, "");
+
+  for (const cap of doc.capabilities) {
+    const template = parseEndpointTemplate(cap.endpoint);
+    const capOrigin = originOf(cap.endpoint);
+    if (origin && capOrigin && origin !== capOrigin) continue;
+
+    const source = template.segments
+      .map((s) => (s.type === "param" ? "[^/]+" : normalizePattern(s.value).replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+      .join("");
+    if (new RegExp(`^${source || "/"}$`).test(pathname)) return cap.id;
+  }
+  return undefined;
+}
+
+function originOf(value: string): string | undefined {
+  try {
+    return new URL(value).origin;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * agents.txt - HTTP cache for AgentsTxtClient
+ *
+ * Entries are keyed by URL and keep the validators (ETag, Last-Modified)
+ * needed for conditional requests. Any store with get/set/delete works;
+ * MemoryCache is the default and FileSystemCache persists across processes.
+ */
+
+export interface CacheEntry {
+  /** The URL the body was fetched from. */
+  url: string;
+  body: string;
+  etag?: string;
+  lastModified?: string;
+  /** When the body was downloaded or last revalidated (ms since the epoch). */
+  fetchedAt: number;
+  /** Fresh until this time (ms since the epoch). */
+  expiresAt: number;
+  /** May be served stale, while revalidating in the background, until this time. */
+  staleUntil: number;
+}
+
+export interface ClientCache {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+export interface CacheControl {
+  maxAge?: number;
+  staleWhileRevalidate?: number;
+  noStore: boolean;
+  noCache: boolean;
+}
+
+/**
+ * Parse the directives of a Cache-Control header that a private cache uses.
+ */
+export function parseCacheControl(header: string | null | undefined): CacheControl {
+  const result: CacheControl = { noStore: false, noCache: false };
+  for (const part of (header ?? "").split(",")) {
+    const [rawName, rawValue] = part.split("=", 2);
+    const name = rawName.trim().toLowerCase();
+    const seconds = Number((rawValue ?? "").trim().replace(/^"|"$/g, ""));
+    const valid = rawValue !== undefined && Number.isInteger(seconds) && seconds >= 0;
+
+    if (name === "no-store") result.noStore = true;
+    else if (name === "no-cache") result.noCache = true;
+    else if (name === "max-age" && valid) result.maxAge = seconds;
+    else if (name === "stale-while-revalidate" && valid) result.staleWhileRevalidate = seconds;
+  }
+  return result;
+}
+
+/**
+ * Build a cache entry from a response, or null when the response must not
+ * be stored (no-store, or nothing to make it fresh or revalidatable).
+ */
+export function cacheEntryFromResponse(url: string, body: string, headers: Headers, now: number): CacheEntry | null {
+  const control = parseCacheControl(headers.get("cache-control"));
+  if (control.noStore) return null;
+
+  const etag = headers.get("etag") ?? undefined;
+  const lastModified = headers.get("last-modified") ?? undefined;
+  const lifetime = control.noCache ? 0 : freshnessLifetime(control, headers);
+  if (lifetime === 0 && !etag && !lastModified) return null;
+
+  const expiresAt = now + lifetime;
+  const staleUntil = control.noCache ? expiresAt : expiresAt + (control.staleWhileRevalidate ?? 0) * 1000;
+  return {
+    url,
+    body,
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+    fetchedAt: now,
+    expiresAt,
+    staleUntil,
+  };
+}
+
+/** Freshness in ms from max-age (minus Age) or Expires; 0 when neither is given. */
+function freshnessLifetime(control: CacheControl, headers: Headers): number {
+  const age = Number(headers.get("age") ?? 0) || 0;
+  if (control.maxAge !== undefined) return Math.max(0, control.maxAge - age) * 1000;
+
+  const expires = Date.parse(headers.get("expires") ?? "");
+  const date = Date.parse(headers.get("date") ?? "");
+  if (Number.isNaN(expires)) return 0;
+  return Math.max(0, expires - (Number.isNaN(date) ? Date.now() : date));
+}
+
+/**
+ * In-memory cache that evicts the least recently used entry when full.
+ */
+export class MemoryCache implements ClientCache {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 100;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Map iteration order is insertion order: move to the back
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache stored as one JSON file per URL in a directory. Node.js only; the
+ * file system modules are loaded on first use so the core stays usable in
+ * browsers.
+ */
+export class FileSystemCache implements ClientCache {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const { readFile } = await import("node:fs/promises");
+    try {
+      return JSON.parse(await readFile(await this.fileFor(key), "utf8")) as CacheEntry;
+    } catch {
+      // Missing or unreadable entries are cache misses
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const { mkdir, writeFile, rename } = await import("node:fs/promises");
+    const file = await this.fileFor(key);
+    await mkdir(this.directory, { recursive: true });
+    // Write then rename so readers never see a partial file
+    const temp = `${file}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(entry));
+    await rename(temp, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    const { rm } = await import("node:fs/promises");
+    await rm(await this.fileFor(key), { force: true });
+  }
+
+  private async fileFor(key: string): Promise<string> {
+    const { createHash } = await import("node:crypto");
+    const { join } = await import("node:path");
+    return join(this.directory, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+}
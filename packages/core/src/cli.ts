@@ -0,0 +1,388 @@
+#!/usr/bin/env node
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { importOpenAPI } from "./importer-openapi.js";
+import { formatCapability } from "./generator.js";
+import { parse } from "./parser.js";
+import { parseJSON } from "./parser-json.js";
+import { exportOpenAPI } from "./exporter-openapi.js";
+import { exportAgentCard } from "./exporter-a2a.js";
+import { exportLlmsTxt } from "./exporter-llms.js";
+import { generateJSON } from "./generator-json.js";
+import { lint, applyFixes, applyTextFixes } from "./lint.js";
+import { diff, formatDiff } from "./diff.js";
+import { formatReport } from "./reports.js";
+import { locateProblems } from "./validator.js";
+import { crawl, formatCrawlSummary } from "./crawler.js";
+import { buildDeclarationGraph, formatGraph } from "./graph.js";
+import { directorySource } from "./transport.js";
+import type { LintConfig, LintResult, LintRule, LintRuleSetting } from "./lint.js";
+import type { ParseResult, SourceRange } from "./types.js";
+
+const DEFAULT_LINT_CONFIG = ".agents-txt-lint.json";
+
+const USAGE = `Usage: agents-txt <command> [options]
+
+Commands:
+  import-openapi <file>   Generate capabilities from an OpenAPI 3.x spec (JSON or YAML)
+      --include-tag <tag>     Only import operations with this tag (repeatable)
+      --exclude-tag <tag>     Skip operations with this tag (repeatable)
+      --include-path <glob>   Only import matching paths (repeatable)
+      --exclude-path <glob>   Skip matching paths (repeatable)
+      --base-url <url>        Base URL when the spec has no absolute server
+      --spec-url <url>        Public spec URL to write as each capability's OpenAPI field
+      --format <txt|json>     Output format. Default: txt
+  export <file>           Convert an agents.txt or agents.json file to another format
+      --to <openapi|a2a|llms> Target format (required)
+  lint <file>             Check an agents.txt or agents.json file against the lint rules
+      --config <file>         Lint config (JSON). Default: ${DEFAULT_LINT_CONFIG} if present
+      --fix                   Apply automatic fixes and rewrite the file
+      --format <fmt>          text, json, sarif or junit. Default: text
+  diff <old> <new>        Compare two agents.txt or agents.json files; exits 1 on breaking changes
+      --allow <path>          Accept breaking changes at or under this path (repeatable)
+      --format <text|json>    Report format. Default: text
+  crawl <file>            Discover agents.txt on every site listed in a file (one per line, # comments)
+      --concurrency <n>       Sites crawled at the same time. Default: 4
+      --delay <ms>            Pause between requests to the same host. Default: 1000
+      --timeout <ms>          Timeout per request. Default: 10000
+      --output <file>         Write one JSON result per line here. Default: stdout
+      --directory <dir>       Read files from <dir>/<host>/... instead of the network
+  graph <url>             Follow Agent-Declaration and Operates-On links from a site and check them
+      --depth <n>             Links to follow. Default: 2
+      --format <json|dot>     Output format. Default: json
+      --directory <dir>       Read files from <dir>/<host>/... instead of the network`;
+
+type Command = (args: string[]) => Promise<number>;
+
+const commands: Record<string, Command> = {
+  "import-openapi": importOpenAPICommand,
+  export: exportCommand,
+  lint: lintCommand,
+  diff: diffCommand,
+  crawl: crawlCommand,
+  graph: graphCommand,
+};
+
+/**
+ * Read a whole-number option of at least `min`: undefined when it is not
+ * given, null (after reporting it) when it is not such a number.
+ */
+function integerOption(name: string, value: string | undefined, min: number): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (/^\d+$/.test(value.trim()) && Number(value) >= min) return Number(value);
+  console.error(`[agents-txt] error: --${name} must be a whole number of at least ${min}, got "${value}"`);
+  return null;
+}
+
+/** Read an agents.txt or agents.json file, choosing the parser by extension. */
+function readDocument(file: string): ParseResult {
+  const text = readFileSync(file, "utf8");
+  return file.endsWith(".json") ? parseJSON(text) : parse(text);
+}
+
+async function importOpenAPICommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      "include-tag": { type: "string", multiple: true },
+      "exclude-tag": { type: "string", multiple: true },
+      "include-path": { type: "string", multiple: true },
+      "exclude-path": { type: "string", multiple: true },
+      "base-url": { type: "string" },
+      "spec-url": { type: "string" },
+      format: { type: "string", default: "txt" },
+    },
+  });
+
+  const file = positionals[0];
+  if (!file) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const result = importOpenAPI(readFileSync(file, "utf8"), {
+    includeTags: values["include-tag"],
+    excludeTags: values["exclude-tag"],
+    includePaths: values["include-path"],
+    excludePaths: values["exclude-path"],
+    baseUrl: values["base-url"],
+    specUrl: values["spec-url"],
+  });
+
+  for (const warning of result.warnings) {
+    console.error(`[agents-txt] warning: ${warning.field ? `${warning.field}: ` : ""}${warning.message}`);
+  }
+  if (!result.success) {
+    for (const error of result.errors) console.error(`[agents-txt] error: ${error.message}`);
+    return 1;
+  }
+
+  if (values.format === "json") {
+    process.stdout.write(JSON.stringify(result.capabilities, null, 2) + "\n");
+  } else {
+    process.stdout.write(result.capabilities.map((cap) => formatCapability(cap).join("\n")).join("\n\n") + "\n");
+  }
+  return 0;
+}
+
+async function exportCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { to: { type: "string" } },
+  });
+
+  const file = positionals[0];
+  const exporters = { openapi: exportOpenAPI, a2a: exportAgentCard, llms: exportLlmsTxt };
+  const exporter = values.to && Object.hasOwn(exporters, values.to) ? exporters[values.to as keyof typeof exporters] : undefined;
+  if (!file || !exporter) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const result = readDocument(file);
+  if (!result.success || !result.document) {
+    for (const error of result.errors) console.error(`[agents-txt] error: ${error.message}`);
+    return 1;
+  }
+
+  const { output, unsupported } = exporter(result.document);
+  for (const issue of unsupported) {
+    console.error(`[agents-txt] not exported: ${issue.path}: ${issue.message}`);
+  }
+  process.stdout.write(typeof output === "string" ? output : JSON.stringify(output, null, 2) + "\n");
+  return 0;
+}
+
+/**
+ * Lint config file format. `plugins` are module paths, relative to the config
+ * file, whose default (or `rules`) export is an array of custom rules.
+ */
+interface LintConfigFile {
+  rules?: Record<string, LintRuleSetting>;
+  plugins?: string[];
+}
+
+async function loadLintConfig(file: string | undefined): Promise<LintConfig> {
+  const path = file ?? (existsSync(DEFAULT_LINT_CONFIG) ? DEFAULT_LINT_CONFIG : undefined);
+  if (!path) return {};
+
+  const raw = JSON.parse(readFileSync(path, "utf8")) as LintConfigFile;
+  const customRules: LintRule[] = [];
+  for (const plugin of raw.plugins ?? []) {
+    const mod = await import(pathToFileURL(resolve(dirname(path), plugin)).href);
+    const rules: unknown = mod.default ?? mod.rules;
+    if (!Array.isArray(rules)) throw new Error(`Lint plugin ${plugin} must export an array of rules`);
+    customRules.push(...(rules as LintRule[]));
+  }
+  return { rules: raw.rules, customRules };
+}
+
+async function lintCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      config: { type: "string" },
+      fix: { type: "boolean", default: false },
+      format: { type: "string", default: "text" },
+    },
+  });
+
+  const file = positionals[0];
+  if (!file) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const config = await loadLintConfig(values.config);
+  let result: LintResult;
+
+  if (values.fix) {
+    const text = readFileSync(file, "utf8");
+    if (file.endsWith(".json")) {
+      const parsed = parseJSON(text);
+      if (!parsed.success || !parsed.document) {
+        for (const error of parsed.errors) console.error(`[agents-txt] error: ${error.message}`);
+        return 1;
+      }
+      const fixed = applyFixes(parsed.document, config);
+      if (fixed.fixed.length > 0) writeFileSync(file, generateJSON(fixed.output, { allowSecrets: true }) + "\n");
+      result = fixed;
+    } else {
+      const fixed = applyTextFixes(text, config);
+      if (fixed.output !== text) writeFileSync(file, fixed.output);
+      result = fixed;
+    }
+  } else {
+    const parsed = readDocument(file);
+    if (!parsed.success || !parsed.document) {
+      for (const error of parsed.errors) console.error(`[agents-txt] error: ${error.message}`);
+      return 1;
+    }
+    result = lint(parsed.document, config);
+  }
+  if (!file.endsWith(".json")) result = locateProblems(result, readFileSync(file, "utf8"));
+
+  if (values.format === "sarif" || values.format === "junit") {
+    const report = formatReport(result, values.format, { file, rules: config.customRules });
+    process.stdout.write(report.endsWith("\n") ? report : report + "\n");
+  } else if (values.format === "json") {
+    const { valid, errors, warnings, fixable } = result;
+    process.stdout.write(JSON.stringify({ valid, errors, warnings, fixable }, null, 2) + "\n");
+  } else {
+    const where = (range?: SourceRange) => (range ? `${file}:${range.line}:${range.column}` : file);
+    for (const error of result.errors) {
+      console.log(`${where(error.range)}: error ${error.path}: ${error.message} (${error.rule})`);
+    }
+    for (const warning of result.warnings) {
+      console.log(`${where(warning.range)}: warning ${warning.path}: ${warning.message} (${warning.rule})`);
+    }
+    const fixable = !values.fix && result.fixable > 0 ? `, ${result.fixable} fixable with --fix` : "";
+    console.log(`${result.errors.length} error(s), ${result.warnings.length} warning(s)${fixable}`);
+  }
+  return result.valid ? 0 : 1;
+}
+
+async function diffCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      allow: { type: "string", multiple: true },
+      format: { type: "string", default: "text" },
+    },
+  });
+
+  const [oldFile, newFile] = positionals;
+  if (!oldFile || !newFile) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const documents = [];
+  for (const file of [oldFile, newFile]) {
+    const parsed = readDocument(file);
+    if (!parsed.success || !parsed.document) {
+      for (const error of parsed.errors) console.error(`[agents-txt] ${file}: error: ${error.message}`);
+      return 1;
+    }
+    documents.push(parsed.document);
+  }
+
+  const result = diff(documents[0], documents[1]);
+  process.stdout.write(formatDiff(result, values.format === "json" ? "json" : "text") + "\n");
+
+  const allowed = values.allow ?? [];
+  const undeclared = result.changes.filter(
+    (c) => c.severity === "breaking" && !allowed.some((path) => c.path === path || c.path.startsWith(`${path}.`)),
+  );
+  if (undeclared.length > 0 && values.format !== "json") {
+    console.error(`${undeclared.length} breaking change(s) not covered by --allow`);
+  }
+  return undeclared.length > 0 ? 1 : 0;
+}
+
+async function crawlCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      concurrency: { type: "string" },
+      delay: { type: "string" },
+      timeout: { type: "string" },
+      output: { type: "string" },
+      directory: { type: "string" },
+    },
+  });
+
+  const file = positionals[0];
+  const concurrency = integerOption("concurrency", values.concurrency, 1);
+  const delay = integerOption("delay", values.delay, 0);
+  const timeout = integerOption("timeout", values.timeout, 1);
+  if (!file || concurrency === null || delay === null || timeout === null) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const sites = readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => line !== "");
+
+  // Results are written as they arrive, so an interrupted crawl keeps what it has
+  if (values.output) writeFileSync(values.output, "");
+  const { results, summary } = await crawl(sites, {
+    concurrency,
+    perHostDelay: delay,
+    client: {
+      ...(timeout !== undefined ? { timeout } : {}),
+      ...(values.directory !== undefined ? { transport: directorySource(values.directory) } : {}),
+    },
+    onResult: (result) => {
+      const line = JSON.stringify(result) + "\n";
+      if (values.output) appendFileSync(values.output, line);
+      else process.stdout.write(line);
+    },
+  });
+
+  // The JSONL may be on stdout, so the table goes to stderr
+  console.error(formatCrawlSummary(results, summary));
+  return 0;
+}
+
+async function graphCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      depth: { type: "string" },
+      format: { type: "string", default: "json" },
+      directory: { type: "string" },
+    },
+  });
+
+  const url = positionals[0];
+  const depth = integerOption("depth", values.depth, 0);
+  if (!url || depth === null) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const graph = await buildDeclarationGraph(url, {
+    maxDepth: depth,
+    client: values.directory !== undefined ? { transport: directorySource(values.directory) } : undefined,
+  });
+  process.stdout.write(formatGraph(graph, values.format === "dot" ? "dot" : "json") + "\n");
+  if (values.format === "dot") {
+    for (const issue of graph.issues) console.error(`[agents-txt] ${issue.code}: ${issue.message}`);
+  }
+  const root = graph.nodes.find((node) => node.id === graph.root);
+  if (root?.status !== "loaded") {
+    console.error(`[agents-txt] error: ${url} is ${root?.status ?? "unreachable"}${root?.error ? `: ${root.error}` : ""}`);
+    return 1;
+  }
+  return graph.issues.length > 0 ? 1 : 0;
+}
+
+async function main() {
+  const [name, ...args] = process.argv.slice(2);
+  const command = name && Object.hasOwn(commands, name) ? commands[name] : undefined;
+
+  if (!command) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  try {
+    process.exit(await command(args));
+  } catch (err) {
+    console.error(`[agents-txt] Fatal:`, err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
+
+main();
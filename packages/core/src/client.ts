@@ -1,14 +1,101 @@
-import type { ParseResult } from "./types.js";
+import type { ParseResult, ParseOptions, ParseWarning, SourceMetadata } from "./types.js";
 import { parse } from "./parser.js";
 import { parseJSON } from "./parser-json.js";
+import { analyzeScope, confirmsAgent } from "./scope.js";
+import type { ScopePolicy } from "./scope.js";
+import { MemoryCache, cacheEntryFromResponse } from "./cache.js";
+import type { CacheEntry, ClientCache } from "./cache.js";
+import { reconcile } from "./reconcile.js";
+import type { Inconsistency, Provenance } from "./reconcile.js";
+import type { Transport } from "./transport.js";
+import { parseRateLimitHeaders, rateLimitDelay } from "./rate-limit-headers.js";
+import type { RateLimitDelayOptions, RateLimitInfo } from "./rate-limit-headers.js";
+import { ContentTypeError, FetchError, FetchTimeoutError, HttpStatusError, NetworkError, guardedFetch, readBody, sameSite } from "./fetch.js";
 
 export interface ClientOptions {
   /** Request timeout in ms. Default: 10000. */
   timeout?: number;
   /** User-Agent header. Default: "agents-txt-client/0.1". */
   userAgent?: string;
+  /** Options for parsing fetched files. Default: DEFAULT_REMOTE_PARSE_OPTIONS. */
+  parseOptions?: ParseOptions;
+  /**
+   * Drop capabilities (and an Agents-JSON cross-reference) that point outside
+   * the site the file was fetched from. Default: off. An agent
+   * declaration's Operates-On platforms are in scope once the platform's
+   * agents.txt confirms it with an Agent-Declaration, unless
+   * `scope.operatesOn` is set.
+   */
+  scope?: ScopePolicy;
+  /**
+   * Cache for fetched files, honoring Cache-Control max-age and
+   * stale-while-revalidate and revalidating with ETag/Last-Modified.
+   * Default: a MemoryCache. `false` disables caching.
+   */
+  cache?: ClientCache | false;
+  /** Refuse http: URLs, including redirect targets. Default: false. */
+  httpsOnly?: boolean;
+  /** Maximum number of redirects to follow. Default: 20. */
+  maxRedirects?: number;
+  /** Only follow redirects within the same registrable domain. Default: false. */
+  sameSiteRedirects?: boolean;
+  /**
+   * Refuse hosts that resolve (checked when connecting, for every redirect
+   * hop) to private, loopback, link-local or reserved addresses. Node.js only.
+   * Default: false.
+   */
+  blockPrivateAddresses?: boolean;
+  /** Stop reading a response body after this many bytes. Default: no limit. */
+  maxBodyBytes?: number;
+  /**
+   * Require `text/plain` for agents.txt and `application/json` (or `+json`)
+   * for agents.json, as SPEC 2.3 says they are served. Default: false.
+   */
+  enforceContentType?: boolean;
+  /**
+   * Makes the requests, in place of the global fetch: a custom fetch, or an
+   * offline source such as memorySource() or directorySource().
+   */
+  transport?: Transport;
+  /**
+   * Awaited before every request, redirects included, with the URL about to
+   * be requested. The wait for the first request does not count towards
+   * `timeout`. crawl() uses it to space out requests to a host.
+   */
+  throttle?: (url: string) => Promise<void>;
 }
 
+type FileKind = "txt" | "json";
+
+export interface DiscoveryResult extends ParseResult {
+  /**
+   * Format of origin for each field of the merged document (see reconcile()).
+   * Empty when only one format was found.
+   */
+  provenance: Record<string, Provenance>;
+  /** Where the two formats disagree. */
+  inconsistencies: Inconsistency[];
+  /** The agents.txt result on its own. */
+  txt: ParseResult;
+  /** The agents.json result on its own. */
+  json: ParseResult;
+}
+
+interface Fetched {
+  body: string;
+  source: SourceMetadata;
+}
+
+/**
+ * Parse options for files fetched from the network: strict, with hard size limits.
+ */
+export const DEFAULT_REMOTE_PARSE_OPTIONS: ParseOptions = {
+  strict: true,
+  maxBytes: 1_048_576,
+  maxCapabilities: 1_000,
+  maxLineLength: 8_192,
+};
+
 const WELL_KNOWN_TXT = "/.well-known/agents.txt";
 const FALLBACK_TXT = "/agents.txt";
 const WELL_KNOWN_JSON = "/.well-known/agents.json";
@@ -20,10 +107,19 @@ const FALLBACK_JSON = "/agents.json";
 export class AgentsTxtClient {
   private timeout: number;
   private userAgent: string;
+  private parseOptions: ParseOptions;
+  private scope?: ScopePolicy;
+  private cache: ClientCache | null;
+  private revalidating = new Map<string, Promise<void>>();
+  private options: ClientOptions;
 
   constructor(options: ClientOptions = {}) {
     this.timeout = options.timeout ?? 10_000;
     this.userAgent = options.userAgent ?? "agents-txt-client/0.1";
+    this.parseOptions = options.parseOptions ?? DEFAULT_REMOTE_PARSE_OPTIONS;
+    this.scope = options.scope;
+    this.cache = options.cache === false ? null : (options.cache ?? new MemoryCache());
+    this.options = options;
   }
 
   /**
@@ -32,20 +128,17 @@ export class AgentsTxtClient {
    */
   async discover(baseUrl: string): Promise<ParseResult> {
     const normalized = baseUrl.replace(/\/+$/, "");
+    const failures: FetchError[] = [];
 
     // Try well-known first
-    const primary = await this.fetchText(`${normalized}${WELL_KNOWN_TXT}`);
-    if (primary) return parse(primary);
+    const primary = await this.tryFetch(`${normalized}${WELL_KNOWN_TXT}`, "txt", failures);
+    if (primary?.body) return this.enforceScope(withSource(parse(primary.body, this.parseOptions), primary), normalized);
 
     // Fallback
-    const fallback = await this.fetchText(`${normalized}${FALLBACK_TXT}`);
-    if (fallback) return parse(fallback);
+    const fallback = await this.tryFetch(`${normalized}${FALLBACK_TXT}`, "txt", failures);
+    if (fallback?.body) return this.enforceScope(withSource(parse(fallback.body, this.parseOptions), fallback), normalized);
 
-    return {
-      success: false,
-      errors: [{ message: `No agents.txt found at ${normalized}` }],
-      warnings: [],
-    };
+    return notFound(`No agents.txt found at ${normalized}`, failures);
   }
 
   /**
@@ -54,37 +147,298 @@ export class AgentsTxtClient {
    */
   async discoverJSON(baseUrl: string): Promise<ParseResult> {
     const normalized = baseUrl.replace(/\/+$/, "");
+    const failures: FetchError[] = [];
+
+    const primary = await this.tryFetch(`${normalized}${WELL_KNOWN_JSON}`, "json", failures);
+    if (primary?.body) return this.enforceScope(withSource(parseJSON(primary.body, this.parseOptions), primary), normalized);
+
+    const fallback = await this.tryFetch(`${normalized}${FALLBACK_JSON}`, "json", failures);
+    if (fallback?.body) return this.enforceScope(withSource(parseJSON(fallback.body, this.parseOptions), fallback), normalized);
 
-    const primary = await this.fetchText(`${normalized}${WELL_KNOWN_JSON}`);
-    if (primary) return parseJSON(primary);
+    return notFound(`No agents.json found at ${normalized}`, failures);
+  }
+
+  /**
+   * Fetch the file at an exact URL, such as an `Agent-Declaration` link.
+   * Parsed as agents.json when the path ends in ".json", agents.txt otherwise.
+   */
+  async fetchDocument(url: string): Promise<ParseResult> {
+    const kind: FileKind = url.split(/[?#]/)[0].endsWith(".json") ? "json" : "txt";
+    const failures: FetchError[] = [];
+    const fetched = await this.tryFetch(url, kind, failures);
+    if (fetched?.body) {
+      const result = kind === "json" ? parseJSON(fetched.body, this.parseOptions) : parse(fetched.body, this.parseOptions);
+      return this.enforceScope(withSource(result, fetched), url);
+    }
+    return notFound(`No agents.${kind} found at ${url}`, failures);
+  }
 
-    const fallback = await this.fetchText(`${normalized}${FALLBACK_JSON}`);
-    if (fallback) return parseJSON(fallback);
+  /**
+   * Discover both formats and merge them into one document. agents.json is
+   * read from the agents.txt `Agents-JSON` cross-reference when there is one
+   * on the same site, otherwise from the well-known locations. An off-site
+   * cross-reference is not followed, with a warning. Where the two disagree,
+   * agents.json wins and the difference is listed in `inconsistencies`.
+   */
+  async discoverAll(baseUrl: string): Promise<DiscoveryResult> {
+    const normalized = baseUrl.replace(/\/+$/, "");
+    const txt = await this.discover(normalized);
+    const warnings: ParseWarning[] = [];
 
+    let json: ParseResult | undefined;
+    const reference = txt.document?.metadata?.["Agents-JSON"];
+    const site = txt.source?.url ?? normalized;
+    // Only another file of the same site may speak for it
+    if (reference && !sameSite(resolveUrl(reference, site), site)) {
+      warnings.push({ field: "Agents-JSON", message: `Not following off-site agents.json reference: ${reference}` });
+    } else if (reference) {
+      const failures: FetchError[] = [];
+      const fetched = await this.tryFetch(resolveUrl(reference, site), "json", failures);
+      if (fetched?.body) {
+        json = await this.enforceScope(withSource(parseJSON(fetched.body, this.parseOptions), fetched), normalized);
+      }
+      if (!json?.success) {
+        const reason = failures[0]?.message ?? json?.errors.map((e) => e.message).join(", ") ?? "empty response";
+        warnings.push({ field: "Agents-JSON", message: `Could not load agents.json from ${reference}: ${reason}` });
+        json = undefined;
+      }
+    }
+    json ??= await this.discoverJSON(normalized);
+
+    if (txt.success && txt.document && json.success && json.document) {
+      const { document, provenance, inconsistencies } = reconcile(txt.document, json.document);
+      return {
+        success: true,
+        document,
+        errors: [],
+        warnings: [...json.warnings, ...txt.warnings, ...warnings],
+        ...(json.source ? { source: json.source } : {}),
+        provenance,
+        inconsistencies,
+        txt,
+        json,
+      };
+    }
+
+    const found = json.success ? json : txt.success ? txt : undefined;
+    if (found) {
+      return { ...found, warnings: [...found.warnings, ...warnings], provenance: {}, inconsistencies: [], txt, json };
+    }
     return {
       success: false,
-      errors: [{ message: `No agents.json found at ${normalized}` }],
-      warnings: [],
+      errors: [...json.errors, ...txt.errors],
+      warnings,
+      provenance: {},
+      inconsistencies: [],
+      txt,
+      json,
     };
   }
 
-  private async fetchText(url: string): Promise<string | null> {
+  /**
+   * The rate limits a site reports on a response (SPEC 7.3), e.g. from a call
+   * to one of its capabilities. Undefined if the response has no rate limit
+   * headers.
+   */
+  rateLimit(response: Response): RateLimitInfo | undefined {
+    return parseRateLimitHeaders(response.headers);
+  }
+
+  /**
+   * How long to wait, in ms, before calling the site that sent `response`
+   * again, to stay within the limits it reports.
+   */
+  rateLimitDelay(response: Response, options?: RateLimitDelayOptions): number {
+    return rateLimitDelay(this.rateLimit(response), options);
+  }
+
+  /**
+   * Apply the scope policy against the URL the file was fetched from, not the
+   * Site-URL it declares. Out-of-scope capabilities are removed with a warning.
+   */
+  private async enforceScope(result: ParseResult, fetchedFrom: string): Promise<ParseResult> {
+    if (!this.scope || !result.document) return result;
+    let policy = this.scope;
+    if (policy.operatesOn === undefined && result.document.declarationType === "agent" && result.document.operatesOn) {
+      policy = { ...policy, operatesOn: await this.confirmedPlatforms(result.document.operatesOn, fetchedFrom) };
+    }
+    const { violations } = analyzeScope(result.document, policy, fetchedFrom);
+    if (violations.length === 0) return result;
+
+    const dropped = new Set(violations.flatMap((v) => (v.capability !== undefined ? [v.capability] : [])));
+    const doc = { ...result.document };
+    doc.capabilities = doc.capabilities.filter((c) => !dropped.has(c.id));
+    doc.agents = Object.fromEntries(
+      Object.entries(doc.agents).map(([name, policy]) => [
+        name,
+        policy.capabilities ? { ...policy, capabilities: policy.capabilities.filter((id) => !dropped.has(id)) } : policy,
+      ]),
+    );
+    if (violations.some((v) => v.path === "metadata.Agents-JSON")) {
+      doc.metadata = { ...doc.metadata };
+      delete doc.metadata["Agents-JSON"];
+    }
+
+    const warnings = violations.map((v) => ({
+      field: v.path,
+      message: `Ignored out-of-scope URL ${v.url}: ${v.message}`,
+    }));
+    return { ...result, document: doc, warnings: [...result.warnings, ...warnings] };
+  }
+
+  /**
+   * The Operates-On platforms whose agents.txt has an Agent-Declaration
+   * pointing back to the agent declaration fetched from `agentUrl`.
+   */
+  private async confirmedPlatforms(platforms: string[], agentUrl: string): Promise<string[]> {
+    const confirmed: string[] = [];
+    for (const platform of platforms) {
+      let origin: string;
+      try {
+        origin = new URL(platform).origin;
+      } catch {
+        continue;
+      }
+      const fetched =
+        (await this.tryFetch(`${origin}${WELL_KNOWN_TXT}`, "txt", [])) ?? (await this.tryFetch(`${origin}${FALLBACK_TXT}`, "txt", []));
+      const document = fetched?.body ? parse(fetched.body, this.parseOptions).document : undefined;
+      if (document && confirmsAgent(document, origin, agentUrl)) confirmed.push(origin);
+    }
+    return confirmed;
+  }
+
+  /** Fetch a file, recording a failure instead of throwing. */
+  private async tryFetch(url: string, kind: FileKind, failures: FetchError[]): Promise<Fetched | null> {
+    try {
+      return await this.fetchText(url, kind);
+    } catch (err) {
+      failures.push(err instanceof FetchError ? err : new NetworkError(url, err));
+      return null;
+    }
+  }
+
+  /**
+   * Fetch a file through the cache: fresh entries are served as they are,
+   * stale ones within stale-while-revalidate are served while a background
+   * request refreshes them, anything else is revalidated or downloaded.
+   * Throws a FetchError subclass on failure.
+   */
+  private async fetchText(url: string, kind: FileKind): Promise<Fetched> {
+    const entry = this.cache ? await this.cache.get(url) : undefined;
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) return fromEntry(entry, "hit");
+    if (entry && now < entry.staleUntil) {
+      if (!this.revalidating.has(url)) {
+        const refresh = this.request(url, kind, entry)
+          .then(() => undefined, () => undefined)
+          .finally(() => this.revalidating.delete(url));
+        this.revalidating.set(url, refresh);
+      }
+      return fromEntry(entry, "stale");
+    }
+    return this.request(url, kind, entry);
+  }
+
+  /** Make a (conditional, if there is an entry) request and update the cache. */
+  private async request(url: string, kind: FileKind, entry: CacheEntry | undefined): Promise<Fetched> {
+    await this.options.throttle?.(url);
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), this.timeout);
+    const headers: Record<string, string> = { "User-Agent": this.userAgent };
+    if (entry?.etag) headers["If-None-Match"] = entry.etag;
+    if (entry?.lastModified) headers["If-Modified-Since"] = entry.lastModified;
 
     try {
-      const response = await fetch(url, {
-        headers: { "User-Agent": this.userAgent },
-        signal: controller.signal,
+      const { response, url: finalUrl } = await guardedFetch(url, { headers, signal: controller.signal }, {
+        httpsOnly: this.options.httpsOnly,
+        maxRedirects: this.options.maxRedirects ?? 20,
+        sameSiteRedirects: this.options.sameSiteRedirects,
+        blockPrivateAddresses: this.options.blockPrivateAddresses,
+        transport: this.options.transport,
+        throttle: this.options.throttle,
       });
+      const now = Date.now();
+
+      if (response.status === 304 && entry) {
+        const refreshed = cacheEntryFromResponse(entry.url, entry.body, mergeHeaders(entry, response.headers), now);
+        await this.store(url, refreshed);
+        return fromEntry(refreshed ?? { ...entry, fetchedAt: now, expiresAt: now }, "revalidated");
+      }
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new HttpStatusError(finalUrl, response.status);
+      }
+      if (this.options.enforceContentType) checkContentType(response, finalUrl, kind);
 
-      if (!response.ok) return null;
       // Body read is also covered by the abort signal
-      return await response.text();
-    } catch {
-      return null;
+      const body = await readBody(response, finalUrl, this.options.maxBodyBytes);
+      const fresh = cacheEntryFromResponse(finalUrl, body, response.headers, now);
+      await this.store(url, fresh);
+      return fromEntry(fresh ?? { url: finalUrl, body, fetchedAt: now, expiresAt: now, staleUntil: now }, "miss");
+    } catch (err) {
+      if (controller.signal.aborted) throw new FetchTimeoutError(url, this.timeout);
+      throw err instanceof FetchError ? err : new NetworkError(url, err);
     } finally {
       clearTimeout(timer);
     }
   }
+
+  private async store(url: string, entry: CacheEntry | null): Promise<void> {
+    if (!this.cache) return;
+    try {
+      if (entry) await this.cache.set(url, entry);
+      else await this.cache.delete(url);
+    } catch {
+      // A failing cache must not fail discovery
+    }
+  }
+}
+
+function fromEntry(entry: CacheEntry, cache: SourceMetadata["cache"]): Fetched {
+  return {
+    body: entry.body,
+    source: {
+      url: entry.url,
+      fetchedAt: new Date(entry.fetchedAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+      cache,
+    },
+  };
+}
+
+function checkContentType(response: Response, url: string, kind: FileKind): void {
+  const contentType = response.headers.get("content-type") ?? "";
+  const mediaType = contentType.split(";")[0].trim().toLowerCase();
+  const ok = kind === "txt" ? mediaType === "text/plain" : mediaType === "application/json" || mediaType.endsWith("+json");
+  if (!ok) throw new ContentTypeError(url, contentType, kind === "txt" ? "text/plain" : "application/json");
+}
+
+/** Resolve a possibly relative URL; an unparseable one is returned as is and fails when fetched. */
+function resolveUrl(url: string, base: string): string {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return url;
+  }
+}
+
+function notFound(message: string, failures: FetchError[]): ParseResult {
+  return {
+    success: false,
+    errors: [{ message }, ...failures.map((error) => ({ message: error.message, fetchError: error }))],
+    warnings: [],
+  };
+}
+
+function withSource(result: ParseResult, fetched: Fetched): ParseResult {
+  return { ...result, source: fetched.source };
+}
+
+/** A 304 may omit validators; keep the ones we already had. */
+function mergeHeaders(entry: CacheEntry, headers: Headers): Headers {
+  const merged = new Headers(headers);
+  if (entry.etag && !merged.has("etag")) merged.set("etag", entry.etag);
+  if (entry.lastModified && !merged.has("last-modified")) merged.set("last-modified", entry.lastModified);
+  return merged;
 }
@@ -0,0 +1,235 @@
+import type { ValidationError, ValidationWarning } from "./types.js";
+import { AgentsTxtClient } from "./client.js";
+import type { ClientOptions, DiscoveryResult } from "./client.js";
+import type { DocumentFormat } from "./reconcile.js";
+import { HttpStatusError } from "./fetch.js";
+import type { FetchError } from "./fetch.js";
+import { validate } from "./validator.js";
+
+/**
+ * agents.txt - Bulk discovery
+ *
+ * Runs discoverAll() over many sites. Sites on the same host are visited one
+ * at a time, and every request to a host waits out a delay after the one
+ * before it; different hosts run in parallel up to the concurrency limit.
+ */
+
+export type CrawlStatus = "found" | "invalid" | "not-found" | "error";
+
+export interface CrawlSiteResult {
+  /** The origin that was crawled, e.g. "https://example.com". */
+  origin: string;
+  /** "found": a valid document; "invalid": a file that fails to parse or validate; "error": the fetch failed. */
+  status: CrawlStatus;
+  /** Formats the site serves (a file was fetched, whether or not it is valid). */
+  formats: DocumentFormat[];
+  siteName?: string;
+  valid: boolean;
+  capabilities: number;
+  /** Places where agents.txt and agents.json disagree. */
+  inconsistencies: number;
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+  /** Why the site could not be crawled, for status "error". */
+  error?: string;
+  durationMs: number;
+}
+
+export interface CrawlSummary {
+  total: number;
+  found: number;
+  invalid: number;
+  notFound: number;
+  errored: number;
+  formats: { txt: number; json: number; both: number };
+  capabilities: number;
+}
+
+export interface CrawlOptions {
+  /** Sites crawled at the same time, at least 1. Default: 4 (also for a value that is not a finite number). */
+  concurrency?: number;
+  /** Pause between requests to the same host, in ms. Default: 1000 (also for a value that is not a finite number). */
+  perHostDelay?: number;
+  /** Options for the AgentsTxtClient that does the fetching. Default: no cache. */
+  client?: ClientOptions;
+  /** Called as each site finishes, e.g. to stream JSONL. */
+  onResult?: (result: CrawlSiteResult) => void;
+}
+
+/**
+ * Crawl a list of sites. Results are returned in input order; duplicate
+ * origins are crawled once.
+ */
+export async function crawl(
+  sites: string[],
+  options: CrawlOptions = {},
+): Promise<{ results: CrawlSiteResult[]; summary: CrawlSummary }> {
+  const concurrency = Number.isFinite(options.concurrency) ? Math.max(1, Math.floor(options.concurrency!)) : 4;
+  const delay = Number.isFinite(options.perHostDelay) ? Math.max(0, options.perHostDelay!) : 1000;
+
+  // Each request to a host takes the next free slot, `delay` after the last one
+  const nextSlot = new Map<string, number>();
+  const throttle = async (url: string) => {
+    await options.client?.throttle?.(url);
+    if (delay === 0) return;
+    const host = hostOf(url);
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot.get(host) ?? 0);
+    nextSlot.set(host, slot + delay);
+    if (slot > now) await sleep(slot - now);
+  };
+  const client = new AgentsTxtClient({ cache: false, ...options.client, throttle });
+
+  const origins = [...new Set(sites.map(toOrigin))];
+  const byHost = new Map<string, string[]>();
+  for (const origin of origins) {
+    const host = hostOf(origin);
+    byHost.set(host, [...(byHost.get(host) ?? []), origin]);
+  }
+
+  const results = new Map<string, CrawlSiteResult>();
+  const hosts = [...byHost.values()];
+  const worker = async () => {
+    for (let group = hosts.shift(); group; group = hosts.shift()) {
+      for (const origin of group) {
+        const result = await crawlSite(client, origin);
+        results.set(origin, result);
+        options.onResult?.(result);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, hosts.length) }, worker));
+
+  const ordered = origins.map((origin) => results.get(origin)!);
+  return { results: ordered, summary: summarizeCrawl(ordered) };
+}
+
+/**
+ * Aggregate counts over crawl results.
+ */
+export function summarizeCrawl(results: CrawlSiteResult[]): CrawlSummary {
+  const count = (predicate: (r: CrawlSiteResult) => boolean) => results.filter(predicate).length;
+  return {
+    total: results.length,
+    found: count((r) => r.status === "found"),
+    invalid: count((r) => r.status === "invalid"),
+    notFound: count((r) => r.status === "not-found"),
+    errored: count((r) => r.status === "error"),
+    formats: {
+      txt: count((r) => r.formats.includes("txt")),
+      json: count((r) => r.formats.includes("json")),
+      both: count((r) => r.formats.length === 2),
+    },
+    capabilities: results.reduce((sum, r) => sum + r.capabilities, 0),
+  };
+}
+
+/**
+ * Render crawl results as a table with one row per site, followed by totals.
+ */
+export function formatCrawlSummary(results: CrawlSiteResult[], summary = summarizeCrawl(results)): string {
+  const rows = [
+    ["Origin", "Status", "Formats", "Capabilities", "Errors", "Warnings"],
+    ...results.map((r) => [
+      r.origin,
+      r.status,
+      r.formats.join("+") || "-",
+      String(r.capabilities),
+      String(r.errors.length),
+      String(r.warnings.length),
+    ]),
+  ];
+  const widths = rows[0].map((_, col) => Math.max(...rows.map((row) => row[col].length)));
+  const table = rows.map((row) => row.map((cell, col) => cell.padEnd(widths[col])).join("  ").trimEnd());
+  table.splice(1, 0, widths.map((w) => "-".repeat(w)).join("  "));
+
+  const percent = (n: number) => (summary.total > 0 ? ` (${((n / summary.total) * 100).toFixed(1)}%)` : "");
+  return [
+    ...table,
+    "",
+    `Sites: ${summary.total}`,
+    `Found: ${summary.found}${percent(summary.found)}`,
+    `Invalid: ${summary.invalid}${percent(summary.invalid)}`,
+    `Not found: ${summary.notFound}${percent(summary.notFound)}`,
+    `Errors: ${summary.errored}${percent(summary.errored)}`,
+    `Formats: ${summary.formats.txt} agents.txt, ${summary.formats.json} agents.json, ${summary.formats.both} both`,
+    `Capabilities: ${summary.capabilities}`,
+  ].join("\n");
+}
+
+async function crawlSite(client: AgentsTxtClient, origin: string): Promise<CrawlSiteResult> {
+  const started = Date.now();
+  const base = { origin, formats: [] as DocumentFormat[], valid: false, capabilities: 0, inconsistencies: 0 };
+
+  let discovery: DiscoveryResult;
+  try {
+    discovery = await client.discoverAll(origin);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    return { ...base, status: "error", errors: [], warnings: [], error, durationMs: Date.now() - started };
+  }
+
+  const formats: DocumentFormat[] = [];
+  if (discovery.txt.source) formats.push("txt");
+  if (discovery.json.source) formats.push("json");
+
+  if (!discovery.success || !discovery.document) {
+    const durationMs = Date.now() - started;
+    if (formats.length > 0) {
+      // A file was fetched but did not parse
+      const errors = [discovery.txt, discovery.json]
+        .filter((result) => result.source)
+        .flatMap((result) => result.errors)
+        .map((e) => ({ path: e.field ?? "", message: e.message, code: "PARSE_ERROR" }));
+      return { ...base, formats, status: "invalid", errors, warnings: [], durationMs };
+    }
+
+    // Nothing fetched: a site without the files answers 404 (or 410), anything else is an error
+    const failures = discovery.errors.flatMap((e) => (e.fetchError ? [e.fetchError] : []));
+    const isMissing = (f: FetchError) => f instanceof HttpStatusError && (f.status === 404 || f.status === 410);
+    const failure = failures.find((f) => !isMissing(f));
+    if (!failure) return { ...base, status: "not-found", errors: [], warnings: [], durationMs };
+    return { ...base, status: "error", errors: [], warnings: [], error: failure.message, durationMs };
+  }
+
+  const validation = validate(discovery.document);
+  return {
+    origin,
+    status: validation.valid ? "found" : "invalid",
+    formats,
+    siteName: discovery.document.site.name,
+    valid: validation.valid,
+    capabilities: discovery.document.capabilities.length,
+    inconsistencies: discovery.inconsistencies.length,
+    errors: validation.errors,
+    warnings: validation.warnings,
+    durationMs: Date.now() - started,
+  };
+}
+
+/**
+ * "example.com" and "https://example.com/some/path" both become
+ * "https://example.com". Anything that is not a URL is kept as it is and
+ * reported as an error when crawled.
+ */
+function toOrigin(site: string): string {
+  const trimmed = site.trim();
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`).origin;
+  } catch {
+    return trimmed;
+  }
+}
+
+/** Hostname without the port: servers on one machine share its politeness delay. */
+function hostOf(origin: string): string {
+  try {
+    return new URL(origin).hostname;
+  } catch {
+    return origin;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
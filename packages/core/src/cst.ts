@@ -0,0 +1,587 @@
+import type { AgentPolicy, Capability, ParseResult, SourceRange } from "./types.js";
+import { parse } from "./parser.js";
+import { formatAgent, formatCapability } from "./generator.js";
+import { sanitizeValue } from "./utils.js";
+
+/**
+ * agents.txt - Concrete Syntax Tree
+ *
+ * Unlike parse(), the CST keeps every line of the source (comments, blank
+ * lines, key spelling, indentation, line endings) so a file can be edited in
+ * code and printed back byte-for-byte except where it was changed.
+ */
+
+export type CstLineKind = "blank" | "comment" | "field" | "invalid";
+
+export interface CstToken {
+  /** Token text as it appears in the source. */
+  text: string;
+  /** 1-based line number. */
+  line: number;
+  /** 1-based column of the first character. */
+  column: number;
+}
+
+export interface CstLine {
+  kind: CstLineKind;
+  /** 1-based line number. */
+  line: number;
+  /** Leading whitespace. */
+  indent: string;
+  /** Field key (field lines only). */
+  key?: CstToken;
+  /** Everything between the end of the key and the start of the value, e.g. ": ". */
+  separator?: string;
+  /** Field value, comment text or unparseable content. */
+  value?: CstToken;
+  /** Trailing whitespace after the value. */
+  trailing: string;
+  /** Line terminator: "\n", "\r\n" or "" for the last line. */
+  eol: string;
+}
+
+export interface CstBlock {
+  type: "capability" | "agent";
+  /** Capability ID or agent name. */
+  id: string;
+  /** The `Capability:` or `Agent:` line. */
+  header: CstLine;
+  /** Indented field lines belonging to the block. */
+  fields: CstLine[];
+}
+
+export interface AgentsTxtCST {
+  lines: CstLine[];
+}
+
+const KEY_ALIASES: Record<string, string> = {
+  "site-description": "description",
+  "site-contact": "contact",
+  "site-privacy-policy": "privacy-policy",
+};
+
+function canonicalKey(key: string): string {
+  const lower = key.toLowerCase();
+  return KEY_ALIASES[lower] ?? lower;
+}
+
+function isIndented(raw: string): boolean {
+  return raw.startsWith("  ") || raw.startsWith("\t");
+}
+
+function lineText(line: CstLine): string {
+  if (line.kind === "blank") return line.indent + line.trailing;
+  if (line.kind === "field") {
+    return line.indent + line.key!.text + line.separator! + line.value!.text + line.trailing;
+  }
+  return line.indent + (line.value?.text ?? "") + line.trailing;
+}
+
+function tokenizeLine(raw: string, eol: string, lineNum: number): CstLine {
+  const indent = raw.match(/^\s*/)![0];
+  const rest = raw.slice(indent.length);
+  const content = rest.trimEnd();
+  const trailing = rest.slice(content.length);
+
+  if (content === "") {
+    return { kind: "blank", line: lineNum, indent, trailing, eol };
+  }
+
+  const valueAt = (text: string, offset: number): CstToken => ({ text, line: lineNum, column: offset + 1 });
+
+  if (content.startsWith("#")) {
+    return { kind: "comment", line: lineNum, indent, value: valueAt(content, indent.length), trailing, eol };
+  }
+
+  const colonIdx = content.indexOf(":");
+  if (colonIdx === -1) {
+    return { kind: "invalid", line: lineNum, indent, value: valueAt(content, indent.length), trailing, eol };
+  }
+
+  const keyText = content.slice(0, colonIdx).trimEnd();
+  const afterColon = content.slice(colonIdx + 1);
+  const valueText = afterColon.trimStart();
+  const separator = content.slice(keyText.length, content.length - valueText.length);
+
+  return {
+    kind: "field",
+    line: lineNum,
+    indent,
+    key: valueAt(keyText, indent.length),
+    separator,
+    value: valueAt(valueText, indent.length + keyText.length + separator.length),
+    trailing,
+    eol,
+  };
+}
+
+/**
+ * Parse agents.txt text into a lossless concrete syntax tree.
+ */
+export function parseCST(input: string): AgentsTxtCST {
+  const lines: CstLine[] = [];
+  // Alternating [text, terminator, text, terminator, ..., text]; lines end
+  // where parse() ends them, so a lone "\r" stays in the line's text
+  const parts = input.split(/(\r?\n)/);
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const raw = parts[i];
+    const eol = parts[i + 1] ?? "";
+    // A trailing terminator does not start another line
+    if (eol === "" && raw === "") break;
+    lines.push(tokenizeLine(raw, eol, lines.length + 1));
+  }
+
+  return { lines };
+}
+
+/**
+ * Print a concrete syntax tree back to text.
+ */
+export function printCST(cst: AgentsTxtCST): string {
+  return cst.lines.map((line) => lineText(line) + line.eol).join("");
+}
+
+/**
+ * Collect the capability and agent blocks of a CST, in source order.
+ */
+export function cstBlocks(cst: AgentsTxtCST): CstBlock[] {
+  const blocks: CstBlock[] = [];
+  let current: CstBlock | null = null;
+
+  for (const line of cst.lines) {
+    if (line.kind !== "field") continue;
+    if (isIndented(line.indent)) {
+      if (current) current.fields.push(line);
+      continue;
+    }
+    current = null;
+    const key = line.key!.text;
+    if (key === "Capability" || key === "Agent") {
+      current = {
+        type: key === "Capability" ? "capability" : "agent",
+        id: line.value!.text,
+        header: line,
+        fields: [],
+      };
+      blocks.push(current);
+    }
+  }
+
+  return blocks;
+}
+
+/** Source keys of document fields, by the first segments of a document path. */
+const TOP_LEVEL_KEYS: Record<string, string> = {
+  "site.name": "site-name",
+  "site.url": "site-url",
+  "site.description": "description",
+  "site.contact": "contact",
+  "site.privacyPolicy": "privacy-policy",
+  specVersion: "spec-version",
+  declarationType: "declaration-type",
+  operatesOn: "operates-on",
+  "access.allow": "allow",
+  "access.disallow": "disallow",
+};
+
+const CAPABILITY_KEYS: Record<string, string> = {
+  description: "description",
+  endpoint: "endpoint",
+  method: "method",
+  protocol: "protocol",
+  auth: "auth",
+  "auth.type": "auth",
+  "auth.tokenEndpoint": "auth-endpoint",
+  "auth.docsUrl": "auth-docs",
+  "auth.scopes": "scopes",
+  scopes: "scopes",
+  rateLimit: "rate-limit",
+  openapi: "openapi",
+  parameters: "param",
+};
+
+const AGENT_KEYS: Record<string, string> = {
+  capabilities: "capabilities",
+  rateLimit: "rate-limit",
+  agentDeclaration: "agent-declaration",
+};
+
+/**
+ * Find the source text a document path (as used in validation results, e.g.
+ * "capabilities.search.endpoint" or "capabilities.0.endpoint") refers to.
+ * Falls back to the enclosing block header when the field is not written out.
+ */
+export function locatePath(cst: AgentsTxtCST, path: string): SourceRange | undefined {
+  const parts = path.split(".");
+
+  if (parts[0] === "capabilities" || parts[0] === "agents") {
+    const type = parts[0] === "capabilities" ? "capability" : "agent";
+    const blocks = cstBlocks(cst).filter((b) => b.type === type);
+    // IDs may contain dots, so try the longest prefix first
+    for (let end = parts.length; end > 1; end--) {
+      const id = parts.slice(1, end).join(".");
+      const block =
+        blocks.find((b) => (type === "agent" ? b.id.toLowerCase() === id.toLowerCase() : b.id === id)) ??
+        (end === 2 && /^\d+$/.test(id) ? blocks[Number(id)] : undefined);
+      if (block) return locateInBlock(block, parts.slice(end));
+    }
+    return undefined;
+  }
+
+  if (parts[0] === "metadata" && parts.length > 1) {
+    return rangeOf(topLevelLines(cst, parts.slice(1).join(".").toLowerCase())[0]);
+  }
+
+  for (let end = parts.length; end > 0; end--) {
+    const key = TOP_LEVEL_KEYS[parts.slice(0, end).join(".")];
+    if (!key) continue;
+    const lines = topLevelLines(cst, key);
+    if (key === "spec-version" && lines.length === 0) {
+      // Usually written as a comment: "# Spec-Version: 1.0"
+      return rangeOf(cst.lines.find((l) => l.kind === "comment" && /^#\s*Spec-Version:/i.test(l.value!.text)));
+    }
+    const index = /^\d+$/.test(parts[end] ?? "") ? Number(parts[end]) : 0;
+    return rangeOf(lines[index] ?? lines[0]);
+  }
+  return undefined;
+}
+
+/**
+ * The range of a line's content, without indentation or trailing whitespace.
+ */
+export function locateLine(cst: AgentsTxtCST, line: number): SourceRange | undefined {
+  return rangeOf(cst.lines[line - 1]);
+}
+
+function locateInBlock(block: CstBlock, rest: string[]): SourceRange | undefined {
+  if (rest.length === 0) return rangeOf(block.header);
+  if (rest[0] === "id") return tokenRange(block.header.value!);
+
+  const keys = block.type === "capability" ? CAPABILITY_KEYS : AGENT_KEYS;
+  const key = keys[rest.slice(0, 2).join(".")] ?? keys[rest[0]];
+  const lines = key ? block.fields.filter((l) => canonicalKey(l.key!.text) === key) : [];
+
+  if (key === "param" && rest[1] !== undefined) {
+    const param = lines.find((l) => l.value!.text.match(/^(\w+)/)?.[1] === rest[1]) ?? lines[Number(rest[1])];
+    return rangeOf(param ?? block.header);
+  }
+  return rangeOf(lines[0] ?? block.header);
+}
+
+function topLevelLines(cst: AgentsTxtCST, key: string): CstLine[] {
+  return cst.lines.filter(
+    (l) => l.kind === "field" && !isIndented(l.indent) && canonicalKey(l.key!.text) === key,
+  );
+}
+
+/** The content of a line, without indentation or trailing whitespace. */
+function rangeOf(line: CstLine | undefined): SourceRange | undefined {
+  if (!line) return undefined;
+  const text = lineText(line).trimEnd();
+  return { line: line.line, column: line.indent.length + 1, endLine: line.line, endColumn: text.length + 1 };
+}
+
+function tokenRange(token: CstToken): SourceRange {
+  return { line: token.line, column: token.column, endLine: token.line, endColumn: token.column + token.text.length };
+}
+
+/**
+ * Editable agents.txt source. Every edit touches only the lines it changes;
+ * the rest of the file (comments, blank lines, aliases, ordering) is printed
+ * back exactly as it was read.
+ */
+export class AgentsTxtEditor {
+  private cst: AgentsTxtCST;
+  private eol: string;
+
+  constructor(input: string) {
+    this.cst = parseCST(input);
+    this.eol = this.cst.lines.find((l) => l.eol !== "")?.eol ?? "\n";
+  }
+
+  /** The current lines, with up-to-date line and column positions. */
+  get lines(): readonly CstLine[] {
+    return this.cst.lines;
+  }
+
+  /** All capability and agent blocks, in source order. */
+  get blocks(): CstBlock[] {
+    return cstBlocks(this.cst);
+  }
+
+  toString(): string {
+    return printCST(this.cst);
+  }
+
+  /** Parse the edited source into a structured document. */
+  toDocument(): ParseResult {
+    return parse(this.toString());
+  }
+
+  /** Value of a top-level field. Keys are case-insensitive; Site-* aliases match their short form. */
+  get(key: string): string | undefined {
+    return this.findTopLevel(key)[0]?.value!.text;
+  }
+
+  /** Values of a repeatable top-level field such as Allow or Operates-On. */
+  getAll(key: string): string[] {
+    return this.findTopLevel(key).map((l) => l.value!.text);
+  }
+
+  /**
+   * Set a top-level field. An existing line keeps its key spelling and
+   * spacing; otherwise a new line is inserted after the last top-level field
+   * that precedes the first block.
+   */
+  set(key: string, value: string): this {
+    const existing = this.findTopLevel(key)[0];
+    if (existing) {
+      this.setValue(existing, value);
+      return this;
+    }
+    const blocks = this.blocks;
+    const limit = blocks.length > 0 ? this.indexOf(blocks[0].header) : this.cst.lines.length;
+    let at = -1;
+    for (let i = 0; i < limit; i++) {
+      const line = this.cst.lines[i];
+      if (line.kind === "field" && !isIndented(line.indent)) at = i;
+    }
+    this.insert(at === -1 ? this.headerEnd() : at + 1, [`${key}: ${sanitizeValue(value)}`]);
+    return this;
+  }
+
+  /** Append another occurrence of a repeatable top-level field (Allow, Disallow, Operates-On). */
+  add(key: string, value: string): this {
+    const existing = this.findTopLevel(key);
+    if (existing.length > 0) {
+      this.insert(this.indexOf(existing[existing.length - 1]) + 1, [`${existing[0].key!.text}: ${sanitizeValue(value)}`]);
+      return this;
+    }
+    return this.set(key, value);
+  }
+
+  /** Remove every occurrence of a top-level field. Returns true if anything was removed. */
+  remove(key: string): boolean {
+    const existing = this.findTopLevel(key);
+    for (const line of existing) {
+      this.removeRange(this.indexOf(line), this.indexOf(line));
+    }
+    return existing.length > 0;
+  }
+
+  /** Look up a capability block by ID. */
+  getCapability(id: string): CstBlock | undefined {
+    return this.blocks.find((b) => b.type === "capability" && b.id === id);
+  }
+
+  /** Look up an agent block by name (case-insensitive). */
+  getAgent(name: string): CstBlock | undefined {
+    return this.blocks.find((b) => b.type === "agent" && b.id.toLowerCase() === name.toLowerCase());
+  }
+
+  /** Set (or, with `undefined`, remove) a field of a capability block. */
+  setCapabilityField(id: string, key: string, value: string | undefined): this {
+    const block = this.getCapability(id);
+    if (!block) throw new Error(`Unknown capability: "${id}"`);
+    this.setBlockField(block, key, value);
+    return this;
+  }
+
+  /** Set (or, with `undefined`, remove) a field of an agent block. */
+  setAgentField(name: string, key: string, value: string | undefined): this {
+    const block = this.getAgent(name);
+    if (!block) throw new Error(`Unknown agent: "${name}"`);
+    this.setBlockField(block, key, value);
+    return this;
+  }
+
+  /**
+   * Add a capability block after the last existing capability, or before the
+   * access and agent sections when there is none.
+   */
+  addCapability(cap: Capability): this {
+    if (this.getCapability(cap.id)) throw new Error(`Duplicate capability ID: "${cap.id}"`);
+    const caps = this.blocks.filter((b) => b.type === "capability");
+    const text = formatCapability(cap);
+
+    if (caps.length > 0) {
+      const last = caps[caps.length - 1];
+      this.insert(this.blockEnd(last) + 1, ["", ...text]);
+      return this;
+    }
+
+    const firstSection = this.cst.lines.findIndex(
+      (l) => l.kind === "field" && !isIndented(l.indent) && /^(allow|disallow|agent)$/i.test(l.key!.text),
+    );
+    if (firstSection !== -1) {
+      this.insert(this.leadingCommentStart(firstSection), [...text, ""]);
+    } else {
+      this.append(text);
+    }
+    return this;
+  }
+
+  /** Rename a capability block and every agent `Capabilities:` reference to it. */
+  renameCapability(id: string, newId: string): this {
+    const block = this.getCapability(id);
+    if (!block) throw new Error(`Unknown capability: "${id}"`);
+    if (this.getCapability(newId)) throw new Error(`Duplicate capability ID: "${newId}"`);
+    this.setValue(block.header, newId);
+
+    for (const agent of this.blocks.filter((b) => b.type === "agent")) {
+      const field = agent.fields.find((l) => l.key!.text.toLowerCase() === "capabilities");
+      if (!field) continue;
+      const refs = field.value!.text.split(",").map((s) => s.trim());
+      if (refs.includes(id)) {
+        this.setValue(field, refs.map((ref) => (ref === id ? newId : ref)).join(", "));
+      }
+    }
+    return this;
+  }
+
+  /** Remove a capability block. Returns true if it existed. */
+  removeCapability(id: string): boolean {
+    const block = this.getCapability(id);
+    if (!block) return false;
+    this.removeBlock(block);
+    return true;
+  }
+
+  /** Add an agent block after the last existing agent block, or at the end of the file. */
+  addAgent(name: string, policy: AgentPolicy = {}): this {
+    if (this.getAgent(name)) throw new Error(`Duplicate agent: "${name}"`);
+    const agents = this.blocks.filter((b) => b.type === "agent");
+    const text = formatAgent(name, policy);
+
+    if (agents.length > 0) {
+      this.insert(this.blockEnd(agents[agents.length - 1]) + 1, text);
+    } else {
+      this.append(text);
+    }
+    return this;
+  }
+
+  /** Remove an agent block. Returns true if it existed. */
+  removeAgent(name: string): boolean {
+    const block = this.getAgent(name);
+    if (!block) return false;
+    this.removeBlock(block);
+    return true;
+  }
+
+  // -- internals --
+
+  private findTopLevel(key: string): CstLine[] {
+    const wanted = canonicalKey(key);
+    const blockKeys = new Set(this.blocks.flatMap((b) => [b.header, ...b.fields]));
+    return this.cst.lines.filter(
+      (l) => l.kind === "field" && !blockKeys.has(l) && !isIndented(l.indent) && canonicalKey(l.key!.text) === wanted,
+    );
+  }
+
+  private setBlockField(block: CstBlock, key: string, value: string | undefined): void {
+    const wanted = key.toLowerCase();
+    const existing = block.fields.find((l) => l.key!.text.toLowerCase() === wanted);
+
+    if (value === undefined) {
+      if (existing) this.removeRange(this.indexOf(existing), this.indexOf(existing));
+      return;
+    }
+    if (existing) {
+      this.setValue(existing, value);
+      return;
+    }
+    const indent = block.fields[0]?.indent ?? "  ";
+    this.insert(this.blockEnd(block) + 1, [`${indent}${key}: ${sanitizeValue(value)}`]);
+  }
+
+  private setValue(line: CstLine, value: string): void {
+    line.value = { ...line.value!, text: sanitizeValue(value) };
+    if (line.separator === ":") line.separator = ": ";
+    this.renumber();
+  }
+
+  private indexOf(line: CstLine): number {
+    return this.cst.lines.indexOf(line);
+  }
+
+  private blockEnd(block: CstBlock): number {
+    const last = block.fields.length > 0 ? block.fields[block.fields.length - 1] : block.header;
+    return this.indexOf(last);
+  }
+
+  /** Index of the first comment line directly attached (no blank line between) above `index`. */
+  private leadingCommentStart(index: number): number {
+    let start = index;
+    while (start > 0 && this.cst.lines[start - 1].kind === "comment" && !isIndented(this.cst.lines[start - 1].indent)) {
+      start--;
+    }
+    return start;
+  }
+
+  /** Index just past the leading comment header and the blank line that follows it. */
+  private headerEnd(): number {
+    let i = 0;
+    while (i < this.cst.lines.length && this.cst.lines[i].kind === "comment") i++;
+    while (i < this.cst.lines.length && this.cst.lines[i].kind === "blank") i++;
+    return i;
+  }
+
+  private removeBlock(block: CstBlock): void {
+    const start = this.leadingCommentStart(this.indexOf(block.header));
+    this.removeRange(start, this.blockEnd(block));
+  }
+
+  /** Remove lines [start, end], collapsing the blank line left behind if any. */
+  private removeRange(start: number, end: number): void {
+    const lines = this.cst.lines;
+    const before = lines[start - 1];
+    const after = lines[end + 1];
+    if (after?.kind === "blank" && (before === undefined || before.kind === "blank")) {
+      end++;
+    }
+    const droppedFinalLine = lines[end]?.eol === "";
+    lines.splice(start, end - start + 1);
+    if (droppedFinalLine && lines.length > 0) {
+      // The file did not end with a terminator; keep it that way
+      lines[lines.length - 1].eol = "";
+    }
+    this.renumber();
+  }
+
+  private insert(index: number, texts: string[]): void {
+    const lines = this.cst.lines;
+    // Inserting after a final line without a terminator: give it one
+    if (index === lines.length && lines.length > 0 && lines[lines.length - 1].eol === "") {
+      lines[lines.length - 1].eol = this.eol;
+      const created = texts.map((t, i) => tokenizeLine(t, i === texts.length - 1 ? "" : this.eol, 0));
+      lines.splice(index, 0, ...created);
+    } else {
+      const created = texts.map((t) => tokenizeLine(t, this.eol, 0));
+      lines.splice(index, 0, ...created);
+    }
+    this.renumber();
+  }
+
+  private append(texts: string[]): void {
+    const lines = this.cst.lines;
+    const last = lines[lines.length - 1];
+    const needsGap = last !== undefined && !(last.kind === "blank");
+    this.insert(lines.length, needsGap ? ["", ...texts] : texts);
+  }
+
+  private renumber(): void {
+    this.cst.lines.forEach((line, i) => {
+      const lineNum = i + 1;
+      line.line = lineNum;
+      if (line.key) {
+        line.key = { ...line.key, line: lineNum, column: line.indent.length + 1 };
+      }
+      if (line.value) {
+        const offset = line.key ? line.indent.length + line.key.text.length + line.separator!.length : line.indent.length;
+        line.value = { ...line.value, line: lineNum, column: offset + 1 };
+      }
+    });
+  }
+}
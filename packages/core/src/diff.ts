@@ -0,0 +1,313 @@
+import type { AgentsTxtDocument, AuthConfig, Capability, ParameterDef, RateLimit } from "./types.js";
+import { resolveAgentPolicy } from "./policy.js";
+import { formatRateLimit, windowToMs } from "./utils.js";
+
+/**
+ * agents.txt - Semantic diff
+ *
+ * Compares two documents the way a consumer sees them and classifies each
+ * change: "breaking" changes can make an existing agent integration fail,
+ * "non-breaking" ones only add or loosen, "informational" ones have no
+ * effect on calls (descriptions, docs links, metadata).
+ */
+
+export type ChangeSeverity = "breaking" | "non-breaking" | "informational";
+
+export interface DocumentChange {
+  /** Document path, e.g. "capabilities.search.parameters.q". */
+  path: string;
+  kind: "added" | "removed" | "changed";
+  severity: ChangeSeverity;
+  message: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface DocumentDiff {
+  /** True if any change is breaking. */
+  breaking: boolean;
+  changes: DocumentChange[];
+}
+
+/**
+ * Compare two documents and list every change, classified by severity.
+ */
+export function diff(oldDoc: AgentsTxtDocument, newDoc: AgentsTxtDocument): DocumentDiff {
+  const changes: DocumentChange[] = [];
+  const add = (change: DocumentChange) => changes.push(change);
+
+  diffSite(oldDoc, newDoc, add);
+  diffCapabilities(oldDoc, newDoc, add);
+  diffAccess(oldDoc, newDoc, add);
+  diffAgents(oldDoc, newDoc, add);
+  diffMetadata(oldDoc, newDoc, add);
+
+  return { breaking: changes.some((c) => c.severity === "breaking"), changes };
+}
+
+const SEVERITY_TITLES: Record<ChangeSeverity, string> = {
+  breaking: "Breaking changes",
+  "non-breaking": "Non-breaking changes",
+  informational: "Informational changes",
+};
+
+/**
+ * Render a diff as a text report grouped by severity, or as JSON.
+ */
+export function formatDiff(result: DocumentDiff, format: "text" | "json" = "text"): string {
+  if (format === "json") return JSON.stringify(result, null, 2);
+  if (result.changes.length === 0) return "No changes";
+
+  const sections: string[] = [];
+  for (const severity of ["breaking", "non-breaking", "informational"] as const) {
+    const group = result.changes.filter((c) => c.severity === severity);
+    if (group.length === 0) continue;
+    sections.push(
+      [`${SEVERITY_TITLES[severity]} (${group.length}):`, ...group.map((c) => `  - ${c.path}: ${c.message}`)].join("\n"),
+    );
+  }
+  return sections.join("\n\n");
+}
+
+type Add = (change: DocumentChange) => void;
+
+function diffSite(oldDoc: AgentsTxtDocument, newDoc: AgentsTxtDocument, add: Add): void {
+  if (oldDoc.site.url !== newDoc.site.url) {
+    add(changed("site.url", "breaking", "Site URL changed", oldDoc.site.url, newDoc.site.url));
+  }
+  for (const field of ["name", "description", "contact", "privacyPolicy"] as const) {
+    if (oldDoc.site[field] !== newDoc.site[field]) {
+      add(changed(`site.${field}`, "informational", `Site ${field} changed`, oldDoc.site[field], newDoc.site[field]));
+    }
+  }
+  if (oldDoc.specVersion !== newDoc.specVersion) {
+    add(changed("specVersion", "informational", "Spec version changed", oldDoc.specVersion, newDoc.specVersion));
+  }
+  if (oldDoc.declarationType !== newDoc.declarationType) {
+    add(changed("declarationType", "informational", "Declaration type changed", oldDoc.declarationType, newDoc.declarationType));
+  }
+  diffList("operatesOn", oldDoc.operatesOn ?? [], newDoc.operatesOn ?? [], "informational", "informational", "platform", add);
+}
+
+function diffCapabilities(oldDoc: AgentsTxtDocument, newDoc: AgentsTxtDocument, add: Add): void {
+  const oldCaps = new Map(oldDoc.capabilities.map((c) => [c.id, c]));
+  const newCaps = new Map(newDoc.capabilities.map((c) => [c.id, c]));
+
+  for (const [id, cap] of oldCaps) {
+    if (!newCaps.has(id)) {
+      add({ path: `capabilities.${id}`, kind: "removed", severity: "breaking", message: `Capability "${id}" removed`, before: cap });
+    }
+  }
+  for (const [id, cap] of newCaps) {
+    const before = oldCaps.get(id);
+    if (!before) {
+      add({ path: `capabilities.${id}`, kind: "added", severity: "non-breaking", message: `Capability "${id}" added`, after: cap });
+    } else {
+      diffCapability(before, cap, add);
+    }
+  }
+}
+
+function diffCapability(before: Capability, after: Capability, add: Add): void {
+  const path = `capabilities.${after.id}`;
+
+  if (before.endpoint !== after.endpoint) {
+    add(changed(`${path}.endpoint`, "breaking", `Endpoint moved from ${before.endpoint} to ${after.endpoint}`, before.endpoint, after.endpoint));
+  }
+  const oldMethod = before.method ?? "GET";
+  const newMethod = after.method ?? "GET";
+  if (oldMethod !== newMethod) {
+    add(changed(`${path}.method`, "breaking", `Method changed from ${oldMethod} to ${newMethod}`, before.method, after.method));
+  }
+  if (before.protocol !== after.protocol) {
+    add(changed(`${path}.protocol`, "breaking", `Protocol changed from ${before.protocol} to ${after.protocol}`, before.protocol, after.protocol));
+  }
+  if (before.description !== after.description) {
+    add(changed(`${path}.description`, "informational", "Description changed", before.description, after.description));
+  }
+  if (before.openapi !== after.openapi) {
+    add(changed(`${path}.openapi`, "informational", "OpenAPI link changed", before.openapi, after.openapi));
+  }
+
+  diffAuth(path, before.auth, after.auth, add);
+  diffList(`${path}.scopes`, before.scopes ?? [], after.scopes ?? [], "breaking", "non-breaking", "scope", add);
+  diffRateLimit(`${path}.rateLimit`, before.rateLimit, after.rateLimit, add);
+  diffParameters(path, before.parameters ?? [], after.parameters ?? [], add);
+}
+
+function diffAuth(path: string, before: AuthConfig | undefined, after: AuthConfig | undefined, add: Add): void {
+  const oldType = before?.type ?? "none";
+  const newType = after?.type ?? "none";
+  if (oldType !== newType) {
+    const severity = newType === "none" ? "non-breaking" : "breaking";
+    add(changed(`${path}.auth.type`, severity, `Auth changed from ${oldType} to ${newType}`, oldType, newType));
+  }
+  if (before?.tokenEndpoint !== after?.tokenEndpoint && newType !== "none") {
+    add(changed(`${path}.auth.tokenEndpoint`, "breaking", "Auth token endpoint changed", before?.tokenEndpoint, after?.tokenEndpoint));
+  }
+  if (before?.docsUrl !== after?.docsUrl) {
+    add(changed(`${path}.auth.docsUrl`, "informational", "Auth docs link changed", before?.docsUrl, after?.docsUrl));
+  }
+  diffList(`${path}.auth.scopes`, before?.scopes ?? [], after?.scopes ?? [], "breaking", "non-breaking", "scope", add);
+}
+
+function diffRateLimit(path: string, before: RateLimit | undefined, after: RateLimit | undefined, add: Add): void {
+  const oldRate = rate(before);
+  const newRate = rate(after);
+  if (oldRate === newRate && before?.window === after?.window) return;
+
+  const describe = (limit: RateLimit | undefined) => (limit ? formatRateLimit(limit.requests, limit.window) : "unlimited");
+  const message = `Rate limit changed from ${describe(before)} to ${describe(after)}`;
+  const severity = newRate < oldRate ? "breaking" : newRate > oldRate ? "non-breaking" : "informational";
+  add(changed(path, severity, message, before, after));
+}
+
+function diffParameters(capPath: string, before: ParameterDef[], after: ParameterDef[], add: Add): void {
+  const oldParams = new Map(before.map((p) => [p.name, p]));
+  const newParams = new Map(after.map((p) => [p.name, p]));
+
+  for (const [name, param] of oldParams) {
+    if (newParams.has(name)) continue;
+    const severity = param.required || param.in === "path" ? "breaking" : "non-breaking";
+    add({ path: `${capPath}.parameters.${name}`, kind: "removed", severity, message: `Parameter "${name}" removed`, before: param });
+  }
+  for (const [name, param] of newParams) {
+    const path = `${capPath}.parameters.${name}`;
+    const old = oldParams.get(name);
+    if (!old) {
+      const required = param.required || param.in === "path";
+      add({
+        path,
+        kind: "added",
+        severity: required ? "breaking" : "non-breaking",
+        message: required ? `Required parameter "${name}" added` : `Optional parameter "${name}" added`,
+        after: param,
+      });
+      continue;
+    }
+
+    if (old.in !== param.in) {
+      add(changed(`${path}.in`, "breaking", `Parameter "${name}" moved from ${old.in} to ${param.in}`, old.in, param.in));
+    }
+    if (old.type !== param.type) {
+      add(changed(`${path}.type`, "breaking", `Parameter "${name}" type changed from ${old.type} to ${param.type}`, old.type, param.type));
+    }
+    if (!!old.required !== !!param.required) {
+      add(
+        param.required
+          ? changed(`${path}.required`, "breaking", `Parameter "${name}" is now required`, false, true)
+          : changed(`${path}.required`, "non-breaking", `Parameter "${name}" is now optional`, true, false),
+      );
+    }
+    if (old.format !== param.format) {
+      add(changed(`${path}.format`, param.format ? "breaking" : "non-breaking", `Parameter "${name}" format changed`, old.format, param.format));
+    }
+    if (old.min !== param.min) {
+      const tighter = param.min !== undefined && (old.min === undefined || param.min > old.min);
+      add(changed(`${path}.min`, tighter ? "breaking" : "non-breaking", `Parameter "${name}" minimum changed`, old.min, param.min));
+    }
+    if (old.max !== param.max) {
+      const tighter = param.max !== undefined && (old.max === undefined || param.max < old.max);
+      add(changed(`${path}.max`, tighter ? "breaking" : "non-breaking", `Parameter "${name}" maximum changed`, old.max, param.max));
+    }
+    if (JSON.stringify(old.enum) !== JSON.stringify(param.enum)) {
+      const narrowed = param.enum !== undefined && (old.enum === undefined || old.enum.some((v) => !param.enum!.includes(v)));
+      add(changed(`${path}.enum`, narrowed ? "breaking" : "non-breaking", `Parameter "${name}" allowed values changed`, old.enum, param.enum));
+    }
+    if (JSON.stringify(old.default) !== JSON.stringify(param.default)) {
+      add(changed(`${path}.default`, "informational", `Parameter "${name}" default changed`, old.default, param.default));
+    }
+    if (old.description !== param.description) {
+      add(changed(`${path}.description`, "informational", `Parameter "${name}" description changed`, old.description, param.description));
+    }
+  }
+}
+
+function diffAccess(oldDoc: AgentsTxtDocument, newDoc: AgentsTxtDocument, add: Add): void {
+  diffList("access.allow", oldDoc.access.allow, newDoc.access.allow, "non-breaking", "breaking", "Allow rule", add);
+  diffList("access.disallow", oldDoc.access.disallow, newDoc.access.disallow, "breaking", "non-breaking", "Disallow rule", add);
+}
+
+/**
+ * Agents are compared by what they can do: the effective capability set and
+ * agent-level limit each name resolves to in either document.
+ */
+function diffAgents(oldDoc: AgentsTxtDocument, newDoc: AgentsTxtDocument, add: Add): void {
+  const names = [...new Set([...Object.keys(oldDoc.agents), ...Object.keys(newDoc.agents)])];
+  const oldIds = new Set(oldDoc.capabilities.map((c) => c.id));
+  const newIds = new Set(newDoc.capabilities.map((c) => c.id));
+
+  for (const name of names) {
+    const path = `agents.${name}`;
+    const inOld = Object.hasOwn(oldDoc.agents, name);
+    const inNew = Object.hasOwn(newDoc.agents, name);
+    if (inOld !== inNew) {
+      add({
+        path,
+        kind: inNew ? "added" : "removed",
+        severity: "informational",
+        message: inNew ? `Agent block "${name}" added` : `Agent block "${name}" removed`,
+      });
+    }
+
+    const userAgent = name === "*" ? undefined : name;
+    const before = resolveAgentPolicy(oldDoc, userAgent);
+    const after = resolveAgentPolicy(newDoc, userAgent);
+
+    // Capabilities added to or removed from the document are already reported once
+    const lost = before.capabilities.filter((id) => !after.capabilities.includes(id) && newIds.has(id));
+    const gained = after.capabilities.filter((id) => !before.capabilities.includes(id) && oldIds.has(id));
+    for (const id of lost) {
+      add({ path: `${path}.capabilities`, kind: "removed", severity: "breaking", message: `Agent "${name}" lost access to "${id}"`, before: id });
+    }
+    for (const id of gained) {
+      add({ path: `${path}.capabilities`, kind: "added", severity: "non-breaking", message: `Agent "${name}" gained access to "${id}"`, after: id });
+    }
+
+    diffRateLimit(`${path}.rateLimit`, before.rateLimit, after.rateLimit, add);
+    if (before.policy.agentDeclaration !== after.policy.agentDeclaration && inOld && inNew) {
+      add(changed(`${path}.agentDeclaration`, "informational", "Agent declaration link changed", before.policy.agentDeclaration, after.policy.agentDeclaration));
+    }
+  }
+}
+
+function diffMetadata(oldDoc: AgentsTxtDocument, newDoc: AgentsTxtDocument, add: Add): void {
+  const before = oldDoc.metadata ?? {};
+  const after = newDoc.metadata ?? {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (before[key] === after[key]) continue;
+    const kind = !(key in before) ? "added" : !(key in after) ? "removed" : "changed";
+    add({ path: `metadata.${key}`, kind, severity: "informational", message: `Metadata "${key}" ${kind}`, before: before[key], after: after[key] });
+  }
+}
+
+function diffList(
+  path: string,
+  before: string[],
+  after: string[],
+  addedSeverity: ChangeSeverity,
+  removedSeverity: ChangeSeverity,
+  label: string,
+  add: Add,
+): void {
+  for (const value of before) {
+    if (!after.includes(value)) {
+      add({ path, kind: "removed", severity: removedSeverity, message: `${label} "${value}" removed`, before: value });
+    }
+  }
+  for (const value of after) {
+    if (!before.includes(value)) {
+      add({ path, kind: "added", severity: addedSeverity, message: `${label} "${value}" added`, after: value });
+    }
+  }
+}
+
+function changed(path: string, severity: ChangeSeverity, message: string, before: unknown, after: unknown): DocumentChange {
+  return { path, kind: "changed", severity, message, before, after };
+}
+
+/** Requests per millisecond; no limit counts as infinitely permissive. */
+function rate(limit: RateLimit | undefined): number {
+  const ms = limit ? windowToMs(limit.window) : undefined;
+  return limit && ms ? limit.requests / ms : Infinity;
+}
@@ -0,0 +1,137 @@
+import type { AgentsTxtDocument, AuthConfig, Capability, ExportIssue, ExportResult } from "./types.js";
+
+export interface AgentCardSkill {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+}
+
+export interface AgentCard {
+  protocolVersion: string;
+  name: string;
+  description: string;
+  url: string;
+  version: string;
+  provider: { organization: string; url: string };
+  capabilities: Record<string, boolean>;
+  defaultInputModes: string[];
+  defaultOutputModes: string[];
+  skills: AgentCardSkill[];
+  additionalInterfaces?: { url: string; transport: string }[];
+  securitySchemes?: Record<string, Record<string, unknown>>;
+  security?: Record<string, string[]>[];
+}
+
+const A2A_PROTOCOL_VERSION = "0.3.0";
+
+/**
+ * Export a document as an A2A Agent Card.
+ *
+ * For platform declarations the card describes the site's A2A capabilities.
+ * For agent declarations (`Declaration-Type: agent`) it describes the agent
+ * itself, and every capability the agent uses becomes a skill.
+ */
+export function exportAgentCard(doc: AgentsTxtDocument): ExportResult<AgentCard> {
+  const unsupported: ExportIssue[] = [];
+  const isAgent = doc.declarationType === "agent";
+  const a2a = doc.capabilities.filter((c) => c.protocol === "A2A");
+  const skillSources = isAgent ? doc.capabilities : a2a;
+
+  for (const cap of doc.capabilities) {
+    if (!skillSources.includes(cap)) {
+      unsupported.push({ path: `capabilities.${cap.id}`, message: `${cap.protocol} capabilities are not A2A skills` });
+      continue;
+    }
+    if (cap.parameters && cap.parameters.length > 0) {
+      unsupported.push({ path: `capabilities.${cap.id}.parameters`, message: "Agent Card skills have no parameter schema" });
+    }
+    if (cap.rateLimit) {
+      unsupported.push({ path: `capabilities.${cap.id}.rateLimit`, message: "Agent Cards have no rate limits" });
+    }
+  }
+  if (a2a.length === 0 && !isAgent) {
+    unsupported.push({ path: "capabilities", message: "No A2A capabilities; the card points at the site URL" });
+  }
+
+  const primary = a2a[0];
+  const card: AgentCard = {
+    protocolVersion: A2A_PROTOCOL_VERSION,
+    name: doc.site.name,
+    description: doc.site.description ?? doc.site.name,
+    url: primary?.endpoint ?? doc.site.url,
+    version: doc.specVersion,
+    provider: { organization: doc.site.name, url: doc.site.url },
+    capabilities: {},
+    defaultInputModes: ["text/plain", "application/json"],
+    defaultOutputModes: ["text/plain", "application/json"],
+    skills: skillSources.map(toSkill),
+  };
+
+  if (a2a.length > 1) {
+    card.additionalInterfaces = a2a.map((c) => ({ url: c.endpoint, transport: "JSONRPC" }));
+  }
+
+  if (primary?.auth && primary.auth.type !== "none") {
+    const scheme = toSecurityScheme(primary.auth);
+    if (scheme) {
+      card.securitySchemes = { [primary.auth.type]: scheme };
+      card.security = [{ [primary.auth.type]: primary.auth.scopes ?? [] }];
+    } else {
+      unsupported.push({ path: `capabilities.${primary.id}.auth`, message: `Auth type "${primary.auth.type}" has no A2A security scheme` });
+    }
+  }
+  for (const cap of a2a.slice(1)) {
+    if (cap.auth && cap.auth.type !== primary.auth?.type) {
+      unsupported.push({ path: `capabilities.${cap.id}.auth`, message: "Only the primary interface's auth is described" });
+    }
+  }
+
+  if (doc.operatesOn) {
+    unsupported.push({ path: "operatesOn", message: "Agent Cards do not list the platforms an agent operates on" });
+  }
+  if (doc.access.disallow.length > 0 || doc.access.allow.some((p) => p !== "*")) {
+    unsupported.push({ path: "access", message: "Allow/Disallow rules are not part of Agent Cards" });
+  }
+  for (const [name, policy] of Object.entries(doc.agents)) {
+    if (policy.rateLimit || policy.capabilities || policy.agentDeclaration) {
+      unsupported.push({ path: `agents.${name}`, message: "Per-agent policies are not part of Agent Cards" });
+    }
+  }
+
+  return { output: card, unsupported };
+}
+
+function toSkill(cap: Capability): AgentCardSkill {
+  return {
+    id: cap.id,
+    name: cap.id
+      .split("-")
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(" "),
+    description: cap.description,
+    tags: [cap.protocol.toLowerCase(), ...(cap.method ? [cap.method.toLowerCase()] : [])],
+  };
+}
+
+function toSecurityScheme(auth: AuthConfig): Record<string, unknown> | null {
+  switch (auth.type) {
+    case "api-key":
+      return { type: "apiKey", in: "header", name: "X-API-Key" };
+    case "bearer-token":
+      return { type: "http", scheme: "bearer" };
+    case "oauth2":
+      if (!auth.tokenEndpoint) return null;
+      return {
+        type: "oauth2",
+        flows: {
+          clientCredentials: {
+            tokenUrl: auth.tokenEndpoint,
+            scopes: Object.fromEntries((auth.scopes ?? []).map((s) => [s, s])),
+          },
+        },
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,87 @@
+import type { AgentsTxtDocument, Capability, ExportIssue, ExportResult } from "./types.js";
+import { formatRateLimit, sanitizeValue } from "./utils.js";
+
+/**
+ * Export a document as an llms.txt-style markdown summary: an H1 title, a
+ * blockquote summary, and link lists of capabilities and related files.
+ */
+export function exportLlmsTxt(doc: AgentsTxtDocument): ExportResult<string> {
+  const unsupported: ExportIssue[] = [];
+  const lines: string[] = [];
+  const text = (value: string) => sanitizeValue(value, Infinity);
+
+  lines.push(`# ${text(doc.site.name)}`);
+  lines.push("");
+  if (doc.site.description) {
+    lines.push(`> ${text(doc.site.description)}`);
+    lines.push("");
+  }
+
+  const details: string[] = [];
+  if (doc.declarationType === "agent") {
+    details.push(`This is an agent declaration. The agent operates on: ${(doc.operatesOn ?? []).join(", ") || "no platforms listed"}.`);
+  }
+  if (doc.site.contact) details.push(`Contact: ${text(doc.site.contact)}`);
+  if (doc.access.disallow.length > 0) {
+    details.push(`Agents must not access: ${doc.access.disallow.map((p) => `\`${p}\``).join(", ")}`);
+  }
+  if (details.length > 0) {
+    lines.push(...details.map((d) => `${d}  `));
+    lines.push("");
+  }
+
+  if (doc.capabilities.length > 0) {
+    lines.push("## Capabilities");
+    lines.push("");
+    for (const cap of doc.capabilities) {
+      lines.push(`- [${cap.id}](${cap.endpoint}): ${text(cap.description)} (${capabilityNotes(cap)})`);
+      for (const param of cap.parameters ?? []) {
+        const flags = [param.in, param.type, ...(param.required ? ["required"] : [])].join(", ");
+        lines.push(`  - \`${param.name}\` (${flags})${param.description ? `: ${text(param.description)}` : ""}`);
+        if (param.default !== undefined || param.min !== undefined || param.max !== undefined || param.enum || param.format) {
+          unsupported.push({
+            path: `capabilities.${cap.id}.parameters.${param.name}`,
+            message: "Parameter constraints are not listed in llms.txt",
+          });
+        }
+      }
+    }
+    lines.push("");
+  }
+
+  const links: string[] = [];
+  if (doc.site.privacyPolicy) links.push(`- [Privacy policy](${doc.site.privacyPolicy})`);
+  const openapi = [...new Set(doc.capabilities.map((c) => c.openapi).filter((u): u is string => !!u))];
+  for (const url of openapi) links.push(`- [OpenAPI specification](${url})`);
+  const agentsJson = doc.metadata?.["Agents-JSON"];
+  if (agentsJson) links.push(`- [agents.json](${agentsJson})`);
+  if (links.length > 0) {
+    lines.push("## Optional");
+    lines.push("");
+    lines.push(...links);
+    lines.push("");
+  }
+
+  if (doc.access.allow.some((p) => p !== "*")) {
+    unsupported.push({ path: "access.allow", message: "Allow rules are not listed in llms.txt" });
+  }
+  for (const [name, policy] of Object.entries(doc.agents)) {
+    if (policy.rateLimit || policy.capabilities || policy.agentDeclaration) {
+      unsupported.push({ path: `agents.${name}`, message: "Per-agent policies are not listed in llms.txt" });
+    }
+  }
+  for (const key of Object.keys(doc.metadata ?? {})) {
+    if (key !== "Agents-JSON") {
+      unsupported.push({ path: `metadata.${key}`, message: "Metadata is not listed in llms.txt" });
+    }
+  }
+
+  return { output: lines.join("\n"), unsupported };
+}
+
+function capabilityNotes(cap: Capability): string {
+  const notes = [cap.method ? `${cap.method} ${cap.protocol}` : cap.protocol];
+  notes.push(`auth: ${cap.auth?.type ?? "none"}`);
+  if (cap.rateLimit) notes.push(`limit: ${formatRateLimit(cap.rateLimit.requests, cap.rateLimit.window)}`);
+  return notes.join(", ");
+}
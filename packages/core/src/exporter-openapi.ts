@@ -0,0 +1,188 @@
+import type { AgentsTxtDocument, AuthConfig, ExportIssue, ExportResult, ParameterDef } from "./types.js";
+
+type JSONObject = Record<string, unknown>;
+
+/**
+ * Export the REST capabilities of a document as an OpenAPI 3.1 skeleton.
+ * Each capability becomes one operation; everything else is reported as unsupported.
+ */
+export function exportOpenAPI(doc: AgentsTxtDocument): ExportResult<JSONObject> {
+  const unsupported: ExportIssue[] = [];
+  const servers: string[] = [];
+  const paths: Record<string, JSONObject> = {};
+  const securitySchemes: Record<string, JSONObject> = {};
+
+  for (const cap of doc.capabilities) {
+    const path = `capabilities.${cap.id}`;
+    if (cap.protocol !== "REST") {
+      unsupported.push({ path, message: `${cap.protocol} capabilities have no OpenAPI representation` });
+      continue;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(cap.endpoint);
+    } catch {
+      unsupported.push({ path: `${path}.endpoint`, message: `Endpoint is not an absolute URL: ${cap.endpoint}` });
+      continue;
+    }
+
+    if (!servers.includes(url.origin)) servers.push(url.origin);
+    // Colon-style placeholders become OpenAPI templates: /items/:id -> /items/{id}
+    let pathname = url.pathname;
+    try {
+      pathname = decodeURI(pathname);
+    } catch {
+      unsupported.push({ path: `${path}.endpoint`, message: "Endpoint path has malformed percent-encoding; kept as written" });
+    }
+    const template = pathname.replace(/:(\w+)/g, "{$1}");
+    const method = (cap.method ?? "GET").toLowerCase();
+    const pathItem = (paths[template] ??= {});
+
+    if (pathItem[method]) {
+      unsupported.push({ path, message: `Duplicate operation ${method.toUpperCase()} ${template}` });
+      continue;
+    }
+    if (url.origin !== servers[0]) {
+      pathItem.servers = [{ url: url.origin }];
+    }
+    if (url.search) {
+      unsupported.push({ path: `${path}.endpoint`, message: "Fixed query strings in endpoints are not represented" });
+    }
+
+    const operation: JSONObject = {
+      operationId: cap.id,
+      summary: cap.description,
+      responses: { "200": { description: "Successful response" } },
+    };
+
+    const params = (cap.parameters ?? []).filter((p) => p.in !== "body");
+    const bodyParams = (cap.parameters ?? []).filter((p) => p.in === "body");
+    if (params.length > 0) {
+      operation.parameters = params.map((p) => ({
+        name: p.name,
+        in: p.in,
+        required: p.in === "path" ? true : p.required ?? false,
+        ...(p.description ? { description: p.description } : {}),
+        schema: toSchema(p),
+      }));
+    }
+    if (bodyParams.length > 0) {
+      const required = bodyParams.filter((p) => p.required).map((p) => p.name);
+      operation.requestBody = {
+        required: required.length > 0,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: Object.fromEntries(
+                bodyParams.map((p) => [p.name, { ...toSchema(p), ...(p.description ? { description: p.description } : {}) }]),
+              ),
+              ...(required.length > 0 ? { required } : {}),
+            },
+          },
+        },
+      };
+    }
+
+    if (cap.auth) {
+      const scheme = toSecurityScheme(cap.auth);
+      if (typeof scheme === "string") {
+        unsupported.push({ path: `${path}.auth`, message: scheme });
+      } else if (cap.auth.type !== "none") {
+        const name = schemeName(securitySchemes, cap.auth.type, scheme);
+        operation.security = [{ [name]: cap.auth.scopes ?? cap.scopes ?? [] }];
+      } else {
+        operation.security = [];
+      }
+    }
+    if (cap.rateLimit) {
+      unsupported.push({ path: `${path}.rateLimit`, message: "Rate limits are not part of OpenAPI" });
+    }
+    if (cap.openapi) {
+      operation.externalDocs = { url: cap.openapi };
+    }
+
+    pathItem[method] = operation;
+  }
+
+  reportDocumentLevel(doc, unsupported);
+
+  const info: JSONObject = { title: doc.site.name, version: doc.specVersion };
+  if (doc.site.description) info.description = doc.site.description;
+  if (doc.site.contact) info.contact = { email: doc.site.contact };
+
+  const output: JSONObject = { openapi: "3.1.0", info };
+  if (servers.length > 0) output.servers = [{ url: servers[0] }];
+  output.paths = paths;
+  if (Object.keys(securitySchemes).length > 0) output.components = { securitySchemes };
+
+  return { output, unsupported };
+}
+
+function toSchema(param: ParameterDef): JSONObject {
+  const schema: JSONObject = { type: param.type };
+  const isString = param.type === "string";
+  if (param.default !== undefined) schema.default = param.default;
+  if (param.min !== undefined) schema[isString ? "minLength" : "minimum"] = param.min;
+  if (param.max !== undefined) schema[isString ? "maxLength" : "maximum"] = param.max;
+  if (param.enum) schema.enum = param.enum;
+  if (param.format) schema.format = param.format;
+  return schema;
+}
+
+/** Map an auth config to a security scheme, or explain why it cannot be. */
+function toSecurityScheme(auth: AuthConfig): JSONObject | string {
+  const description = auth.docsUrl ? { description: `See ${auth.docsUrl}` } : {};
+  switch (auth.type) {
+    case "api-key":
+      return { type: "apiKey", in: "header", name: "X-API-Key", ...description };
+    case "bearer-token":
+      return { type: "http", scheme: "bearer", ...description };
+    case "none":
+      return {};
+    case "oauth2": {
+      if (!auth.tokenEndpoint) return "OAuth2 without an Auth-Endpoint has no OpenAPI token URL";
+      const scopes = Object.fromEntries((auth.scopes ?? []).map((s) => [s, s]));
+      return {
+        type: "oauth2",
+        flows: { clientCredentials: { tokenUrl: auth.tokenEndpoint, scopes } },
+        ...description,
+      };
+    }
+    default:
+      return `Auth type "${auth.type}" has no OpenAPI security scheme`;
+  }
+}
+
+/** Reuse an identical scheme if one exists, otherwise register it under a free name. */
+function schemeName(schemes: Record<string, JSONObject>, type: string, scheme: JSONObject): string {
+  const serialized = JSON.stringify(scheme);
+  for (const [name, existing] of Object.entries(schemes)) {
+    if (JSON.stringify(existing) === serialized) return name;
+  }
+  let name = type;
+  for (let n = 2; schemes[name]; n++) name = `${type}-${n}`;
+  schemes[name] = scheme;
+  return name;
+}
+
+function reportDocumentLevel(doc: AgentsTxtDocument, unsupported: ExportIssue[]): void {
+  if (doc.access.disallow.length > 0 || doc.access.allow.some((p) => p !== "*")) {
+    unsupported.push({ path: "access", message: "Allow/Disallow rules are not part of OpenAPI" });
+  }
+  for (const [name, policy] of Object.entries(doc.agents)) {
+    if (policy.rateLimit || policy.capabilities || policy.agentDeclaration) {
+      unsupported.push({ path: `agents.${name}`, message: "Per-agent policies are not part of OpenAPI" });
+    }
+  }
+  if (doc.declarationType === "agent" || doc.operatesOn) {
+    unsupported.push({ path: "operatesOn", message: "Agent declarations are not part of OpenAPI" });
+  }
+  if (doc.site.privacyPolicy) {
+    unsupported.push({ path: "site.privacyPolicy", message: "Privacy policy URL is not part of OpenAPI info" });
+  }
+  for (const key of Object.keys(doc.metadata ?? {})) {
+    unsupported.push({ path: `metadata.${key}`, message: "Metadata is not part of OpenAPI" });
+  }
+}
@@ -0,0 +1,391 @@
+import type { LookupFunction } from "node:net";
+import { registrableDomain } from "./scope.js";
+import type { Transport } from "./transport.js";
+
+/**
+ * agents.txt - Guarded fetching
+ *
+ * Discovery often runs against user-supplied domains. These helpers follow
+ * redirects one hop at a time so every URL can be checked (scheme, site,
+ * resolved IP addresses) and cap how much of a body is read. Every failure
+ * is a FetchError subclass with a stable `code`.
+ */
+
+export type FetchErrorCode =
+  | "HTTP_STATUS"
+  | "BODY_TOO_LARGE"
+  | "INSECURE_URL"
+  | "TOO_MANY_REDIRECTS"
+  | "CROSS_SITE_REDIRECT"
+  | "BLOCKED_ADDRESS"
+  | "CONTENT_TYPE"
+  | "TIMEOUT"
+  | "NETWORK";
+
+export class FetchError extends Error {
+  readonly code: FetchErrorCode;
+  /** The URL being fetched when the error occurred (after any redirects). */
+  readonly url: string;
+
+  constructor(code: FetchErrorCode, url: string, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "FetchError";
+    this.code = code;
+    this.url = url;
+  }
+}
+
+export class HttpStatusError extends FetchError {
+  readonly status: number;
+
+  constructor(url: string, status: number) {
+    super("HTTP_STATUS", url, `${url} returned HTTP ${status}`);
+    this.name = "HttpStatusError";
+    this.status = status;
+  }
+}
+
+export class BodyTooLargeError extends FetchError {
+  readonly limit: number;
+
+  constructor(url: string, limit: number) {
+    super("BODY_TOO_LARGE", url, `${url} is larger than ${limit} bytes`);
+    this.name = "BodyTooLargeError";
+    this.limit = limit;
+  }
+}
+
+export class InsecureUrlError extends FetchError {
+  constructor(url: string) {
+    super("INSECURE_URL", url, `${url} is not HTTPS`);
+    this.name = "InsecureUrlError";
+  }
+}
+
+export class TooManyRedirectsError extends FetchError {
+  readonly limit: number;
+
+  constructor(url: string, limit: number) {
+    super("TOO_MANY_REDIRECTS", url, `${url} redirected more than ${limit} times`);
+    this.name = "TooManyRedirectsError";
+    this.limit = limit;
+  }
+}
+
+export class CrossSiteRedirectError extends FetchError {
+  readonly location: string;
+
+  constructor(url: string, location: string) {
+    super("CROSS_SITE_REDIRECT", url, `${url} redirected to another site: ${location}`);
+    this.name = "CrossSiteRedirectError";
+    this.location = location;
+  }
+}
+
+export class BlockedAddressError extends FetchError {
+  readonly address: string;
+
+  constructor(url: string, address: string) {
+    super("BLOCKED_ADDRESS", url, `${url} resolves to a private or reserved address: ${address}`);
+    this.name = "BlockedAddressError";
+    this.address = address;
+  }
+}
+
+export class ContentTypeError extends FetchError {
+  readonly contentType: string;
+
+  constructor(url: string, contentType: string, expected: string) {
+    super("CONTENT_TYPE", url, `${url} has Content-Type "${contentType || "(none)"}", expected ${expected}`);
+    this.name = "ContentTypeError";
+    this.contentType = contentType;
+  }
+}
+
+export class FetchTimeoutError extends FetchError {
+  constructor(url: string, timeout: number) {
+    super("TIMEOUT", url, `${url} did not respond within ${timeout} ms`);
+    this.name = "FetchTimeoutError";
+  }
+}
+
+export class NetworkError extends FetchError {
+  constructor(url: string, cause: unknown) {
+    super("NETWORK", url, `${url} could not be fetched: ${cause instanceof Error ? cause.message : String(cause)}`, {
+      cause,
+    });
+    this.name = "NetworkError";
+  }
+}
+
+export interface FetchPolicy {
+  /** Refuse http: URLs, including redirect targets. */
+  httpsOnly?: boolean;
+  /** Maximum number of redirects to follow. */
+  maxRedirects: number;
+  /** Only follow redirects within the same registrable domain. */
+  sameSiteRedirects?: boolean;
+  /**
+   * Refuse hosts that resolve to private, loopback, link-local or otherwise
+   * reserved addresses. Without a transport, requests are made with
+   * node:http(s) and the addresses are checked as the connection is made, so
+   * the address checked is the address connected to. A transport is only
+   * checked beforehand.
+   */
+  blockPrivateAddresses?: boolean;
+  /** Makes each request. Default: the global fetch. */
+  transport?: Transport;
+  /** Awaited before following each redirect, with the URL about to be requested. */
+  throttle?: (url: string) => Promise<void>;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Fetch a URL under a policy, following redirects one hop at a time.
+ * Returns the final response (any status, including 304) and its URL.
+ */
+export async function guardedFetch(
+  url: string,
+  init: { headers: Record<string, string>; signal?: AbortSignal },
+  policy: FetchPolicy,
+): Promise<{ response: Response; url: string }> {
+  // Connections made here check their own addresses; a transport's are checked beforehand
+  const pinned = policy.blockPrivateAddresses === true && !policy.transport;
+  const transport = policy.transport ?? (pinned ? checkedRequest : fetch);
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    await checkUrl(current, policy, !pinned);
+
+    let response: Response;
+    try {
+      response = await transport(current, { headers: init.headers, signal: init.signal, redirect: "manual" });
+    } catch (err) {
+      throw err instanceof FetchError ? err : new NetworkError(current, err);
+    }
+
+    const location = response.headers.get("location");
+    if (!REDIRECT_STATUSES.has(response.status) || !location) return { response, url: current };
+
+    await response.body?.cancel();
+    if (redirects >= policy.maxRedirects) throw new TooManyRedirectsError(url, policy.maxRedirects);
+    const next = new URL(location, current).href;
+    if (policy.sameSiteRedirects && !sameSite(current, next)) throw new CrossSiteRedirectError(current, next);
+    current = next;
+    await policy.throttle?.(current);
+  }
+}
+
+/**
+ * Read a response body as text, stopping as soon as it exceeds `maxBytes`.
+ */
+export async function readBody(response: Response, url: string, maxBytes?: number): Promise<string> {
+  if (maxBytes === undefined || !response.body) return response.text();
+
+  const declared = Number(response.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    await response.body.cancel();
+    throw new BodyTooLargeError(url, maxBytes);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new BodyTooLargeError(url, maxBytes);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * True for addresses an agent should never be sent to on behalf of a remote
+ * site: private, loopback, link-local, CGNAT, multicast and reserved ranges,
+ * including IPv4 addresses embedded in IPv6.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, "").replace(/%.*$/, "");
+  const v4 = parseIPv4(ip);
+  if (v4) return isPrivateIPv4(v4);
+
+  const v6 = parseIPv6(ip);
+  if (!v6) return false;
+  const embedded = embeddedIPv4(v6);
+  if (embedded) return isPrivateIPv4(embedded);
+
+  const [first] = v6;
+  if (v6.every((part) => part === 0)) return true; // ::
+  if (v6.slice(0, 7).every((part) => part === 0) && v6[7] === 1) return true; // ::1
+  if ((first & 0xfe00) === 0xfc00) return true; // fc00::/7 unique local
+  if ((first & 0xffc0) === 0xfe80) return true; // fe80::/10 link-local
+  if ((first & 0xffc0) === 0xfec0) return true; // fec0::/10 site-local
+  if ((first & 0xff00) === 0xff00) return true; // ff00::/8 multicast
+  if (first === 0x2001 && v6[1] === 0x0db8) return true; // 2001:db8::/32 documentation
+  return false;
+}
+
+/**
+ * Check a URL's scheme, and its host when it is an IP address. With
+ * `resolve`, a host name is looked up and checked too.
+ */
+async function checkUrl(url: string, policy: FetchPolicy, resolve: boolean): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (err) {
+    throw new NetworkError(url, err);
+  }
+  if (policy.httpsOnly && parsed.protocol !== "https:") throw new InsecureUrlError(url);
+  if (!policy.blockPrivateAddresses) return;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  if (parseIPv4(host) || parseIPv6(host)) {
+    addresses = [host];
+  } else if (!resolve) {
+    return;
+  } else {
+    // Loaded on first use so the core stays usable outside Node.js
+    const { lookup } = await import("node:dns/promises");
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+    } catch (err) {
+      throw new NetworkError(url, err);
+    }
+  }
+  // A transport resolves the host again when connecting; a DNS answer that changes in between is not caught
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) throw new BlockedAddressError(url, blocked);
+}
+
+/**
+ * Make a request with node:http(s), refusing to connect to any address the
+ * host resolves to that isPrivateAddress() flags. The lookup happens as the
+ * connection is made, so a changed DNS answer cannot slip past it.
+ */
+async function checkedRequest(url: string, init: RequestInit = {}): Promise<Response> {
+  const [http, https, dns, { Readable }] = await Promise.all([
+    import("node:http"),
+    import("node:https"),
+    import("node:dns"),
+    import("node:stream"),
+  ]);
+  const target = new URL(url);
+  const request = target.protocol === "https:" ? https.request : http.request;
+
+  const lookup: LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) return callback(err, []);
+      const blocked = addresses.find((a) => isPrivateAddress(a.address));
+      if (blocked) return callback(new BlockedAddressError(url, blocked.address), []);
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      { headers: init.headers as Record<string, string> | undefined, signal: init.signal ?? undefined, lookup },
+      (res) => {
+        const headers = new Headers();
+        for (let i = 0; i + 1 < res.rawHeaders.length; i += 2) headers.append(res.rawHeaders[i], res.rawHeaders[i + 1]);
+        const status = res.statusCode ?? 0;
+        const empty = status === 204 || status === 205 || status === 304;
+        if (empty) res.resume();
+        try {
+          const body = empty ? null : (Readable.toWeb(res) as ReadableStream<Uint8Array>);
+          resolve(new Response(body, { status, statusText: res.statusMessage, headers }));
+        } catch (err) {
+          res.destroy();
+          reject(err);
+        }
+      },
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+/** Whether two URLs share a registrable domain. False if either does not parse. */
+export function sameSite(a: string, b: string): boolean {
+  if (!URL.canParse(a) || !URL.canParse(b)) return false;
+  const hostA = new URL(a).hostname;
+  const hostB = new URL(b).hostname;
+  return (registrableDomain(hostA) ?? hostA) === (registrableDomain(hostB) ?? hostB);
+}
+
+function isPrivateIPv4([a, b, c]: number[]): boolean {
+  return (
+    a === 0 || // 0.0.0.0/8
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // CGNAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 0 && c === 2) || // documentation
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    (a === 198 && b === 51 && c === 100) ||
+    (a === 203 && b === 0 && c === 113) ||
+    a >= 224 // multicast, reserved, broadcast
+  );
+}
+
+function parseIPv4(value: string): number[] | null {
+  const parts = value.split(".");
+  if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p))) return null;
+  const nums = parts.map(Number);
+  return nums.every((n) => n <= 255) ? nums : null;
+}
+
+/** Parse an IPv6 address into eight 16-bit groups. */
+function parseIPv6(value: string): number[] | null {
+  if (!value.includes(":")) return null;
+  let text = value.toLowerCase();
+
+  // A trailing dotted IPv4 part counts as two groups
+  const tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const v4 = parseIPv4(tail[1]);
+    if (!v4) return null;
+    const hex = `${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+    text = text.slice(0, -tail[1].length) + hex;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const parse = (part: string) => (part === "" ? [] : part.split(":"));
+  const head = parse(halves[0]);
+  const rest = halves.length === 2 ? parse(halves[1]) : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+  if (!groups.every((g) => /^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.map((g) => parseInt(g, 16));
+}
+
+/** IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses. */
+function embeddedIPv4(groups: number[]): number[] | null {
+  const zeros = (from: number, to: number) => groups.slice(from, to).every((g) => g === 0);
+  const mapped = zeros(0, 5) && groups[5] === 0xffff;
+  const compatible = zeros(0, 6) && (groups[6] !== 0 || groups[7] > 1);
+  const nat64 = groups[0] === 0x64 && groups[1] === 0xff9b && zeros(2, 6);
+  if (!mapped && !compatible && !nat64) return null;
+  return [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+}
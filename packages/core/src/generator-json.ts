@@ -1,8 +1,10 @@
 import type { AgentsTxtDocument } from "./types.js";
+import { prepareDocument } from "./generator.js";
+import type { GenerateOptions } from "./generator.js";
 
 /**
  * Generate agents.json from a document object.
  */
-export function generateJSON(doc: AgentsTxtDocument): string {
-  return JSON.stringify(doc, null, 2);
+export function generateJSON(doc: AgentsTxtDocument, options: GenerateOptions = {}): string {
+  return JSON.stringify(prepareDocument(doc, options), null, options.indent ?? 2);
 }
@@ -1,11 +1,74 @@
-import type { AgentsTxtDocument } from "./types.js";
+import type { AgentsTxtDocument, Capability, AgentPolicy, ParameterDef } from "./types.js";
 import { sanitizeValue, formatRateLimit } from "./utils.js";
+import { detectSecrets, SecretLeakError } from "./secrets.js";
+
+export interface GenerateOptions {
+  /** Timestamp to write. A string pins it, `false` omits it. Default: the document's `generatedAt`. */
+  generatedAt?: string | false;
+  /** Sort capabilities by ID, agents by name (`*` first) and metadata by key. Default: false (document order). */
+  sort?: boolean;
+  /** Site key spelling: "short" (`Description`) or "site" (`Site-Description`). Text only. Default: "short". */
+  keyStyle?: "short" | "site";
+  /** Leave out `Allow: *` and an empty `Agent: *` block, which parsers assume anyway. Text only. Default: false. */
+  omitDefaults?: boolean;
+  /** Extra comment lines written below the header. Text only. */
+  headerComments?: string[];
+  /** Write a comment line above each section. Text only. Default: false. */
+  sectionSeparators?: boolean;
+  /** JSON indentation, as for JSON.stringify. JSON only. Default: 2. */
+  indent?: number | string;
+  /** Publish even if the document looks like it contains credentials. Default: false (throw SecretLeakError). */
+  allowSecrets?: boolean;
+}
+
+/**
+ * Apply the document-level generator options (timestamp, canonical ordering).
+ * Identical input and options always give an identical document.
+ * Throws SecretLeakError if the document contains credentials, unless `allowSecrets` is set.
+ */
+export function prepareDocument(doc: AgentsTxtDocument, options: GenerateOptions = {}): AgentsTxtDocument {
+  if (!options.allowSecrets) {
+    const findings = detectSecrets(doc);
+    if (findings.length > 0) throw new SecretLeakError(findings);
+  }
+
+  const prepared: AgentsTxtDocument = { ...doc };
+
+  if (options.generatedAt === false) {
+    delete prepared.generatedAt;
+  } else if (options.generatedAt !== undefined) {
+    prepared.generatedAt = options.generatedAt;
+  }
+
+  if (options.sort) {
+    prepared.capabilities = [...doc.capabilities].sort((a, b) => compareStrings(a.id, b.id));
+    prepared.agents = Object.fromEntries(
+      Object.entries(doc.agents).sort(([a], [b]) => (a === "*" ? -1 : b === "*" ? 1 : compareStrings(a, b))),
+    );
+    if (doc.metadata) {
+      prepared.metadata = Object.fromEntries(Object.entries(doc.metadata).sort(([a], [b]) => compareStrings(a, b)));
+    }
+  }
+
+  return prepared;
+}
+
+/** Locale-independent string comparison, so output does not depend on the build machine. */
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
 
 /**
  * Generate agents.txt text format from a document object.
+ * Throws a TypeError for a parameter default the text format cannot carry.
  */
-export function generate(doc: AgentsTxtDocument): string {
+export function generate(input: AgentsTxtDocument, options: GenerateOptions = {}): string {
+  const doc = prepareDocument(input, options);
   const lines: string[] = [];
+  const siteKey = (short: string) => (options.keyStyle === "site" ? `Site-${short}` : short);
+  const section = (title: string) => {
+    if (options.sectionSeparators) lines.push(`# --- ${title} ---`);
+  };
 
   // Header
   lines.push("# agents.txt - AI Agent Capability Declaration");
@@ -13,6 +76,10 @@ export function generate(doc: AgentsTxtDocument): string {
   if (doc.generatedAt) {
     lines.push(`# Generated: ${doc.generatedAt}`);
   }
+  for (const comment of options.headerComments ?? []) {
+    const text = sanitizeValue(comment, Infinity);
+    lines.push(text.startsWith("#") ? text : `# ${text}`.trimEnd());
+  }
   lines.push("");
 
   // Declaration type
@@ -32,86 +99,57 @@ export function generate(doc: AgentsTxtDocument): string {
   }
 
   // Site info
+  section("Site");
   lines.push(`Site-Name: ${sanitizeValue(doc.site.name)}`);
   lines.push(`Site-URL: ${sanitizeValue(doc.site.url)}`);
   if (doc.site.description) {
-    lines.push(`Description: ${sanitizeValue(doc.site.description)}`);
+    lines.push(`${siteKey("Description")}: ${sanitizeValue(doc.site.description)}`);
   }
   if (doc.site.contact) {
-    lines.push(`Contact: ${sanitizeValue(doc.site.contact)}`);
+    lines.push(`${siteKey("Contact")}: ${sanitizeValue(doc.site.contact)}`);
   }
   if (doc.site.privacyPolicy) {
-    lines.push(`Privacy-Policy: ${sanitizeValue(doc.site.privacyPolicy)}`);
+    lines.push(`${siteKey("Privacy-Policy")}: ${sanitizeValue(doc.site.privacyPolicy)}`);
   }
   lines.push("");
 
   // Capabilities
+  if (doc.capabilities.length > 0) section("Capabilities");
   for (const cap of doc.capabilities) {
-    lines.push(`Capability: ${cap.id}`);
-    lines.push(`  Endpoint: ${cap.endpoint}`);
-    if (cap.method) {
-      lines.push(`  Method: ${cap.method}`);
-    }
-    lines.push(`  Protocol: ${cap.protocol}`);
-    if (cap.auth) {
-      lines.push(`  Auth: ${cap.auth.type}`);
-      if (cap.auth.tokenEndpoint) {
-        lines.push(`  Auth-Endpoint: ${cap.auth.tokenEndpoint}`);
-      }
-      if (cap.auth.docsUrl) {
-        lines.push(`  Auth-Docs: ${cap.auth.docsUrl}`);
-      }
-      if (cap.auth.scopes && cap.auth.scopes.length > 0) {
-        lines.push(`  Scopes: ${cap.auth.scopes.join(", ")}`);
-      }
-    }
-    if (cap.rateLimit) {
-      lines.push(`  Rate-Limit: ${formatRateLimit(cap.rateLimit.requests, cap.rateLimit.window)}`);
-    }
-    if (cap.description) {
-      lines.push(`  Description: ${sanitizeValue(cap.description)}`);
-    }
-    if (cap.openapi) {
-      lines.push(`  OpenAPI: ${cap.openapi}`);
-    }
-    if (cap.parameters) {
-      for (const param of cap.parameters) {
-        const parts = [param.in, param.type];
-        if (param.required) parts.push("required");
-        let line = `  Param: ${param.name} (${parts.join(", ")})`;
-        if (param.description) line += ` - ${sanitizeValue(param.description)}`;
-        lines.push(line);
-      }
-    }
+    lines.push(...formatCapability(cap));
     lines.push("");
   }
 
   // Access control
-  for (const pattern of doc.access.allow) {
-    lines.push(`Allow: ${pattern}`);
-  }
-  for (const pattern of doc.access.disallow) {
-    lines.push(`Disallow: ${pattern}`);
+  const allow = options.omitDefaults && isDefaultAllow(doc.access.allow) ? [] : doc.access.allow;
+  if (allow.length > 0 || doc.access.disallow.length > 0) {
+    section("Access Control");
+    for (const pattern of allow) {
+      lines.push(`Allow: ${pattern}`);
+    }
+    for (const pattern of doc.access.disallow) {
+      lines.push(`Disallow: ${pattern}`);
+    }
+    lines.push("");
+  } else if (!options.omitDefaults) {
+    lines.push("");
   }
-  lines.push("");
 
   // Agent policies
-  for (const [agent, policy] of Object.entries(doc.agents)) {
-    lines.push(`Agent: ${agent}`);
-    if (policy.rateLimit) {
-      lines.push(`  Rate-Limit: ${formatRateLimit(policy.rateLimit.requests, policy.rateLimit.window)}`);
-    }
-    if (policy.capabilities && policy.capabilities.length > 0) {
-      lines.push(`  Capabilities: ${policy.capabilities.join(", ")}`);
-    }
-    if (policy.agentDeclaration) {
-      lines.push(`  Agent-Declaration: ${policy.agentDeclaration}`);
-    }
+  const agents = Object.entries(doc.agents).filter(
+    ([agent, policy]) => !(options.omitDefaults && agent === "*" && isEmptyPolicy(policy)),
+  );
+  if (agents.length > 0) section("Agents");
+  for (const [agent, policy] of agents) {
+    lines.push(...formatAgent(agent, policy));
+  }
+  if (agents.length > 0 || !options.omitDefaults) {
+    lines.push("");
   }
-  lines.push("");
 
   // Metadata
-  if (doc.metadata) {
+  if (doc.metadata && Object.keys(doc.metadata).length > 0) {
+    section("Metadata");
     for (const [key, value] of Object.entries(doc.metadata)) {
       lines.push(`${key}: ${sanitizeValue(value)}`);
     }
@@ -119,3 +157,106 @@ export function generate(doc: AgentsTxtDocument): string {
 
   return lines.join("\n") + "\n";
 }
+
+function isDefaultAllow(allow: string[]): boolean {
+  return allow.length === 1 && allow[0] === "*";
+}
+
+function isEmptyPolicy(policy: AgentPolicy): boolean {
+  return !policy.rateLimit && !(policy.capabilities && policy.capabilities.length > 0) && !policy.agentDeclaration;
+}
+
+/**
+ * Format a single capability block (header plus indented fields).
+ */
+export function formatCapability(cap: Capability): string[] {
+  const lines: string[] = [];
+  lines.push(`Capability: ${cap.id}`);
+  lines.push(`  Endpoint: ${cap.endpoint}`);
+  if (cap.method) {
+    lines.push(`  Method: ${cap.method}`);
+  }
+  lines.push(`  Protocol: ${cap.protocol}`);
+  if (cap.auth) {
+    lines.push(`  Auth: ${cap.auth.type}`);
+    if (cap.auth.tokenEndpoint) {
+      lines.push(`  Auth-Endpoint: ${cap.auth.tokenEndpoint}`);
+    }
+    if (cap.auth.docsUrl) {
+      lines.push(`  Auth-Docs: ${cap.auth.docsUrl}`);
+    }
+    if (cap.auth.scopes && cap.auth.scopes.length > 0) {
+      lines.push(`  Scopes: ${cap.auth.scopes.join(", ")}`);
+    }
+  }
+  if (cap.rateLimit) {
+    lines.push(`  Rate-Limit: ${formatRateLimit(cap.rateLimit.requests, cap.rateLimit.window)}`);
+  }
+  if (cap.description) {
+    lines.push(`  Description: ${sanitizeValue(cap.description)}`);
+  }
+  if (cap.openapi) {
+    lines.push(`  OpenAPI: ${cap.openapi}`);
+  }
+  if (cap.parameters) {
+    for (const param of cap.parameters) {
+      lines.push(`  Param: ${formatParam(param)}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Format a single agent policy block (header plus indented fields).
+ */
+export function formatAgent(agent: string, policy: AgentPolicy): string[] {
+  const lines: string[] = [];
+  lines.push(`Agent: ${agent}`);
+  if (policy.rateLimit) {
+    lines.push(`  Rate-Limit: ${formatRateLimit(policy.rateLimit.requests, policy.rateLimit.window)}`);
+  }
+  if (policy.capabilities && policy.capabilities.length > 0) {
+    lines.push(`  Capabilities: ${policy.capabilities.join(", ")}`);
+  }
+  if (policy.agentDeclaration) {
+    lines.push(`  Agent-Declaration: ${policy.agentDeclaration}`);
+  }
+  return lines;
+}
+
+/**
+ * Format a parameter definition as a Param value, e.g.
+ * `limit (query, integer, default=20, min=1, max=100) - Max results`.
+ * Throws a TypeError for an object or array default, which a Param line
+ * cannot carry; agents.json keeps such defaults.
+ */
+export function formatParam(param: ParameterDef): string {
+  const parts = [param.in, param.type];
+  if (param.required) parts.push("required");
+  if (param.default !== null && typeof param.default === "object") {
+    throw new TypeError(
+      `Parameter "${param.name}" has a structured default, which the text format cannot carry; publish it in agents.json`,
+    );
+  }
+  if (param.default !== undefined) parts.push(`default=${formatParamValue(param.default, param.type)}`);
+  if (param.min !== undefined) parts.push(`min=${param.min}`);
+  if (param.max !== undefined) parts.push(`max=${param.max}`);
+  if (param.enum && param.enum.length > 0) {
+    parts.push(`enum=${param.enum.map((v) => formatParamValue(v, param.type)).join("|")}`);
+  }
+  if (param.format) parts.push(`format=${param.format}`);
+  let line = `${param.name} (${parts.join(", ")})`;
+  if (param.description) line += ` - ${sanitizeValue(param.description)}`;
+  return line;
+}
+
+/**
+ * Format a Param attribute value. Strings are written bare when the parser
+ * would read them back unchanged, and JSON-quoted otherwise.
+ */
+function formatParamValue(value: unknown, type: string): string {
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  const str = typeof value === "string" ? value : JSON.stringify(value) ?? "";
+  const bare = /^[^\s,()|"=]+$/.test(str) && type !== "integer" && type !== "number" && type !== "boolean";
+  return bare ? str : JSON.stringify(str);
+}
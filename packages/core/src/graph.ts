@@ -0,0 +1,338 @@
+import type { AgentsTxtDocument, Capability, ParseResult } from "./types.js";
+import { AgentsTxtClient } from "./client.js";
+import type { ClientOptions } from "./client.js";
+import { resolveAgentPolicy } from "./policy.js";
+import { confirmsAgent, registrableDomain } from "./scope.js";
+import { parseEndpointTemplate } from "./template.js";
+
+/**
+ * agents.txt - Declaration graph
+ *
+ * Platforms point to agent operators with `Agent-Declaration`, and agent
+ * declarations point back with `Operates-On` (SPEC 3.8). buildDeclarationGraph()
+ * follows these links from a starting site to a bounded depth and checks that
+ * each one is returned, and that what an agent says it does on a platform is
+ * something the platform grants it.
+ */
+
+export type DeclarationKind = "platform" | "agent";
+
+export type NodeStatus = "loaded" | "unreachable" | "invalid" | "skipped";
+
+export interface DeclarationNode {
+  /** The site's origin, e.g. "https://bot.acme.com". */
+  id: string;
+  /** Declared type when loaded, otherwise what the link implies. */
+  kind: DeclarationKind;
+  /** The URL the declaration was, or would have been, fetched from. */
+  url: string;
+  name?: string;
+  /** Links followed from the start (0). */
+  depth: number;
+  /** "skipped": not fetched because of maxDepth or maxNodes. */
+  status: NodeStatus;
+  error?: string;
+}
+
+export interface DeclarationEdge {
+  from: string;
+  to: string;
+  kind: "agent-declaration" | "operates-on";
+  /** For agent-declaration links: the Agent block that holds the link. */
+  agent?: string;
+  /** Whether the other side links back. Absent when either side was not loaded. */
+  reciprocated?: boolean;
+}
+
+export type GraphIssueCode =
+  | "UNREACHABLE_DECLARATION"
+  | "INVALID_DECLARATION"
+  | "NOT_RECIPROCATED"
+  | "WRONG_DECLARATION_TYPE"
+  | "CAPABILITY_MISMATCH";
+
+export interface GraphIssue {
+  code: GraphIssueCode;
+  message: string;
+  /** The node holding the link. */
+  from: string;
+  /** The node the link points to. */
+  to: string;
+  /** For CAPABILITY_MISMATCH: the agent declaration's capability ID. */
+  capability?: string;
+}
+
+export interface DeclarationGraph {
+  root: string;
+  nodes: DeclarationNode[];
+  edges: DeclarationEdge[];
+  issues: GraphIssue[];
+}
+
+export interface GraphOptions {
+  /** Links to follow from the start. Default: 2. */
+  maxDepth?: number;
+  /** Declarations to fetch at most. Default: 50. */
+  maxNodes?: number;
+  /** Options for the AgentsTxtClient that does the fetching. */
+  client?: ClientOptions;
+}
+
+interface Pending {
+  id: string;
+  url: string;
+  kind: DeclarationKind;
+  depth: number;
+  /** A site to discover, or the exact file an Agent-Declaration names. */
+  fetch: "site" | "file";
+}
+
+/**
+ * Build the declaration graph reachable from a site URL, or from a document
+ * already in hand together with the URL it came from.
+ */
+export async function buildDeclarationGraph(
+  start: string | { document: AgentsTxtDocument; url: string },
+  options: GraphOptions = {},
+): Promise<DeclarationGraph> {
+  const client = new AgentsTxtClient(options.client);
+  const maxDepth = options.maxDepth ?? 2;
+  const maxNodes = options.maxNodes ?? 50;
+
+  const nodes = new Map<string, DeclarationNode>();
+  const documents = new Map<string, AgentsTxtDocument>();
+  const edges = new Map<string, DeclarationEdge>();
+  const issues: GraphIssue[] = [];
+  const queue: Pending[] = [];
+  let fetched = 0;
+
+  const visit = (id: string, url: string, document: AgentsTxtDocument, depth: number) => {
+    documents.set(id, document);
+    nodes.set(id, {
+      id,
+      kind: document.declarationType ?? "platform",
+      url,
+      name: document.site.name,
+      depth,
+      status: "loaded",
+    });
+
+    const link = (to: string, toUrl: string, edge: Omit<DeclarationEdge, "from" | "to">, pending: Omit<Pending, "id" | "url" | "depth">) => {
+      const key = `${id} ${to} ${edge.kind}`;
+      if (!edges.has(key)) edges.set(key, { from: id, to, ...edge });
+      queue.push({ id: to, url: toUrl, depth: depth + 1, ...pending });
+    };
+    for (const [name, policy] of Object.entries(document.agents)) {
+      const target = policy.agentDeclaration && resolve(policy.agentDeclaration, url);
+      if (target) link(originOf(target), target, { kind: "agent-declaration", agent: name }, { kind: "agent", fetch: "file" });
+    }
+    for (const platform of document.operatesOn ?? []) {
+      const target = resolve(platform, url);
+      if (target) link(originOf(target), target, { kind: "operates-on" }, { kind: "platform", fetch: "site" });
+    }
+  };
+
+  if (typeof start === "string") {
+    queue.push({ id: originOf(start), url: start, kind: "platform", depth: 0, fetch: "site" });
+  } else {
+    visit(originOf(start.url), start.url, start.document, 0);
+  }
+
+  for (let next = queue.shift(); next; next = queue.shift()) {
+    if (nodes.has(next.id)) continue;
+    const { id, url, kind, depth } = next;
+    if (depth > maxDepth || fetched >= maxNodes) {
+      nodes.set(id, { id, kind, url, depth, status: "skipped" });
+      continue;
+    }
+
+    fetched++;
+    const result: ParseResult = next.fetch === "file" ? await client.fetchDocument(url) : await client.discoverAll(url);
+    if (result.success && result.document) {
+      visit(id, result.source?.url ?? url, result.document, depth);
+      continue;
+    }
+
+    // Nothing fetched means unreachable; a fetched file that does not parse is invalid
+    const unreachable = !result.source;
+    const error = ((unreachable && result.errors.find((e) => e.fetchError)) || result.errors[0])?.message;
+    nodes.set(id, { id, kind, url, depth, status: unreachable ? "unreachable" : "invalid", ...(error ? { error } : {}) });
+  }
+
+  // Report every link into a node that could not be loaded
+  for (const edge of edges.values()) {
+    const target = nodes.get(edge.to)!;
+    if (target.status === "unreachable" || target.status === "invalid") {
+      issues.push({
+        code: target.status === "unreachable" ? "UNREACHABLE_DECLARATION" : "INVALID_DECLARATION",
+        message: `${edge.from} links to ${target.url}, which ${target.status === "unreachable" ? "could not be fetched" : "is not a valid declaration"}${target.error ? `: ${target.error}` : ""}`,
+        from: edge.from,
+        to: edge.to,
+      });
+    }
+  }
+
+  for (const edge of edges.values()) {
+    const from = documents.get(edge.from);
+    const to = documents.get(edge.to);
+    if (!from || !to) continue;
+
+    if (edge.kind === "agent-declaration") {
+      if (to.declarationType !== "agent") {
+        issues.push({
+          code: "WRONG_DECLARATION_TYPE",
+          message: `Agent "${edge.agent}" on ${edge.from} links to ${edge.to}, which is not an agent declaration (Declaration-Type: agent)`,
+          from: edge.from,
+          to: edge.to,
+        });
+      }
+      edge.reciprocated = (to.operatesOn ?? []).some((platform) => sameHost(resolve(platform, edge.to), edge.from));
+      if (!edge.reciprocated) {
+        issues.push({
+          code: "NOT_RECIPROCATED",
+          message: `${edge.to} does not list ${edge.from} in Operates-On, but ${edge.from} links to it for agent "${edge.agent}"`,
+          from: edge.from,
+          to: edge.to,
+        });
+      }
+      issues.push(...checkCapabilities(edge.from, from, edge.agent!, edge.to, to));
+    } else {
+      if (to.declarationType === "agent") {
+        issues.push({
+          code: "WRONG_DECLARATION_TYPE",
+          message: `${edge.from} operates on ${edge.to}, which is an agent declaration, not a platform`,
+          from: edge.from,
+          to: edge.to,
+        });
+      }
+      edge.reciprocated = confirmsAgent(to, edge.to, edge.from);
+      if (!edge.reciprocated) {
+        issues.push({
+          code: "NOT_RECIPROCATED",
+          message: `${edge.from} says it operates on ${edge.to}, but ${edge.to} has no Agent block whose Agent-Declaration points to it`,
+          from: edge.from,
+          to: edge.to,
+        });
+      }
+    }
+  }
+
+  return {
+    root: typeof start === "string" ? originOf(start) : originOf(start.url),
+    nodes: [...nodes.values()],
+    edges: [...edges.values()],
+    issues,
+  };
+}
+
+/**
+ * Render a graph as JSON or as Graphviz DOT. In DOT, platforms are boxes,
+ * agents are ellipses, nodes that could not be loaded are dashed and links
+ * that are not returned are red.
+ */
+export function formatGraph(graph: DeclarationGraph, format: "json" | "dot"): string {
+  if (format === "json") return JSON.stringify(graph, null, 2);
+
+  const lines = ["digraph declarations {", "  rankdir=LR;"];
+  for (const node of graph.nodes) {
+    const attrs = [
+      `label=${quote(node.name ? `${node.name}\n${node.id}` : node.id)}`,
+      `shape=${node.kind === "platform" ? "box" : "ellipse"}`,
+    ];
+    if (node.status !== "loaded") attrs.push("style=dashed", `tooltip=${quote(node.error ?? node.status)}`);
+    if (node.status === "unreachable" || node.status === "invalid") attrs.push("color=red");
+    lines.push(`  ${quote(node.id)} [${attrs.join(", ")}];`);
+  }
+  for (const edge of graph.edges) {
+    const attrs = [`label=${quote(edge.kind === "agent-declaration" ? `Agent-Declaration (${edge.agent})` : "Operates-On")}`];
+    if (edge.reciprocated === false) attrs.push("color=red");
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [${attrs.join(", ")}];`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Capabilities the agent declaration says it uses on the platform (its
+ * endpoints are on the platform's site) must match, by endpoint and method,
+ * a capability the platform grants to that agent. IDs may differ.
+ */
+function checkCapabilities(
+  platformId: string,
+  platform: AgentsTxtDocument,
+  agentName: string,
+  agentId: string,
+  agent: AgentsTxtDocument,
+): GraphIssue[] {
+  const site = siteOf(platformId);
+  const granted = new Set(resolveAgentPolicy(platform, agentName).capabilities);
+  const issues: GraphIssue[] = [];
+
+  for (const used of agent.capabilities) {
+    if (!site || siteOf(used.endpoint) !== site) continue;
+    const matches = platform.capabilities.filter((cap) => sameOperation(cap, used));
+    if (matches.some((cap) => granted.has(cap.id))) continue;
+
+    const message =
+      matches.length > 0
+        ? `${agentId} uses "${used.id}" (${matches.map((c) => c.id).join(", ")} on ${platformId}), which ${platformId} does not grant to "${agentName}"`
+        : `${agentId} uses "${used.id}" (${methodOf(used)} ${used.endpoint}), which ${platformId} does not declare`;
+    issues.push({ code: "CAPABILITY_MISMATCH", message, from: platformId, to: agentId, capability: used.id });
+  }
+  return issues;
+}
+
+function sameOperation(a: Capability, b: Capability): boolean {
+  return methodOf(a) === methodOf(b) && endpointKey(a.endpoint) === endpointKey(b.endpoint);
+}
+
+function methodOf(capability: Capability): string {
+  return (capability.method ?? "GET").toUpperCase();
+}
+
+/** Endpoint without query, trailing slash or placeholder names: `/users/:id` equals `/users/{uid}`. */
+function endpointKey(endpoint: string): string {
+  const { origin, segments } = parseEndpointTemplate(endpoint);
+  const path = segments.map((s) => (s.type === "literal" ? s.value : "{}")).join("");
+  return origin.toLowerCase() + path.replace(/\/+$/, "");
+}
+
+/** Registrable domain of a URL, so api.x.com belongs to x.com. */
+function siteOf(url: string): string | null {
+  try {
+    const host = new URL(url).hostname;
+    return registrableDomain(host) ?? host;
+  } catch {
+    return null;
+  }
+}
+
+function sameHost(url: string | null, origin: string): boolean {
+  if (!url) return false;
+  try {
+    return new URL(url).hostname === new URL(origin).hostname;
+  } catch {
+    return false;
+  }
+}
+
+function originOf(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+function resolve(url: string, base: string): string | null {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return null;
+  }
+}
+
+/** A DOT double-quoted string. */
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
@@ -0,0 +1,364 @@
+import { parse as parseYAML } from "yaml";
+import type {
+  AuthConfig,
+  Capability,
+  ParameterDef,
+  ParameterFormat,
+  ParameterValue,
+  ParseError,
+  ParseWarning,
+} from "./types.js";
+import { sanitizeValue } from "./utils.js";
+
+export interface OpenAPIImportOptions {
+  /** Only import operations carrying at least one of these tags. */
+  includeTags?: string[];
+  /** Skip operations carrying any of these tags. */
+  excludeTags?: string[];
+  /** Only import paths matching one of these patterns (`*` matches any characters). */
+  includePaths?: string[];
+  /** Skip paths matching any of these patterns. */
+  excludePaths?: string[];
+  /** Base URL for specs without servers or with relative server URLs. */
+  baseUrl?: string;
+  /** Public URL of the spec, written to each capability's OpenAPI field. */
+  specUrl?: string;
+}
+
+export interface OpenAPIImportResult {
+  success: boolean;
+  capabilities: Capability[];
+  errors: ParseError[];
+  warnings: ParseWarning[];
+}
+
+type OpenAPIObject = Record<string, unknown>;
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+const PARAM_FORMATS = new Set<string>(["date-time", "email", "uri"]);
+const MAX_REF_DEPTH = 32;
+
+/**
+ * Build capabilities from an OpenAPI 3.0/3.1 document (JSON or YAML text, or
+ * an already-parsed object). Each operation becomes one REST capability.
+ */
+export function importOpenAPI(input: string | object, options: OpenAPIImportOptions = {}): OpenAPIImportResult {
+  const errors: ParseError[] = [];
+  const warnings: ParseWarning[] = [];
+
+  let spec: unknown = input;
+  if (typeof input === "string") {
+    try {
+      spec = input.trimStart().startsWith("{") ? JSON.parse(input) : parseYAML(input);
+    } catch (err) {
+      errors.push({ message: `Invalid OpenAPI document: ${err instanceof Error ? err.message : "parse error"}` });
+      return { success: false, capabilities: [], errors, warnings };
+    }
+  }
+
+  if (!isObject(spec) || typeof spec.openapi !== "string" || !spec.openapi.startsWith("3.")) {
+    errors.push({ field: "openapi", message: "Only OpenAPI 3.0 and 3.1 documents are supported" });
+    return { success: false, capabilities: [], errors, warnings };
+  }
+
+  const root = spec;
+  const paths = isObject(root.paths) ? root.paths : {};
+  const capabilities: Capability[] = [];
+  const usedIds = new Set<string>();
+
+  for (const [path, rawPathItem] of Object.entries(paths)) {
+    const pathItem = resolve(root, rawPathItem);
+    if (!isObject(pathItem)) continue;
+    if (!pathIncluded(path, options)) continue;
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!isObject(operation)) continue;
+
+      const tags = Array.isArray(operation.tags) ? operation.tags.filter((t): t is string => typeof t === "string") : [];
+      if (options.includeTags && !tags.some((t) => options.includeTags!.includes(t))) continue;
+      if (options.excludeTags && tags.some((t) => options.excludeTags!.includes(t))) continue;
+
+      const where = `${method.toUpperCase()} ${path}`;
+      const id = uniqueId(
+        typeof operation.operationId === "string" ? toCapabilityId(operation.operationId) : toCapabilityId(`${method} ${path}`),
+        usedIds,
+        where,
+        warnings,
+      );
+
+      const endpoint = resolveEndpoint(root, pathItem, operation, path, options, where, warnings);
+      const summary = firstString(operation.summary, operation.description) ?? where;
+
+      const cap: Capability = {
+        id,
+        description: sanitizeValue(summary),
+        endpoint,
+        method: method.toUpperCase(),
+        protocol: "REST",
+      };
+
+      const parameters = [
+        ...importParameters(root, pathItem.parameters, operation.parameters, where, warnings),
+        ...importRequestBody(root, operation.requestBody, where, warnings),
+      ];
+      if (parameters.length > 0) cap.parameters = parameters;
+
+      const auth = importSecurity(root, operation.security ?? root.security, where, warnings);
+      if (auth) cap.auth = auth;
+
+      if (options.specUrl) cap.openapi = options.specUrl;
+      capabilities.push(cap);
+    }
+  }
+
+  return { success: true, capabilities, errors, warnings };
+}
+
+/**
+ * Turn an operationId or "method path" into a capability ID: lowercase
+ * alphanumerics and hyphens, starting with an alphanumeric.
+ */
+function toCapabilityId(value: string): string {
+  const id = value
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 100)
+    .replace(/-+$/, "");
+  return id || "operation";
+}
+
+function uniqueId(id: string, used: Set<string>, where: string, warnings: ParseWarning[]): string {
+  let candidate = id;
+  for (let n = 2; used.has(candidate); n++) candidate = `${id.slice(0, 95)}-${n}`;
+  if (candidate !== id) {
+    warnings.push({ field: where, message: `Capability ID "${id}" already used; renamed to "${candidate}"` });
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+function pathIncluded(path: string, options: OpenAPIImportOptions): boolean {
+  if (options.includePaths && !options.includePaths.some((p) => matchesPattern(path, p))) return false;
+  if (options.excludePaths && options.excludePaths.some((p) => matchesPattern(path, p))) return false;
+  return true;
+}
+
+function matchesPattern(path: string, pattern: string): boolean {
+  const regex = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${regex}$`).test(path);
+}
+
+function resolveEndpoint(
+  root: OpenAPIObject,
+  pathItem: OpenAPIObject,
+  operation: OpenAPIObject,
+  path: string,
+  options: OpenAPIImportOptions,
+  where: string,
+  warnings: ParseWarning[],
+): string {
+  const servers = [operation.servers, pathItem.servers, root.servers].find((s) => Array.isArray(s) && s.length > 0);
+  let base = options.baseUrl ?? "";
+
+  if (Array.isArray(servers) && isObject(servers[0]) && typeof servers[0].url === "string") {
+    const server = servers[0];
+    const variables = isObject(server.variables) ? server.variables : {};
+    const url = (server.url as string).replace(/\{([^}]+)\}/g, (match, name: string) => {
+      const variable = variables[name];
+      return isObject(variable) && typeof variable.default === "string" ? variable.default : match;
+    });
+    try {
+      base = new URL(url, options.baseUrl).toString();
+    } catch {
+      base = url;
+    }
+  }
+
+  if (!/^https?:\/\//.test(base)) {
+    warnings.push({ field: where, message: "No absolute server URL; pass baseUrl to produce a full endpoint" });
+  }
+  return base.replace(/\/+$/, "") + path;
+}
+
+function importParameters(
+  root: OpenAPIObject,
+  pathLevel: unknown,
+  operationLevel: unknown,
+  where: string,
+  warnings: ParseWarning[],
+): ParameterDef[] {
+  // Operation parameters override path-level ones with the same name and location
+  const merged = new Map<string, OpenAPIObject>();
+  for (const list of [pathLevel, operationLevel]) {
+    if (!Array.isArray(list)) continue;
+    for (const raw of list) {
+      const param = resolve(root, raw);
+      if (isObject(param) && typeof param.name === "string" && typeof param.in === "string") {
+        merged.set(`${param.in}:${param.name}`, param);
+      }
+    }
+  }
+
+  const params: ParameterDef[] = [];
+  for (const param of merged.values()) {
+    const location = param.in as string;
+    if (location !== "query" && location !== "path" && location !== "header") {
+      warnings.push({ field: where, message: `Parameter "${param.name}" in ${location} cannot be represented` });
+      continue;
+    }
+    if (!/^\w+$/.test(param.name as string)) {
+      warnings.push({ field: where, message: `Parameter name "${param.name}" is not supported in agents.txt` });
+      continue;
+    }
+    const schema = resolve(root, param.schema);
+    params.push(
+      toParameterDef(param.name as string, location, isObject(schema) ? schema : {}, {
+        required: param.required === true || location === "path",
+        description: firstString(param.description, isObject(schema) ? schema.description : undefined),
+      }),
+    );
+  }
+  return params;
+}
+
+function importRequestBody(root: OpenAPIObject, rawBody: unknown, where: string, warnings: ParseWarning[]): ParameterDef[] {
+  const body = resolve(root, rawBody);
+  if (!isObject(body) || !isObject(body.content)) return [];
+
+  const content = body.content;
+  const media = content["application/json"] ?? Object.values(content)[0];
+  const schema = isObject(media) ? resolve(root, media.schema) : undefined;
+  if (!isObject(schema) || !isObject(schema.properties)) {
+    warnings.push({ field: where, message: "Request body is not an object schema; its fields were not imported" });
+    return [];
+  }
+
+  const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+  const params: ParameterDef[] = [];
+  for (const [name, rawProp] of Object.entries(schema.properties)) {
+    if (!/^\w+$/.test(name)) {
+      warnings.push({ field: where, message: `Body field "${name}" is not supported in agents.txt` });
+      continue;
+    }
+    const prop = resolve(root, rawProp);
+    const propSchema = isObject(prop) ? prop : {};
+    params.push(
+      toParameterDef(name, "body", propSchema, {
+        required: required.has(name),
+        description: firstString(propSchema.description),
+      }),
+    );
+  }
+  return params;
+}
+
+function toParameterDef(
+  name: string,
+  location: ParameterDef["in"],
+  schema: OpenAPIObject,
+  extra: { required: boolean; description?: string },
+): ParameterDef {
+  // OpenAPI 3.1 allows type arrays such as ["string", "null"]
+  const rawType = Array.isArray(schema.type) ? schema.type.find((t) => t !== "null") : schema.type;
+  const type = typeof rawType === "string" ? rawType : "string";
+
+  const param: ParameterDef = { name, in: location, type, required: extra.required };
+  if (isPrimitive(schema.default)) param.default = schema.default;
+  const min = type === "string" ? schema.minLength : schema.minimum;
+  const max = type === "string" ? schema.maxLength : schema.maximum;
+  if (typeof min === "number") param.min = min;
+  if (typeof max === "number") param.max = max;
+  if (Array.isArray(schema.enum)) {
+    const values = schema.enum.filter(isPrimitive);
+    if (values.length > 0) param.enum = values;
+  }
+  if (typeof schema.format === "string" && PARAM_FORMATS.has(schema.format)) {
+    param.format = schema.format as ParameterFormat;
+  }
+  if (extra.description) param.description = sanitizeValue(extra.description);
+  return param;
+}
+
+function importSecurity(
+  root: OpenAPIObject,
+  security: unknown,
+  where: string,
+  warnings: ParseWarning[],
+): AuthConfig | undefined {
+  if (!Array.isArray(security)) return undefined;
+  if (security.length === 0) return { type: "none" };
+
+  const requirement = security[0];
+  if (!isObject(requirement)) return undefined;
+  // An empty requirement object means the operation may be called anonymously
+  const [schemeName, scopes] = Object.entries(requirement)[0] ?? [];
+  if (!schemeName) return { type: "none" };
+
+  const components = isObject(root.components) ? root.components : {};
+  const schemes = isObject(components.securitySchemes) ? components.securitySchemes : {};
+  const scheme = resolve(root, schemes[schemeName]);
+  if (!isObject(scheme)) {
+    warnings.push({ field: where, message: `Unknown security scheme: ${schemeName}` });
+    return undefined;
+  }
+
+  const scopeList = Array.isArray(scopes) ? scopes.filter((s): s is string => typeof s === "string") : [];
+
+  switch (scheme.type) {
+    case "apiKey":
+      return { type: "api-key" };
+    case "http":
+      if (typeof scheme.scheme === "string" && scheme.scheme.toLowerCase() === "bearer") {
+        return { type: "bearer-token" };
+      }
+      warnings.push({ field: where, message: `HTTP auth scheme "${scheme.scheme}" cannot be represented` });
+      return undefined;
+    case "oauth2": {
+      const flows = isObject(scheme.flows) ? scheme.flows : {};
+      const flow = [flows.clientCredentials, flows.authorizationCode, flows.password].find(isObject);
+      const auth: AuthConfig = { type: "oauth2" };
+      if (flow && typeof flow.tokenUrl === "string") auth.tokenEndpoint = flow.tokenUrl;
+      if (scopeList.length > 0) auth.scopes = scopeList;
+      return auth;
+    }
+    case "openIdConnect": {
+      const auth: AuthConfig = { type: "oauth2" };
+      if (typeof scheme.openIdConnectUrl === "string") auth.docsUrl = scheme.openIdConnectUrl;
+      if (scopeList.length > 0) auth.scopes = scopeList;
+      return auth;
+    }
+    default:
+      warnings.push({ field: where, message: `Security scheme type "${scheme.type}" cannot be represented` });
+      return undefined;
+  }
+}
+
+/**
+ * Follow local `$ref` pointers (`#/components/...`).
+ */
+function resolve(root: OpenAPIObject, value: unknown, depth = 0): unknown {
+  if (!isObject(value) || typeof value.$ref !== "string") return value;
+  if (depth >= MAX_REF_DEPTH || !value.$ref.startsWith("#/")) return undefined;
+
+  let target: unknown = root;
+  for (const segment of value.$ref.slice(2).split("/")) {
+    const key = segment.replace(/~1/g, "/").replace(/~0/g, "~");
+    target = isObject(target) ? target[key] : undefined;
+  }
+  return resolve(root, target, depth + 1);
+}
+
+function isObject(value: unknown): value is OpenAPIObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPrimitive(value: unknown): value is ParameterValue {
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+}
+
+function firstString(...values: unknown[]): string | undefined {
+  return values.find((v): v is string => typeof v === "string" && v.trim() !== "");
+}
@@ -5,13 +5,119 @@ export { parseJSON } from "./parser-json.js";
 // Generator
 export { generate } from "./generator.js";
 export { generateJSON } from "./generator-json.js";
+export type { GenerateOptions } from "./generator.js";
+
+// Concrete syntax tree
+export { parseCST, printCST, cstBlocks, locatePath, locateLine, AgentsTxtEditor } from "./cst.js";
+export type { AgentsTxtCST, CstLine, CstLineKind, CstToken, CstBlock } from "./cst.js";
 
 // Validator
-export { validate, validateText, validateJSON } from "./validator.js";
+export { validate, validateText, validateJSON, locateProblems } from "./validator.js";
+
+// Reports
+export { formatReport, toJSONReport, toSARIF, toJUnit } from "./reports.js";
+export type {
+  ReportFormat,
+  ReportOptions,
+  ReportProblem,
+  JsonReport,
+  SarifLog,
+  SarifRun,
+  SarifRule,
+  SarifResult,
+} from "./reports.js";
+
+// Lint
+export { lint, applyFixes, applyTextFixes, BUILTIN_RULES } from "./lint.js";
+export type {
+  LintRule,
+  LintProblem,
+  LintFix,
+  LintConfig,
+  LintSeverity,
+  LintRuleSetting,
+  LintResult,
+  LintFixResult,
+} from "./lint.js";
+
+// Diff
+export { diff, formatDiff } from "./diff.js";
+export type { DocumentDiff, DocumentChange, ChangeSeverity } from "./diff.js";
+
+// Agent policies
+export { resolveAgentPolicy, agentNameFromUserAgent, moreRestrictive } from "./policy.js";
+export type { ResolvedAgentPolicy } from "./policy.js";
+
+// Access control
+export { isPathAllowed, matchPathPattern, normalizePath } from "./access.js";
+export type { AccessDecision } from "./access.js";
+
+// Endpoint templates
+export { parseEndpointTemplate, expandEndpoint } from "./template.js";
+export type { EndpointTemplate, TemplateSegment } from "./template.js";
+
+// Secrets
+export { detectSecrets, detectSecretsInValue, SecretLeakError } from "./secrets.js";
+export type { SecretFinding, SecretKind } from "./secrets.js";
+
+// Scope
+export { analyzeScope, confirmsAgent, registrableDomain } from "./scope.js";
+export type { ScopePolicy, ScopeMode, ScopeViolation, ScopeAnalysis } from "./scope.js";
+
+// Reconcile
+export { reconcile } from "./reconcile.js";
+export type { DocumentFormat, Provenance, Inconsistency, ReconcileResult } from "./reconcile.js";
+
+// Importers
+export { importOpenAPI } from "./importer-openapi.js";
+export type { OpenAPIImportOptions, OpenAPIImportResult } from "./importer-openapi.js";
+
+// Exporters
+export { exportOpenAPI } from "./exporter-openapi.js";
+export { exportAgentCard } from "./exporter-a2a.js";
+export type { AgentCard, AgentCardSkill } from "./exporter-a2a.js";
+export { exportLlmsTxt } from "./exporter-llms.js";
 
 // Client
-export { AgentsTxtClient } from "./client.js";
-export type { ClientOptions } from "./client.js";
+export { AgentsTxtClient, DEFAULT_REMOTE_PARSE_OPTIONS } from "./client.js";
+export type { ClientOptions, DiscoveryResult } from "./client.js";
+export { MemoryCache, FileSystemCache, parseCacheControl } from "./cache.js";
+export type { ClientCache, CacheEntry, CacheControl } from "./cache.js";
+export {
+  FetchError,
+  HttpStatusError,
+  BodyTooLargeError,
+  InsecureUrlError,
+  TooManyRedirectsError,
+  CrossSiteRedirectError,
+  BlockedAddressError,
+  ContentTypeError,
+  FetchTimeoutError,
+  NetworkError,
+  isPrivateAddress,
+} from "./fetch.js";
+export type { FetchErrorCode } from "./fetch.js";
+export { memorySource, fileSource, directorySource } from "./transport.js";
+export type { Transport } from "./transport.js";
+export { parseRateLimitHeaders, rateLimitDelay } from "./rate-limit-headers.js";
+export type { RateLimitInfo, RateLimitPolicyInfo, RateLimitDelayOptions } from "./rate-limit-headers.js";
+
+// Declaration graph
+export { buildDeclarationGraph, formatGraph } from "./graph.js";
+export type {
+  DeclarationGraph,
+  DeclarationNode,
+  DeclarationEdge,
+  DeclarationKind,
+  NodeStatus,
+  GraphIssue,
+  GraphIssueCode,
+  GraphOptions,
+} from "./graph.js";
+
+// Crawler
+export { crawl, summarizeCrawl, formatCrawlSummary } from "./crawler.js";
+export type { CrawlOptions, CrawlSiteResult, CrawlStatus, CrawlSummary } from "./crawler.js";
 
 // Types
 export type {
@@ -27,12 +133,19 @@ export type {
   AccessControl,
   AgentPolicy,
   ParameterDef,
+  ParameterValue,
+  ParameterFormat,
   ParseResult,
+  SourceMetadata,
+  ParseOptions,
   ParseError,
   ParseWarning,
   ValidationResult,
   ValidationError,
   ValidationWarning,
+  SourceRange,
+  ExportResult,
+  ExportIssue,
 } from "./types.js";
 
 // Schema
@@ -44,7 +157,16 @@ export {
   RateLimitSchema,
   AuthConfigSchema,
   ProtocolSchema,
+  ParameterDefSchema,
+  ParameterFormatSchema,
 } from "./schema.js";
 
 // Utilities
-export { sanitizeValue, parseRateLimit, formatRateLimit } from "./utils.js";
+export {
+  sanitizeValue,
+  parseRateLimit,
+  formatRateLimit,
+  windowToMs,
+  isSupportedSpecVersion,
+  SUPPORTED_SPEC_VERSIONS,
+} from "./utils.js";
@@ -0,0 +1,495 @@
+import type { AgentsTxtDocument, ValidationError, ValidationResult, ValidationWarning } from "./types.js";
+import { AgentsTxtDocumentSchema } from "./schema.js";
+import { AgentsTxtEditor } from "./cst.js";
+import { analyzeScope } from "./scope.js";
+import type { ScopePolicy } from "./scope.js";
+import { detectSecrets } from "./secrets.js";
+import { parseEndpointTemplate } from "./template.js";
+
+/**
+ * agents.txt - Lint engine
+ *
+ * Every check is a named rule with a default severity. A LintConfig can
+ * change severities per project, turn rules off and add custom rules.
+ * Rules may attach a fix to a problem; applyFixes() and applyTextFixes()
+ * apply them to a document or to agents.txt source.
+ */
+
+export type LintSeverity = "error" | "warning" | "off";
+
+export interface LintFix {
+  /** Apply the fix to a structured document, in place. */
+  document(doc: AgentsTxtDocument): void;
+  /** Apply the same fix to agents.txt source. Without it the fix is document-only. */
+  text?(editor: AgentsTxtEditor): void;
+}
+
+export interface LintProblem {
+  path: string;
+  message: string;
+  /** Defaults to the rule's code. */
+  code?: string;
+  fix?: LintFix;
+}
+
+export interface LintRule {
+  /** Kebab-case ID used in configs, e.g. "insecure-endpoint". */
+  id: string;
+  /** Upper snake case code reported on problems, e.g. "INSECURE_ENDPOINT". */
+  code: string;
+  description: string;
+  defaultSeverity: LintSeverity;
+  /** `options` come from a `[severity, options]` config entry; empty otherwise. */
+  check(doc: AgentsTxtDocument, report: (problem: LintProblem) => void, options: Record<string, unknown>): void;
+}
+
+/** A severity, or a severity plus options passed to the rule. */
+export type LintRuleSetting = LintSeverity | [LintSeverity, Record<string, unknown>];
+
+export interface LintConfig {
+  /** Severity overrides (and rule options) keyed by rule ID. */
+  rules?: Record<string, LintRuleSetting>;
+  /** Project-specific rules, run after the built-in ones. */
+  customRules?: LintRule[];
+}
+
+export interface LintResult extends ValidationResult {
+  /** Number of reported problems that have an automatic fix. */
+  fixable: number;
+}
+
+export interface LintFixResult<T> extends LintResult {
+  /** The fixed document or source. The input is never modified. */
+  output: T;
+  /** Problems that were fixed, in the order the fixes were applied. */
+  fixed: ValidationWarning[];
+}
+
+interface ActiveRule {
+  rule: LintRule;
+  severity: Exclude<LintSeverity, "off">;
+  options: Record<string, unknown>;
+}
+
+interface Report {
+  rule: LintRule;
+  severity: Exclude<LintSeverity, "off">;
+  problem: LintProblem;
+}
+
+const RULE_ID = /^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/;
+const RULE_CODE = /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*$/;
+const SEVERITIES: readonly string[] = ["error", "warning", "off"];
+const CAPABILITY_ID = /^[a-z0-9][a-z0-9-]*$/;
+const MAX_FIX_PASSES = 10;
+const MAX_TEXT_FIXES = 100;
+
+// -- Built-in rules --
+
+const schemaRule: LintRule = {
+  id: "schema",
+  code: "SCHEMA_VIOLATION",
+  description: "The document must match the agents.txt schema",
+  defaultSeverity: "error",
+  check(doc, report) {
+    const result = AgentsTxtDocumentSchema.safeParse(doc);
+    if (result.success) return;
+    for (const issue of result.error.issues) {
+      // Malformed capability IDs are reported (and fixed) by capability-id-format
+      const isIdFormat =
+        issue.path.length === 3 && issue.path[0] === "capabilities" && issue.path[2] === "id" &&
+        issue.code === "invalid_string" && issue.validation === "regex";
+      if (isIdFormat) continue;
+      report({ path: issue.path.join("."), message: issue.message });
+    }
+  },
+};
+
+const capabilityIdFormatRule: LintRule = {
+  id: "capability-id-format",
+  code: "INVALID_CAPABILITY_ID",
+  description: "Capability IDs must be lowercase alphanumeric with hyphens",
+  defaultSeverity: "error",
+  check(doc, report) {
+    const ids = new Set(doc.capabilities.map((c) => c.id));
+    for (const cap of doc.capabilities) {
+      if (!cap.id || CAPABILITY_ID.test(cap.id)) continue;
+      const id = cap.id;
+      const suggested = id.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+      const canFix = CAPABILITY_ID.test(suggested) && !ids.has(suggested);
+      report({
+        path: `capabilities.${id}.id`,
+        message: `Capability ID "${id}" must be lowercase alphanumeric with hyphens`,
+        fix: canFix
+          ? {
+              document(d) {
+                cap.id = suggested;
+                for (const policy of Object.values(d.agents)) {
+                  if (policy.capabilities) {
+                    policy.capabilities = policy.capabilities.map((ref) => (ref === id ? suggested : ref));
+                  }
+                }
+              },
+              text(editor) {
+                editor.renameCapability(id, suggested);
+              },
+            }
+          : undefined,
+      });
+    }
+  },
+};
+
+const duplicateCapabilityRule: LintRule = {
+  id: "duplicate-capability",
+  code: "DUPLICATE_CAPABILITY",
+  description: "Capability IDs must be unique",
+  defaultSeverity: "error",
+  check(doc, report) {
+    const seen = new Set<string>();
+    for (const cap of doc.capabilities) {
+      if (seen.has(cap.id)) {
+        report({ path: `capabilities.${cap.id}`, message: `Duplicate capability ID: "${cap.id}"` });
+      }
+      seen.add(cap.id);
+    }
+  },
+};
+
+const unknownCapabilityRefRule: LintRule = {
+  id: "unknown-capability-ref",
+  code: "UNKNOWN_CAPABILITY_REF",
+  description: "Agent policies may only reference declared capabilities",
+  defaultSeverity: "error",
+  check(doc, report) {
+    const ids = new Set(doc.capabilities.map((c) => c.id));
+    for (const [agentName, policy] of Object.entries(doc.agents)) {
+      for (const capId of policy.capabilities ?? []) {
+        if (!ids.has(capId)) {
+          report({
+            path: `agents.${agentName}.capabilities`,
+            message: `Agent "${agentName}" references unknown capability: "${capId}"`,
+          });
+        }
+      }
+    }
+  },
+};
+
+const pathParamsRule: LintRule = {
+  id: "path-params",
+  code: "PATH_PARAM_MISMATCH",
+  description: "Endpoint placeholders and `in: path` parameters must match one to one",
+  defaultSeverity: "error",
+  check(doc, report) {
+    for (const cap of doc.capabilities) {
+      if (!cap.endpoint) continue;
+      const placeholders = parseEndpointTemplate(cap.endpoint).params;
+      const params = cap.parameters ?? [];
+
+      for (const name of placeholders) {
+        const param = params.find((p) => p.name === name);
+        if (param?.in === "path") continue;
+        report({
+          path: `capabilities.${cap.id}.endpoint`,
+          code: "UNDECLARED_PATH_PARAM",
+          message: param
+            ? `Endpoint placeholder "${name}" of "${cap.id}" is declared as a ${param.in} parameter, not path`
+            : `Endpoint placeholder "${name}" of "${cap.id}" has no matching path parameter`,
+        });
+      }
+      for (const param of params) {
+        if (param.in === "path" && !placeholders.includes(param.name)) {
+          report({
+            path: `capabilities.${cap.id}.parameters.${param.name}`,
+            code: "UNUSED_PATH_PARAM",
+            message: `Path parameter "${param.name}" does not appear in the endpoint of "${cap.id}"`,
+          });
+        }
+      }
+    }
+  },
+};
+
+const missingOperatesOnRule: LintRule = {
+  id: "missing-operates-on",
+  code: "MISSING_OPERATES_ON",
+  description: "Agent declarations should list the platforms they operate on",
+  defaultSeverity: "warning",
+  check(doc, report) {
+    if (doc.declarationType === "agent" && (!doc.operatesOn || doc.operatesOn.length === 0)) {
+      report({ path: "operatesOn", message: "Agent declarations should include at least one Operates-On URL" });
+    }
+  },
+};
+
+const operatesOnWithoutAgentTypeRule: LintRule = {
+  id: "operates-on-without-agent-type",
+  code: "OPERATES_ON_WITHOUT_AGENT_TYPE",
+  description: "Operates-On only makes sense in agent declarations",
+  defaultSeverity: "warning",
+  check(doc, report) {
+    if (doc.operatesOn && doc.operatesOn.length > 0 && doc.declarationType !== "agent") {
+      report({ path: "declarationType", message: 'Operates-On is set but Declaration-Type is not "agent"' });
+    }
+  },
+};
+
+const insecureUrlRule: LintRule = {
+  id: "insecure-url",
+  code: "INSECURE_URL",
+  description: "The site URL should use HTTPS",
+  defaultSeverity: "warning",
+  check(doc, report) {
+    const url = doc.site.url;
+    if (!url || url.startsWith("https://")) return;
+    const upgraded = upgradeToHttps(url);
+    report({
+      path: "site.url",
+      message: "Site URL should use HTTPS",
+      fix: upgraded
+        ? {
+            document(d) {
+              d.site.url = upgraded;
+            },
+            text(editor) {
+              editor.set("Site-URL", upgraded);
+            },
+          }
+        : undefined,
+    });
+  },
+};
+
+const insecureEndpointRule: LintRule = {
+  id: "insecure-endpoint",
+  code: "INSECURE_ENDPOINT",
+  description: "Capability endpoints should use HTTPS",
+  defaultSeverity: "warning",
+  check(doc, report) {
+    for (const cap of doc.capabilities) {
+      if (!cap.endpoint || cap.endpoint.startsWith("https://")) continue;
+      const id = cap.id;
+      const upgraded = upgradeToHttps(cap.endpoint);
+      report({
+        path: `capabilities.${id}.endpoint`,
+        message: `Capability "${id}" endpoint should use HTTPS`,
+        fix: upgraded
+          ? {
+              document() {
+                cap.endpoint = upgraded;
+              },
+              text(editor) {
+                editor.setCapabilityField(id, "Endpoint", upgraded);
+              },
+            }
+          : undefined,
+      });
+    }
+  },
+};
+
+const outOfScopeRule: LintRule = {
+  id: "out-of-scope",
+  code: "OUT_OF_SCOPE",
+  description: "A file may only point at URLs on its own domain (SPEC 8.5); options are a ScopePolicy",
+  defaultSeverity: "error",
+  check(doc, report, options) {
+    // The author's own Operates-On platforms are taken at their word here
+    for (const violation of analyzeScope(doc, { operatesOn: true, ...(options as ScopePolicy) }).violations) {
+      report({ path: violation.path, message: violation.message });
+    }
+  },
+};
+
+const noSecretsRule: LintRule = {
+  id: "no-secrets",
+  code: "SECRET_DETECTED",
+  description: "agents.txt is public and must not contain credentials (SPEC 8.2)",
+  defaultSeverity: "error",
+  check(doc, report) {
+    for (const finding of detectSecrets(doc)) {
+      report({ path: finding.path, message: `${finding.message} ("${finding.excerpt}")` });
+    }
+  },
+};
+
+const missingAgentsJsonRule: LintRule = {
+  id: "missing-agents-json",
+  code: "MISSING_AGENTS_JSON",
+  description: "The document should cross-reference its agents.json (SPEC 2.4)",
+  defaultSeverity: "off",
+  check(doc, report) {
+    if (doc.metadata?.["Agents-JSON"]) return;
+    report({
+      path: "metadata.Agents-JSON",
+      message: "No Agents-JSON cross-reference to the JSON version of this file",
+      fix: agentsJsonUrl(doc.site.url)
+        ? {
+            // Derived when applied, so an earlier insecure-url fix is picked up
+            document(d) {
+              d.metadata = { ...d.metadata, "Agents-JSON": agentsJsonUrl(d.site.url)! };
+            },
+            text(editor) {
+              editor.set("Agents-JSON", agentsJsonUrl(doc.site.url)!);
+            },
+          }
+        : undefined,
+    });
+  },
+};
+
+/** The built-in rules, in the order they run. */
+export const BUILTIN_RULES: readonly LintRule[] = [
+  schemaRule,
+  capabilityIdFormatRule,
+  duplicateCapabilityRule,
+  unknownCapabilityRefRule,
+  pathParamsRule,
+  missingOperatesOnRule,
+  operatesOnWithoutAgentTypeRule,
+  insecureUrlRule,
+  insecureEndpointRule,
+  outOfScopeRule,
+  noSecretsRule,
+  missingAgentsJsonRule,
+];
+
+// -- Engine --
+
+/**
+ * Lint a document. Without a config this reports exactly what validate() does.
+ */
+export function lint(doc: AgentsTxtDocument, config: LintConfig = {}): LintResult {
+  return toResult(run(doc, resolveRules(config)));
+}
+
+/**
+ * Lint a document and apply every available fix, re-linting until no fixable
+ * problems remain. Returns the fixed copy and the result of the final lint.
+ */
+export function applyFixes(doc: AgentsTxtDocument, config: LintConfig = {}): LintFixResult<AgentsTxtDocument> {
+  const rules = resolveRules(config);
+  const draft = structuredClone(doc);
+  const fixed: ValidationWarning[] = [];
+
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    const fixable = run(draft, rules).filter((r) => r.problem.fix);
+    if (fixable.length === 0) break;
+    for (const report of fixable) {
+      report.problem.fix!.document(draft);
+      fixed.push(toMessage(report));
+    }
+  }
+
+  return { ...toResult(run(draft, rules)), output: draft, fixed };
+}
+
+/**
+ * Lint agents.txt source and apply every fix that supports text, one at a
+ * time, through an AgentsTxtEditor so comments and formatting are kept.
+ */
+export function applyTextFixes(text: string, config: LintConfig = {}): LintFixResult<string> {
+  const rules = resolveRules(config);
+  const editor = new AgentsTxtEditor(text);
+  const fixed: ValidationWarning[] = [];
+  const skipped = new Set<string>();
+
+  for (let i = 0; i < MAX_TEXT_FIXES; i++) {
+    const parsed = editor.toDocument();
+    if (!parsed.success || !parsed.document) break;
+    const next = run(parsed.document, rules).find(
+      (r) => r.problem.fix?.text && !skipped.has(reportKey(r)),
+    );
+    if (!next) break;
+
+    const before = editor.toString();
+    next.problem.fix!.text!(editor);
+    if (editor.toString() === before) {
+      skipped.add(reportKey(next));
+    } else {
+      fixed.push(toMessage(next));
+    }
+  }
+
+  const output = editor.toString();
+  const parsed = editor.toDocument();
+  if (!parsed.success || !parsed.document) {
+    return {
+      valid: false,
+      errors: parsed.errors.map((e) => ({ path: e.field ?? "", message: e.message, code: "PARSE_ERROR" })),
+      warnings: [],
+      fixable: 0,
+      output,
+      fixed,
+    };
+  }
+  return { ...toResult(run(parsed.document, rules)), output, fixed };
+}
+
+/** Resolve the active rules and their severities. Throws on unknown rule IDs or bad severities. */
+function resolveRules(config: LintConfig): ActiveRule[] {
+  const all = [...BUILTIN_RULES];
+  for (const rule of config.customRules ?? []) {
+    if (!RULE_ID.test(rule.id)) throw new Error(`Invalid lint rule ID: "${rule.id}" (use kebab-case)`);
+    if (!RULE_CODE.test(rule.code)) throw new Error(`Invalid code for lint rule "${rule.id}": "${rule.code}"`);
+    if (all.some((r) => r.id === rule.id)) throw new Error(`Duplicate lint rule ID: "${rule.id}"`);
+    all.push(rule);
+  }
+
+  const overrides = config.rules ?? {};
+  for (const [id, setting] of Object.entries(overrides)) {
+    if (!all.some((r) => r.id === id)) throw new Error(`Unknown lint rule: "${id}"`);
+    const severity = Array.isArray(setting) ? setting[0] : setting;
+    if (!SEVERITIES.includes(severity)) throw new Error(`Invalid severity for lint rule "${id}": "${severity}"`);
+  }
+
+  const active: ActiveRule[] = [];
+  for (const rule of all) {
+    const setting = Object.hasOwn(overrides, rule.id) ? overrides[rule.id] : rule.defaultSeverity;
+    const [severity, options] = Array.isArray(setting) ? setting : [setting, {}];
+    if (severity !== "off") active.push({ rule, severity, options });
+  }
+  return active;
+}
+
+function run(doc: AgentsTxtDocument, rules: ActiveRule[]): Report[] {
+  const reports: Report[] = [];
+  for (const { rule, severity, options } of rules) {
+    rule.check(doc, (problem) => reports.push({ rule, severity, problem }), options);
+  }
+  return reports;
+}
+
+function toMessage({ rule, problem }: Report): ValidationError {
+  return { path: problem.path, message: problem.message, code: problem.code ?? rule.code, rule: rule.id };
+}
+
+function toResult(reports: Report[]): LintResult {
+  const errors = reports.filter((r) => r.severity === "error").map(toMessage);
+  const warnings = reports.filter((r) => r.severity === "warning").map(toMessage);
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    fixable: reports.filter((r) => r.problem.fix).length,
+  };
+}
+
+function reportKey(report: Report): string {
+  return `${report.rule.id}:${report.problem.path}`;
+}
+
+/** The well-known agents.json URL for a site, or undefined without a usable site URL. */
+function agentsJsonUrl(siteUrl: string): string | undefined {
+  try {
+    return new URL("/.well-known/agents.json", siteUrl).href;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The https:// form of an http:// URL, or undefined for anything else. */
+function upgradeToHttps(url: string): string | undefined {
+  return /^http:\/\//i.test(url) ? `https://${url.slice("http://".length)}` : undefined;
+}
@@ -1,10 +1,23 @@
-import type { ParseResult } from "./types.js";
+import type { ParseResult, ParseOptions, ParseWarning } from "./types.js";
 import { AgentsTxtDocumentSchema } from "./schema.js";
+import { isSupportedSpecVersion, exceedsByteLength, SUPPORTED_SPEC_VERSIONS } from "./utils.js";
 
 /**
  * Parse an agents.json string into a validated AgentsTxtDocument.
+ *
+ * Honors `maxBytes`, `maxCapabilities` and `specVersion` from the options;
+ * the line-oriented options only apply to the text format. Fields the schema
+ * does not know are dropped with a warning, or refused in strict mode.
  */
-export function parseJSON(input: string): ParseResult {
+export function parseJSON(input: string, options: ParseOptions = {}): ParseResult {
+  if (options.maxBytes !== undefined && exceedsByteLength(input, options.maxBytes)) {
+    return {
+      success: false,
+      errors: [{ message: `Input exceeds maximum size of ${options.maxBytes} bytes` }],
+      warnings: [],
+    };
+  }
+
   let raw: unknown;
   try {
     raw = JSON.parse(input);
@@ -16,6 +29,18 @@ export function parseJSON(input: string): ParseResult {
     };
   }
 
+  // Check the capability count before running the schema over a huge array
+  if (options.maxCapabilities !== undefined && raw && typeof raw === "object") {
+    const capabilities = (raw as { capabilities?: unknown }).capabilities;
+    if (Array.isArray(capabilities) && capabilities.length > options.maxCapabilities) {
+      return {
+        success: false,
+        errors: [{ field: "capabilities", message: `Document exceeds maximum of ${options.maxCapabilities} capabilities` }],
+        warnings: [],
+      };
+    }
+  }
+
   const result = AgentsTxtDocumentSchema.safeParse(raw);
 
   if (!result.success) {
@@ -29,10 +54,40 @@ export function parseJSON(input: string): ParseResult {
     };
   }
 
+  const warnings = unknownFields(raw, result.data, []);
+  if (!isSupportedSpecVersion(result.data.specVersion, options.specVersion ?? SUPPORTED_SPEC_VERSIONS)) {
+    const issue = { field: "specVersion", message: `Unsupported spec version: ${result.data.specVersion}` };
+    if (options.strict || options.specVersion !== undefined) {
+      return { success: false, errors: [issue], warnings: [] };
+    }
+    warnings.unshift(issue);
+  }
+
+  if (options.strict && warnings.length > 0) {
+    return { success: false, errors: warnings, warnings: [] };
+  }
+
   return {
     success: true,
     document: result.data,
     errors: [],
-    warnings: [],
+    warnings,
   };
 }
+
+/** The keys of `raw` the schema dropped from `parsed`, found by walking both together. */
+function unknownFields(raw: unknown, parsed: unknown, path: (string | number)[]): ParseWarning[] {
+  if (Array.isArray(raw) && Array.isArray(parsed)) {
+    return raw.flatMap((item, i) => unknownFields(item, parsed[i], [...path, i]));
+  }
+  if (!isObject(raw) || !isObject(parsed)) return [];
+  return Object.keys(raw).flatMap((key) => {
+    const field = [...path, key].join(".");
+    if (!Object.hasOwn(parsed, key)) return [{ field, message: `Unknown field: ${field}` }];
+    return unknownFields(raw[key], parsed[key], [...path, key]);
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
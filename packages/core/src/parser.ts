@@ -3,32 +3,50 @@ import type {
   Capability,
   AgentPolicy,
   ParameterDef,
+  ParameterValue,
+  ParameterFormat,
   ParseResult,
   ParseError,
   ParseWarning,
+  ParseOptions,
   Protocol,
   AuthType,
   DeclarationType,
   RateLimitWindow,
 } from "./types.js";
-import { parseRateLimit } from "./utils.js";
+import { parseRateLimit, isSupportedSpecVersion, exceedsByteLength, SUPPORTED_SPEC_VERSIONS } from "./utils.js";
 
 type ParserState = "TOP_LEVEL" | "IN_CAPABILITY" | "IN_AGENT";
 
 const VALID_PROTOCOLS = new Set(["REST", "MCP", "A2A", "GraphQL", "WebSocket"]);
 const VALID_AUTH_TYPES = new Set(["none", "api-key", "bearer-token", "oauth2", "hmac"]);
 const VALID_DECLARATION_TYPES = new Set(["platform", "agent"]);
+const VALID_PARAM_FORMATS = new Set(["date-time", "email", "uri"]);
 
 /**
  * Parse an agents.txt text document into a structured AgentsTxtDocument.
+ *
+ * With `options.strict`, anything that would be a warning is an error. The
+ * size limits stop parsing as soon as they are exceeded, so hostile input is
+ * never processed in full.
  */
-export function parse(input: string): ParseResult {
+export function parse(input: string, options: ParseOptions = {}): ParseResult {
   const errors: ParseError[] = [];
   const warnings: ParseWarning[] = [];
+  const strict = options.strict ?? false;
+  const report = (issue: ParseWarning) => (strict ? errors.push(issue) : warnings.push(issue));
+
+  if (options.maxBytes !== undefined && exceedsByteLength(input, options.maxBytes)) {
+    errors.push({ message: `Input exceeds maximum size of ${options.maxBytes} bytes` });
+    return { success: false, errors, warnings };
+  }
+
   const lines = input.split(/\r?\n/);
 
   // Collected data
   let specVersion = "1.0";
+  let specVersionLine: number | undefined;
+  let capabilityCount = 0;
   let generatedAt: string | undefined;
   let declarationType: DeclarationType | undefined;
   const operatesOn: string[] = [];
@@ -75,11 +93,19 @@ export function parse(input: string): ParseResult {
     const raw = lines[i];
     const trimmed = raw.trim();
 
+    if (options.maxLineLength !== undefined && raw.length > options.maxLineLength) {
+      errors.push({ line: lineNum, message: `Line exceeds maximum length of ${options.maxLineLength} characters` });
+      return { success: false, errors, warnings };
+    }
+
     // Skip empty lines and comments
     if (trimmed === "" || trimmed.startsWith("#")) {
       // Extract spec version and generated date from comments
       const specMatch = trimmed.match(/^#\s*Spec-Version:\s*(.+)/i);
-      if (specMatch) specVersion = specMatch[1].trim();
+      if (specMatch) {
+        specVersion = specMatch[1].trim();
+        specVersionLine = lineNum;
+      }
       const genMatch = trimmed.match(/^#\s*Generated:\s*(.+)/i);
       if (genMatch) generatedAt = genMatch[1].trim();
       continue;
@@ -91,7 +117,7 @@ export function parse(input: string): ParseResult {
     if (isIndented && state === "IN_CAPABILITY" && currentCapability) {
       const colonIdx = trimmed.indexOf(":");
       if (colonIdx === -1) {
-        warnings.push({ line: lineNum, message: `Unparseable indented line: "${trimmed}"` });
+        report({ line: lineNum, message: `Unparseable indented line: "${trimmed}"` });
         continue;
       }
       const key = trimmed.slice(0, colonIdx).trim();
@@ -104,7 +130,7 @@ export function parse(input: string): ParseResult {
           if (VALID_PROTOCOLS.has(value)) {
             currentCapability.protocol = value as Protocol;
           } else {
-            warnings.push({ line: lineNum, field: "Protocol", message: `Unknown protocol: ${value}` });
+            report({ line: lineNum, field: "Protocol", message: `Unknown protocol: ${value}` });
             currentCapability.protocol = value as Protocol;
           }
           break;
@@ -113,7 +139,7 @@ export function parse(input: string): ParseResult {
           if (VALID_AUTH_TYPES.has(value)) {
             currentCapability.auth.type = value as AuthType;
           } else {
-            warnings.push({ line: lineNum, field: "Auth", message: `Unknown auth type: ${value}` });
+            report({ line: lineNum, field: "Auth", message: `Unknown auth type: ${value}` });
           }
           break;
         case "Auth-Endpoint":
@@ -133,7 +159,7 @@ export function parse(input: string): ParseResult {
           if (rl) {
             currentCapability.rateLimit = { requests: rl.requests, window: rl.window as RateLimitWindow };
           } else {
-            warnings.push({ line: lineNum, field: "Rate-Limit", message: `Invalid rate limit: ${value}` });
+            report({ line: lineNum, field: "Rate-Limit", message: `Invalid rate limit: ${value}` });
           }
           break;
         }
@@ -145,19 +171,22 @@ export function parse(input: string): ParseResult {
             if (!currentCapability.parameters) currentCapability.parameters = [];
             currentCapability.parameters.push(parsed);
           } else {
-            warnings.push({ line: lineNum, field: "Param", message: `Invalid parameter: ${value}` });
+            report({ line: lineNum, field: "Param", message: `Invalid parameter: ${value}` });
           }
           break;
         }
         default:
-          warnings.push({ line: lineNum, message: `Unknown capability field: ${key}` });
+          report({ line: lineNum, message: `Unknown capability field: ${key}` });
       }
       continue;
     }
 
     if (isIndented && state === "IN_AGENT" && currentAgentPolicy) {
       const colonIdx = trimmed.indexOf(":");
-      if (colonIdx === -1) continue;
+      if (colonIdx === -1) {
+        report({ line: lineNum, message: `Unparseable indented line: "${trimmed}"` });
+        continue;
+      }
       const key = trimmed.slice(0, colonIdx).trim();
       const value = trimmed.slice(colonIdx + 1).trim();
 
@@ -166,6 +195,8 @@ export function parse(input: string): ParseResult {
           const rl = parseRateLimit(value);
           if (rl) {
             currentAgentPolicy.rateLimit = { requests: rl.requests, window: rl.window as RateLimitWindow };
+          } else {
+            report({ line: lineNum, field: "Rate-Limit", message: `Invalid rate limit: ${value}` });
           }
           break;
         }
@@ -176,7 +207,7 @@ export function parse(input: string): ParseResult {
           currentAgentPolicy.agentDeclaration = value;
           break;
         default:
-          warnings.push({ line: lineNum, message: `Unknown agent field: ${key}` });
+          report({ line: lineNum, message: `Unknown agent field: ${key}` });
       }
       continue;
     }
@@ -188,7 +219,7 @@ export function parse(input: string): ParseResult {
     // Parse top-level key: value
     const colonIdx = trimmed.indexOf(":");
     if (colonIdx === -1) {
-      warnings.push({ line: lineNum, message: `Unparseable line: "${trimmed}"` });
+      report({ line: lineNum, message: `Unparseable line: "${trimmed}"` });
       continue;
     }
 
@@ -196,6 +227,10 @@ export function parse(input: string): ParseResult {
     const value = trimmed.slice(colonIdx + 1).trim();
 
     switch (key) {
+      case "Spec-Version":
+        specVersion = value;
+        specVersionLine = lineNum;
+        break;
       case "Site-Name": site.name = value; break;
       case "Site-URL": site.url = value; break;
       case "Description":
@@ -208,7 +243,7 @@ export function parse(input: string): ParseResult {
         if (VALID_DECLARATION_TYPES.has(value)) {
           declarationType = value as DeclarationType;
         } else {
-          warnings.push({ line: lineNum, field: "Declaration-Type", message: `Unknown declaration type: ${value}` });
+          report({ line: lineNum, field: "Declaration-Type", message: `Unknown declaration type: ${value}` });
         }
         break;
       case "Operates-On": operatesOn.push(value); break;
@@ -216,6 +251,11 @@ export function parse(input: string): ParseResult {
       case "Disallow": disallowPaths.push(value); break;
       case "Agents-JSON": metadata["Agents-JSON"] = value; break;
       case "Capability":
+        capabilityCount++;
+        if (options.maxCapabilities !== undefined && capabilityCount > options.maxCapabilities) {
+          errors.push({ line: lineNum, message: `Document exceeds maximum of ${options.maxCapabilities} capabilities` });
+          return { success: false, errors, warnings };
+        }
         currentCapability = { id: value };
         state = "IN_CAPABILITY";
         break;
@@ -234,6 +274,13 @@ export function parse(input: string): ParseResult {
   if (state === "IN_CAPABILITY") flushCapability();
   if (state === "IN_AGENT") flushAgent();
 
+  // Spec version gating
+  if (!isSupportedSpecVersion(specVersion, options.specVersion ?? SUPPORTED_SPEC_VERSIONS)) {
+    const issue = { line: specVersionLine, field: "Spec-Version", message: `Unsupported spec version: ${specVersion}` };
+    if (strict || options.specVersion !== undefined) errors.push(issue);
+    else warnings.push(issue);
+  }
+
   // Validate required fields
   if (!site.name) errors.push({ field: "Site-Name", message: "Site-Name is required" });
   if (!site.url) errors.push({ field: "Site-URL", message: "Site-URL is required" });
@@ -267,24 +314,140 @@ export function parse(input: string): ParseResult {
 }
 
 /**
- * Parse a Param value like: `q (query, string, required) - Search query`
+ * Parse a Param value like: `q (query, string, required, max=200) - Search query`
  */
 function parseParam(value: string): ParameterDef | null {
-  // Format: name (location, type[, required]) [- description]
-  const match = value.match(
-    /^(\w+)\s*\(\s*(\w+)\s*,\s*(\w+)(?:\s*,\s*(required))?\s*\)(?:\s*-\s*(.+))?$/,
-  );
-  if (!match) return null;
+  // Format: name (location, type[, required][, key=value]...) [- description]
+  const head = value.match(/^(\w+)\s*\(/);
+  if (!head) return null;
+
+  // Find the closing parenthesis, skipping over quoted values
+  let end = -1;
+  let quoted = false;
+  for (let i = head[0].length; i < value.length; i++) {
+    const ch = value[i];
+    if (quoted) {
+      if (ch === "\\") i++;
+      else if (ch === '"') quoted = false;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ")") {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) return null;
 
-  const [, name, location, type, req, description] = match;
+  const tail = value.slice(end + 1).match(/^\s*(?:-\s*(.+))?$/);
+  if (!tail) return null;
+
+  const parts = splitOutsideQuotes(value.slice(head[0].length, end), ",").map((p) => p.trim());
+  if (parts.length < 2) return null;
+
+  const [location, type, ...attributes] = parts;
   const validLocations = new Set(["query", "path", "header", "body"]);
-  if (!validLocations.has(location)) return null;
+  if (!validLocations.has(location) || !/^\w+$/.test(type)) return null;
 
-  return {
-    name,
+  const param: ParameterDef = {
+    name: head[1],
     in: location as ParameterDef["in"],
     type,
-    required: req === "required",
-    description: description?.trim(),
+    required: false,
   };
+
+  for (const attr of attributes) {
+    if (attr === "required") {
+      param.required = true;
+      continue;
+    }
+    const eq = attr.indexOf("=");
+    if (eq === -1) return null;
+    const key = attr.slice(0, eq).trim();
+    const raw = attr.slice(eq + 1).trim();
+
+    switch (key) {
+      case "default": {
+        const parsed = parseParamValue(raw, type);
+        if (parsed === undefined) return null;
+        param.default = parsed;
+        break;
+      }
+      case "min":
+      case "max": {
+        const num = Number(raw);
+        if (raw === "" || !Number.isFinite(num)) return null;
+        param[key] = num;
+        break;
+      }
+      case "enum": {
+        const values = splitOutsideQuotes(raw, "|").map((v) => parseParamValue(v.trim(), type));
+        if (values.length === 0 || values.some((v) => v === undefined)) return null;
+        param.enum = values as ParameterValue[];
+        break;
+      }
+      case "format":
+        if (!VALID_PARAM_FORMATS.has(raw)) return null;
+        param.format = raw as ParameterFormat;
+        break;
+      default:
+        return null;
+    }
+  }
+
+  const description = tail[1]?.trim();
+  if (description) param.description = description;
+  return param;
+}
+
+/**
+ * Parse a single Param attribute value. Quoted values are JSON strings;
+ * bare values are coerced according to the parameter type.
+ */
+function parseParamValue(raw: string, type: string): ParameterValue | undefined {
+  if (raw.startsWith('"')) {
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      return typeof parsed === "string" ? parsed : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  if (raw === "") return undefined;
+  if (type === "integer" || type === "number") {
+    const num = Number(raw);
+    if (!Number.isFinite(num) || (type === "integer" && !Number.isInteger(num))) return undefined;
+    return num;
+  }
+  if (type === "boolean") {
+    if (raw === "true") return true;
+    if (raw === "false") return false;
+    return undefined;
+  }
+  return raw;
+}
+
+/**
+ * Split on a separator character, ignoring separators inside double quotes.
+ */
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (quoted && ch === "\\") {
+      current += ch + (value[i + 1] ?? "");
+      i++;
+      continue;
+    }
+    if (ch === '"') quoted = !quoted;
+    if (ch === separator && !quoted) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts;
 }
@@ -0,0 +1,70 @@
+import type { AgentPolicy, AgentsTxtDocument, RateLimit } from "./types.js";
+import { windowToMs } from "./utils.js";
+
+/**
+ * agents.txt - Agent policy resolution (SPEC 3.6, 7.2)
+ */
+
+export interface ResolvedAgentPolicy {
+  /** The `doc.agents` key that matched, "*" for the fallback, or null if neither exists. */
+  agent: string | null;
+  /** The matched policy as declared. A named block replaces `*`; it does not inherit from it. */
+  policy: AgentPolicy;
+  /** IDs of the declared capabilities this agent may use, in document order. */
+  capabilities: string[];
+  /** Agent-level rate limit, applying across all capabilities. */
+  rateLimit?: RateLimit;
+  /** Effective limit per allowed capability: the more restrictive of the capability and agent limits. */
+  rateLimits: Record<string, RateLimit>;
+}
+
+/**
+ * The agent name a User-Agent identifies: its first token, without a
+ * `/version` suffix, lowercased. "Claude/1.0 (+https://...)" gives "claude".
+ */
+export function agentNameFromUserAgent(userAgent: string): string {
+  const token = userAgent.trim().split(/\s+/)[0] ?? "";
+  return token.split("/")[0].toLowerCase();
+}
+
+/**
+ * Resolve the policy that applies to a User-Agent. Agent names match the
+ * first User-Agent token case-insensitively; `*` is the fallback.
+ */
+export function resolveAgentPolicy(doc: AgentsTxtDocument, userAgent: string | undefined): ResolvedAgentPolicy {
+  const name = userAgent ? agentNameFromUserAgent(userAgent) : "";
+  const agent =
+    (name && Object.keys(doc.agents).find((key) => key !== "*" && key.toLowerCase() === name)) ||
+    (Object.hasOwn(doc.agents, "*") ? "*" : null);
+  const policy = agent !== null ? doc.agents[agent] : {};
+
+  const allowed = policy.capabilities ? new Set(policy.capabilities) : null;
+  const capabilities = doc.capabilities.filter((c) => !allowed || allowed.has(c.id));
+
+  const rateLimits: Record<string, RateLimit> = {};
+  for (const cap of capabilities) {
+    const limit = moreRestrictive(cap.rateLimit, policy.rateLimit);
+    if (limit) rateLimits[cap.id] = limit;
+  }
+
+  return {
+    agent,
+    policy,
+    capabilities: capabilities.map((c) => c.id),
+    ...(policy.rateLimit ? { rateLimit: policy.rateLimit } : {}),
+    rateLimits,
+  };
+}
+
+/**
+ * The limit allowing fewer requests per unit of time. On a tie the first wins.
+ */
+export function moreRestrictive(a: RateLimit | undefined, b: RateLimit | undefined): RateLimit | undefined {
+  if (!a || !b) return a ?? b;
+  return requestsPerMs(b) < requestsPerMs(a) ? b : a;
+}
+
+function requestsPerMs(limit: RateLimit): number {
+  const ms = windowToMs(limit.window);
+  return ms ? limit.requests / ms : Infinity;
+}
@@ -0,0 +1,222 @@
+/**
+ * agents.txt - Reading rate limit headers
+ *
+ * Servers report where an agent stands against their limits in response
+ * headers (SPEC 7.3). This reads the IETF RateLimit and RateLimit-Policy
+ * fields (draft-ietf-httpapi-ratelimit-headers, including the earlier
+ * `limit=, remaining=, reset=` form), X-RateLimit-Limit/-Remaining/-Reset
+ * and Retry-After, so an agent can slow down before it is refused.
+ */
+
+/** One limit the server applies. */
+export interface RateLimitPolicyInfo {
+  /** The policy name from the RateLimit fields, if the server gave one. */
+  name?: string;
+  /** Requests allowed per window. */
+  limit?: number;
+  /** Window length in seconds. */
+  windowSeconds?: number;
+  /** Requests left in the current window. */
+  remaining?: number;
+  /** Seconds until the limit is available again. */
+  resetSeconds?: number;
+}
+
+export interface RateLimitInfo {
+  /** Requests allowed under the policy closest to running out. */
+  limit?: number;
+  /** Requests left under that policy. */
+  remaining?: number;
+  /** Seconds until that policy is available again. */
+  resetSeconds?: number;
+  /** Seconds to wait before retrying, from Retry-After. */
+  retryAfterSeconds?: number;
+  /** Every policy the headers describe. */
+  policies: RateLimitPolicyInfo[];
+}
+
+export interface RateLimitDelayOptions {
+  /**
+   * Spread the remaining requests evenly over the time until reset instead
+   * of only waiting once none are left. Default: false.
+   */
+  spread?: boolean;
+}
+
+type HeaderSource = Headers | Record<string, string | string[] | undefined>;
+
+/**
+ * Read the rate limit headers of a response, or undefined if it has none.
+ * `now` (ms) turns an absolute X-RateLimit-Reset or Retry-After date into
+ * seconds from now.
+ */
+export function parseRateLimitHeaders(headers: HeaderSource, now = Date.now()): RateLimitInfo | undefined {
+  const get = headerGetter(headers);
+  const policies = parseIetfFields(get("ratelimit-policy"), get("ratelimit"));
+
+  if (policies.length === 0) {
+    const legacy: RateLimitPolicyInfo = {
+      limit: toNumber(get("x-ratelimit-limit")),
+      remaining: toNumber(get("x-ratelimit-remaining")),
+      resetSeconds: toResetSeconds(get("x-ratelimit-reset"), now),
+    };
+    if (legacy.limit !== undefined || legacy.remaining !== undefined || legacy.resetSeconds !== undefined) {
+      policies.push(withoutUndefined(legacy));
+    }
+  }
+
+  const retryAfterSeconds = toRetryAfterSeconds(get("retry-after"), now);
+  if (policies.length === 0 && retryAfterSeconds === undefined) return undefined;
+
+  // The policy closest to running out decides
+  let closest: RateLimitPolicyInfo | undefined;
+  for (const policy of policies) {
+    if (!closest || (policy.remaining ?? Infinity) < (closest.remaining ?? Infinity)) closest = policy;
+  }
+  return withoutUndefined({
+    limit: closest?.limit,
+    remaining: closest?.remaining,
+    resetSeconds: closest?.resetSeconds,
+    retryAfterSeconds,
+    policies,
+  });
+}
+
+/**
+ * How long to wait before the next request, in ms: Retry-After if given,
+ * else until reset once nothing remains, else nothing (or, with `spread`,
+ * an even share of the time until reset).
+ */
+export function rateLimitDelay(info: RateLimitInfo | undefined, options: RateLimitDelayOptions = {}): number {
+  if (!info) return 0;
+  if (info.retryAfterSeconds !== undefined) return info.retryAfterSeconds * 1000;
+  if (info.remaining === undefined || info.resetSeconds === undefined) return 0;
+  if (info.remaining <= 0) return info.resetSeconds * 1000;
+  return options.spread ? Math.ceil((info.resetSeconds * 1000) / info.remaining) : 0;
+}
+
+function headerGetter(headers: HeaderSource): (name: string) => string | undefined {
+  if (typeof Headers !== "undefined" && headers instanceof Headers) return (name) => headers.get(name) ?? undefined;
+  const lower = new Map(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), Array.isArray(v) ? v.join(", ") : v]));
+  return (name) => lower.get(name);
+}
+
+/** Merge RateLimit-Policy (q, w) and RateLimit (r, t) entries by policy name, or by position when unnamed. */
+function parseIetfFields(policyField: string | undefined, limitField: string | undefined): RateLimitPolicyInfo[] {
+  const policies: RateLimitPolicyInfo[] = [];
+  const byName = new Map<string, RateLimitPolicyInfo>();
+  const policyFor = (name: string | undefined, index: number) => {
+    let policy = name !== undefined ? byName.get(name) : policies.filter((p) => p.name === undefined)[index];
+    if (!policy) {
+      policy = name !== undefined ? { name } : {};
+      policies.push(policy);
+      if (name !== undefined) byName.set(name, policy);
+    }
+    return policy;
+  };
+
+  let unnamed = 0;
+  for (const item of parseList(policyField)) {
+    const policy = policyFor(item.name, item.name === undefined ? unnamed++ : 0);
+    // The earlier draft put the quota first: "100;w=60"
+    policy.limit = item.params.q ?? item.value;
+    policy.windowSeconds = item.params.w;
+  }
+
+  const items = parseList(limitField);
+  if (items.some((item) => item.key !== undefined)) {
+    // The earlier draft's dictionary: "limit=100, remaining=50, reset=30"
+    const fields = Object.fromEntries(items.map((item) => [item.key, item.value]));
+    const policy = policyFor(undefined, 0);
+    policy.limit = fields.limit ?? policy.limit;
+    policy.remaining = fields.remaining;
+    policy.resetSeconds = fields.reset;
+  } else {
+    unnamed = 0;
+    for (const item of items) {
+      const policy = policyFor(item.name, item.name === undefined ? unnamed++ : 0);
+      policy.remaining = item.params.r;
+      policy.resetSeconds = item.params.t;
+    }
+  }
+  return policies.map(withoutUndefined).filter((p) => Object.keys(p).length > 0);
+}
+
+interface ListItem {
+  /** A string or token item: the policy name. */
+  name?: string;
+  /** An integer item, or a dictionary member's value. */
+  value?: number;
+  /** A dictionary member's key. */
+  key?: string;
+  params: Record<string, number | undefined>;
+}
+
+/** A lenient reading of a structured field list (RFC 8941) of named items with numeric parameters. */
+function parseList(field: string | undefined): ListItem[] {
+  if (!field) return [];
+  return splitOutsideQuotes(field, ",").flatMap((member): ListItem[] => {
+    const [head, ...rest] = splitOutsideQuotes(member, ";").map((part) => part.trim());
+    if (!head) return [];
+    const params: Record<string, number | undefined> = {};
+    for (const param of rest) {
+      const eq = param.indexOf("=");
+      if (eq > 0) params[param.slice(0, eq).trim()] = toNumber(param.slice(eq + 1));
+    }
+
+    if (head.startsWith('"')) return [{ name: head.slice(1, -1).replace(/\\(.)/g, "$1"), params }];
+    if (/^-?\d+$/.test(head)) return [{ value: Number(head), params }];
+    const eq = head.indexOf("=");
+    if (eq > 0) return [{ key: head.slice(0, eq).trim(), value: toNumber(head.slice(eq + 1)), params }];
+    return [{ name: head, params }];
+  });
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (quoted && ch === "\\") {
+      current += ch + (value[++i] ?? "");
+      continue;
+    }
+    if (ch === '"') quoted = !quoted;
+    if (ch === separator && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value.trim());
+  return value.trim() !== "" && Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/** X-RateLimit-Reset is seconds from now for some servers and a Unix time for others. */
+function toResetSeconds(value: string | undefined, now: number): number | undefined {
+  const n = toNumber(value);
+  if (n === undefined) return undefined;
+  // No window is 30 years long: anything larger is a Unix time
+  return n > 1_000_000_000 ? Math.max(0, Math.ceil(n - now / 1000)) : n;
+}
+
+/** Retry-After is delay-seconds or an HTTP date. */
+function toRetryAfterSeconds(value: string | undefined, now: number): number | undefined {
+  if (value === undefined) return undefined;
+  const n = toNumber(value);
+  if (n !== undefined) return n;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
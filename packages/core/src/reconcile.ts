@@ -0,0 +1,222 @@
+import type { AgentPolicy, AgentsTxtDocument, Capability, ParameterDef } from "./types.js";
+
+/**
+ * agents.txt - Reconciling agents.txt and agents.json
+ *
+ * A site may publish both formats (SPEC 2.4). They should describe the same
+ * thing; reconcile() merges them into one document, records which format
+ * each field came from and lists every place they disagree. On a conflict
+ * the preferred format (agents.json by default, SPEC 9.2) wins; a field only
+ * one format has is taken from that format.
+ */
+
+export type DocumentFormat = "txt" | "json";
+
+/** Which format a field was taken from: "both" when they agree. */
+export type Provenance = DocumentFormat | "both";
+
+export interface Inconsistency {
+  /** Document path, e.g. "capabilities.search.rateLimit". */
+  path: string;
+  message: string;
+  /** The value in agents.txt (absent if the field is not there). */
+  txt?: unknown;
+  /** The value in agents.json (absent if the field is not there). */
+  json?: unknown;
+}
+
+export interface ReconcileResult {
+  document: AgentsTxtDocument;
+  /** Format of origin by document path, for every field, capability and agent. */
+  provenance: Record<string, Provenance>;
+  inconsistencies: Inconsistency[];
+}
+
+const CAPABILITY_FIELDS = [
+  "description",
+  "endpoint",
+  "method",
+  "protocol",
+  "auth",
+  "rateLimit",
+  "openapi",
+  "parameters",
+  "scopes",
+] as const satisfies readonly (keyof Capability)[];
+
+const AGENT_FIELDS = ["rateLimit", "capabilities", "agentDeclaration"] as const satisfies readonly (keyof AgentPolicy)[];
+
+const SITE_FIELDS = ["name", "url", "description", "contact", "privacyPolicy"] as const;
+
+/** Fields that only one format carries by design; a difference is not an inconsistency. */
+const ONE_FORMAT_PATHS = new Set(["generatedAt", "metadata.Agents-JSON"]);
+
+/**
+ * Merge an agents.txt and an agents.json document for the same site.
+ */
+export function reconcile(
+  txt: AgentsTxtDocument,
+  json: AgentsTxtDocument,
+  preferred: DocumentFormat = "json",
+): ReconcileResult {
+  const provenance: Record<string, Provenance> = {};
+  const inconsistencies: Inconsistency[] = [];
+  const [first, second] = preferred === "json" ? [json, txt] : [txt, json];
+  const other: DocumentFormat = preferred === "json" ? "txt" : "json";
+
+  /** Pick a value for a path, recording provenance and any disagreement. */
+  function pick<T>(
+    path: string,
+    values: { txt: T | undefined; json: T | undefined },
+    normalize = (v: T | undefined): unknown => v,
+  ): T | undefined {
+    const preferredValue = values[preferred];
+    const otherValue = values[other];
+    if (canonical(normalize(values.txt)) === canonical(normalize(values.json))) {
+      if (values.txt !== undefined || values.json !== undefined) provenance[path] = "both";
+      return preferredValue ?? otherValue;
+    }
+
+    const chosen = preferredValue !== undefined ? preferred : other;
+    provenance[path] = chosen;
+    if (!ONE_FORMAT_PATHS.has(path)) {
+      inconsistencies.push({
+        path,
+        message: describe(path, values.txt, values.json),
+        ...(values.txt !== undefined ? { txt: values.txt } : {}),
+        ...(values.json !== undefined ? { json: values.json } : {}),
+      });
+    }
+    return chosen === preferred ? preferredValue : otherValue;
+  }
+
+  const site = { ...first.site };
+  for (const field of SITE_FIELDS) {
+    const value = pick(`site.${field}`, { txt: txt.site[field], json: json.site[field] });
+    if (value !== undefined) site[field] = value;
+    else delete site[field];
+  }
+
+  const document: AgentsTxtDocument = {
+    specVersion: pick("specVersion", { txt: txt.specVersion, json: json.specVersion })!,
+    site,
+    capabilities: [],
+    access: {
+      allow: pick("access.allow", { txt: txt.access.allow, json: json.access.allow }) ?? [],
+      disallow: pick("access.disallow", { txt: txt.access.disallow, json: json.access.disallow }) ?? [],
+    },
+    agents: {},
+  };
+  const optional = {
+    generatedAt: pick("generatedAt", { txt: txt.generatedAt, json: json.generatedAt }),
+    declarationType: pick("declarationType", { txt: txt.declarationType, json: json.declarationType }, (v) => v ?? "platform"),
+    operatesOn: pick("operatesOn", { txt: emptyToUndefined(txt.operatesOn), json: emptyToUndefined(json.operatesOn) }),
+  };
+  for (const [key, value] of Object.entries(optional)) {
+    if (value !== undefined) Object.assign(document, { [key]: value });
+  }
+
+  // Capabilities: the preferred format's order, then any only the other has
+  const byId = (doc: AgentsTxtDocument) => new Map(doc.capabilities.map((c) => [c.id, c]));
+  const txtCaps = byId(txt);
+  const jsonCaps = byId(json);
+  const ids = [...new Set([...first.capabilities, ...second.capabilities].map((c) => c.id))];
+  for (const id of ids) {
+    const path = `capabilities.${id}`;
+    const fromTxt = txtCaps.get(id);
+    const fromJson = jsonCaps.get(id);
+    if (!fromTxt || !fromJson) {
+      const only: DocumentFormat = fromTxt ? "txt" : "json";
+      provenance[path] = only;
+      inconsistencies.push({ path, message: `Capability "${id}" is only in agents.${only}` });
+      document.capabilities.push((fromTxt ?? fromJson)!);
+      continue;
+    }
+
+    provenance[path] = "both";
+    const merged: Capability = { ...(preferred === "json" ? fromJson : fromTxt) };
+    for (const field of CAPABILITY_FIELDS) {
+      const value = pick(`${path}.${field}`, { txt: fromTxt[field], json: fromJson[field] }, (v) =>
+        normalizeCapabilityField(field, v),
+      );
+      if (value !== undefined) Object.assign(merged, { [field]: value });
+      else delete merged[field];
+    }
+    document.capabilities.push(merged);
+  }
+
+  // Agents match by name case-insensitively, as User-Agents do
+  const names = new Map<string, string>();
+  for (const name of [...Object.keys(first.agents), ...Object.keys(second.agents)]) {
+    if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+  }
+  const findAgent = (doc: AgentsTxtDocument, lower: string) =>
+    Object.entries(doc.agents).find(([name]) => name.toLowerCase() === lower)?.[1];
+  for (const [lower, name] of names) {
+    const path = `agents.${name}`;
+    const fromTxt = findAgent(txt, lower);
+    const fromJson = findAgent(json, lower);
+    if (!fromTxt || !fromJson) {
+      const only: DocumentFormat = fromTxt ? "txt" : "json";
+      provenance[path] = only;
+      inconsistencies.push({ path, message: `Agent "${name}" is only in agents.${only}` });
+      document.agents[name] = (fromTxt ?? fromJson)!;
+      continue;
+    }
+
+    provenance[path] = "both";
+    const merged: AgentPolicy = {};
+    for (const field of AGENT_FIELDS) {
+      const value = pick(`${path}.${field}`, { txt: fromTxt[field], json: fromJson[field] });
+      if (value !== undefined) Object.assign(merged, { [field]: value });
+    }
+    document.agents[name] = merged;
+  }
+
+  const keys = [...new Set([...Object.keys(first.metadata ?? {}), ...Object.keys(second.metadata ?? {})])];
+  if (keys.length > 0) {
+    document.metadata = {};
+    for (const key of keys) {
+      const value = pick(`metadata.${key}`, { txt: txt.metadata?.[key], json: json.metadata?.[key] });
+      if (value !== undefined) document.metadata[key] = value;
+    }
+  }
+
+  return { document, provenance, inconsistencies };
+}
+
+/** Treat spellings both formats use for the same thing as equal. */
+function normalizeCapabilityField(field: (typeof CAPABILITY_FIELDS)[number], value: unknown): unknown {
+  switch (field) {
+    case "method":
+      return typeof value === "string" ? value.toUpperCase() : "GET";
+    case "auth":
+      return value ?? { type: "none" };
+    case "parameters":
+      // The text parser always sets `required`
+      return emptyToUndefined(value as ParameterDef[] | undefined)?.map((p) => ({ ...p, required: p.required ?? false }));
+    case "scopes":
+      return emptyToUndefined(value as unknown[] | undefined);
+    default:
+      return value;
+  }
+}
+
+function emptyToUndefined<T>(list: T[] | undefined): T[] | undefined {
+  return list && list.length > 0 ? list : undefined;
+}
+
+function describe(path: string, txt: unknown, json: unknown): string {
+  if (txt === undefined) return `${path} is only in agents.json`;
+  if (json === undefined) return `${path} is only in agents.txt`;
+  return `${path} differs: ${JSON.stringify(txt)} in agents.txt, ${JSON.stringify(json)} in agents.json`;
+}
+
+/** JSON with object keys sorted, so key order does not matter. */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v,
+  ) ?? "undefined";
+}
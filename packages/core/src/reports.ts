@@ -0,0 +1,214 @@
+import type { SourceRange, ValidationError, ValidationResult } from "./types.js";
+import { BUILTIN_RULES } from "./lint.js";
+import type { LintRule } from "./lint.js";
+
+/**
+ * agents.txt - Validation reports
+ *
+ * Renders a ValidationResult for tools: SARIF 2.1.0 for code-scanning UIs,
+ * JUnit XML for test dashboards and a versioned JSON shape for scripts.
+ */
+
+export type ReportFormat = "json" | "sarif" | "junit";
+
+export interface ReportOptions {
+  /** Path or URI of the validated file, as it should appear in the report. Default: "agents.txt". */
+  file?: string;
+  /** Custom lint rules that were active, so their descriptions can be included. */
+  rules?: LintRule[];
+}
+
+export interface ReportProblem {
+  severity: "error" | "warning";
+  code: string;
+  rule?: string;
+  path: string;
+  message: string;
+  range?: SourceRange;
+}
+
+/** The JSON report. `version` changes only when the shape does. */
+export interface JsonReport {
+  version: 1;
+  file: string;
+  valid: boolean;
+  summary: { errors: number; warnings: number };
+  problems: ReportProblem[];
+}
+
+/** A SARIF 2.1.0 log: the subset of the format that toSARIF() writes. */
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: { driver: { name: string; informationUri: string; rules: SarifRule[] } };
+  results: SarifResult[];
+}
+
+export interface SarifRule {
+  id: string;
+  shortDescription?: { text: string };
+  properties?: { code: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  /** Index of the rule in the driver's `rules`. */
+  ruleIndex: number;
+  level: "error" | "warning";
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region?: { startLine: number; startColumn: number; endLine: number; endColumn: number };
+    };
+  }[];
+  properties: { code: string; path: string };
+}
+
+const TOOL_NAME = "agents-txt";
+const TOOL_URI = "https://github.com/kaylacar/agents-txt";
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+/**
+ * Render a validation result as JSON, SARIF or JUnit XML.
+ */
+export function formatReport(result: ValidationResult, format: ReportFormat, options: ReportOptions = {}): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(toJSONReport(result, options), null, 2);
+    case "sarif":
+      return JSON.stringify(toSARIF(result, options), null, 2);
+    case "junit":
+      return toJUnit(result, options);
+  }
+}
+
+/**
+ * The stable JSON report: errors first, then warnings, each with its range.
+ */
+export function toJSONReport(result: ValidationResult, options: ReportOptions = {}): JsonReport {
+  return {
+    version: 1,
+    file: options.file ?? "agents.txt",
+    valid: result.valid,
+    summary: { errors: result.errors.length, warnings: result.warnings.length },
+    problems: problems(result),
+  };
+}
+
+/**
+ * A SARIF 2.1.0 log with one run. Results without a source range point at
+ * the file as a whole.
+ */
+export function toSARIF(result: ValidationResult, options: ReportOptions = {}): SarifLog {
+  const file = options.file ?? "agents.txt";
+  const known = [...BUILTIN_RULES, ...(options.rules ?? [])];
+  const all = problems(result);
+
+  const ruleIds = [...new Set(all.map(ruleId))];
+  const rules = ruleIds.map((id): SarifRule => {
+    const rule = known.find((r) => r.id === id);
+    return {
+      id,
+      ...(rule ? { shortDescription: { text: rule.description } } : {}),
+      ...(rule?.code ? { properties: { code: rule.code } } : {}),
+    };
+  });
+
+  const results = all.map((problem): SarifResult => ({
+    ruleId: ruleId(problem),
+    ruleIndex: ruleIds.indexOf(ruleId(problem)),
+    level: problem.severity,
+    message: { text: problem.path ? `${problem.path}: ${problem.message}` : problem.message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: file },
+          ...(problem.range
+            ? {
+                region: {
+                  startLine: problem.range.line,
+                  startColumn: problem.range.column,
+                  endLine: problem.range.endLine,
+                  endColumn: problem.range.endColumn,
+                },
+              }
+            : {}),
+        },
+      },
+    ],
+    properties: { code: problem.code, path: problem.path },
+  }));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [{ tool: { driver: { name: TOOL_NAME, informationUri: TOOL_URI, rules } }, results }],
+  };
+}
+
+/**
+ * A JUnit XML report with one test case per problem. Errors are failures;
+ * warnings pass with the message in `<system-out>`. A clean result is a
+ * single passing test case.
+ */
+export function toJUnit(result: ValidationResult, options: ReportOptions = {}): string {
+  const file = options.file ?? "agents.txt";
+  const all = problems(result);
+  const failures = result.errors.length;
+
+  const cases = all.map((problem) => {
+    const name = escapeXml(`${ruleId(problem)} ${problem.path}`.trim());
+    const where = problem.range ? `${file}:${problem.range.line}:${problem.range.column}` : file;
+    const detail = escapeXml(`${where}: ${problem.message}`);
+    const body =
+      problem.severity === "error"
+        ? `<failure type="${escapeXml(problem.code)}" message="${escapeXml(problem.message)}">${detail}</failure>`
+        : `<system-out>warning: ${detail}</system-out>`;
+    return `    <testcase classname="${escapeXml(file)}" name="${name}">${body}</testcase>`;
+  });
+  if (cases.length === 0) cases.push(`    <testcase classname="${escapeXml(file)}" name="valid"/>`);
+
+  const tests = Math.max(all.length, 1);
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="${TOOL_NAME}" tests="${tests}" failures="${failures}">`,
+    `  <testsuite name="${escapeXml(file)}" tests="${tests}" failures="${failures}" errors="0" skipped="0">`,
+    ...cases,
+    `  </testsuite>`,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+}
+
+function problems(result: ValidationResult): ReportProblem[] {
+  const toProblem = (severity: ReportProblem["severity"]) => (p: ValidationError): ReportProblem => ({
+    severity,
+    code: p.code,
+    ...(p.rule ? { rule: p.rule } : {}),
+    path: p.path,
+    message: p.message,
+    ...(p.range ? { range: p.range } : {}),
+  });
+  return [...result.errors.map(toProblem("error")), ...result.warnings.map(toProblem("warning"))];
+}
+
+/** Lint problems are identified by rule ID; parse problems by their code. */
+function ruleId(problem: ReportProblem): string {
+  return problem.rule ?? problem.code;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Characters XML 1.0 cannot represent at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
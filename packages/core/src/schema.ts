@@ -18,6 +18,8 @@ export const AuthConfigSchema = z.object({
 
 export const ProtocolSchema = z.enum(["REST", "MCP", "A2A", "GraphQL", "WebSocket"]);
 
+export const ParameterFormatSchema = z.enum(["date-time", "email", "uri"]);
+
 export const ParameterDefSchema = z.object({
   name: z.string().min(1),
   in: z.enum(["query", "path", "header", "body"]),
@@ -27,6 +29,8 @@ export const ParameterDefSchema = z.object({
   description: z.string().optional(),
   max: z.number().optional(),
   min: z.number().optional(),
+  enum: z.array(z.union([z.string(), z.number(), z.boolean()])).min(1).optional(),
+  format: ParameterFormatSchema.optional(),
 });
 
 export const CapabilitySchema = z.object({
@@ -0,0 +1,166 @@
+import type { AgentsTxtDocument } from "./types.js";
+import { getPublicSuffix } from "tldts";
+
+/**
+ * agents.txt - Scope analysis (SPEC 8.5)
+ *
+ * A file may only declare capabilities for its own domain. These helpers
+ * compare every URL a document points at against the site it came from.
+ */
+
+export type ScopeMode = "same-origin" | "registrable-domain";
+
+export interface ScopePolicy {
+  /** "same-origin" compares scheme, host and port; "registrable-domain" compares eTLD+1. Default: "registrable-domain". */
+  mode?: ScopeMode;
+  /** Partner origins (e.g. "https://api.partner.com") that are always in scope. */
+  allowedOrigins?: string[];
+  /** Extra public suffixes, in Public Suffix List syntax, on top of the Public Suffix List. */
+  publicSuffixes?: string[];
+  /**
+   * Which Operates-On platforms of an agent declaration are in scope. A
+   * document names its own platforms, so by default none are: `true` trusts
+   * all of them, a list of origins trusts those the document also names (e.g.
+   * the platforms whose Agent-Declaration points back to it).
+   */
+  operatesOn?: boolean | string[];
+}
+
+export interface ScopeViolation {
+  /** Document path of the offending field, e.g. "capabilities.search.endpoint". */
+  path: string;
+  url: string;
+  message: string;
+  /** ID of the capability the field belongs to, if any. */
+  capability?: string;
+}
+
+export interface ScopeAnalysis {
+  /** Origin the document was checked against, or null when it has no usable URL. */
+  siteOrigin: string | null;
+  violations: ScopeViolation[];
+}
+
+/**
+ * Check the URLs a document points at (capability endpoints, auth token
+ * endpoints, OpenAPI specs and the Agents-JSON cross-reference) against the
+ * site. `siteUrl` defaults to the document's own Site-URL; pass the URL the
+ * file was fetched from to avoid trusting what the file says about itself.
+ *
+ * Agent declarations describe capabilities on other platforms. Their
+ * Operates-On URLs are in scope only as far as `policy.operatesOn` trusts them.
+ */
+export function analyzeScope(
+  doc: AgentsTxtDocument,
+  policy: ScopePolicy = {},
+  siteUrl: string = doc.site.url,
+): ScopeAnalysis {
+  const site = toURL(siteUrl);
+  if (!site) return { siteOrigin: null, violations: [] };
+
+  const scopes = [site];
+  if (doc.declarationType === "agent" && policy.operatesOn) {
+    const trusted = Array.isArray(policy.operatesOn) ? new Set(policy.operatesOn.map((o) => toURL(o)?.origin)) : null;
+    for (const platform of doc.operatesOn ?? []) {
+      const url = toURL(platform);
+      if (url && (!trusted || trusted.has(url.origin))) scopes.push(url);
+    }
+  }
+
+  const suffixes = new Set(policy.publicSuffixes ?? []);
+  const allowed = new Set((policy.allowedOrigins ?? []).map((o) => toURL(o)?.origin).filter((o): o is string => !!o));
+  const violations: ScopeViolation[] = [];
+
+  const check = (path: string, value: string | undefined, capability?: string) => {
+    if (!value) return;
+    // Relative references resolve against the site and are always in scope
+    const url = toURL(value, site);
+    if (!url || allowed.has(url.origin)) return;
+    if (scopes.some((scope) => sameScope(url, scope, policy.mode ?? "registrable-domain", suffixes))) return;
+    violations.push({
+      path,
+      url: value,
+      message: `${url.origin} is outside the scope of ${site.origin}`,
+      ...(capability !== undefined ? { capability } : {}),
+    });
+  };
+
+  for (const cap of doc.capabilities) {
+    check(`capabilities.${cap.id}.endpoint`, cap.endpoint, cap.id);
+    check(`capabilities.${cap.id}.auth.tokenEndpoint`, cap.auth?.tokenEndpoint, cap.id);
+    check(`capabilities.${cap.id}.openapi`, cap.openapi, cap.id);
+  }
+  check("metadata.Agents-JSON", doc.metadata?.["Agents-JSON"]);
+
+  return { siteOrigin: site.origin, violations };
+}
+
+/**
+ * Whether a platform's document confirms an agent declaration: one of its
+ * Agent blocks has an Agent-Declaration on the agent's host (SPEC 3.8).
+ */
+export function confirmsAgent(platform: AgentsTxtDocument, platformUrl: string, agentUrl: string): boolean {
+  const agent = toURL(agentUrl);
+  const base = toURL(platformUrl);
+  if (!agent || !base) return false;
+  return Object.values(platform.agents).some((policy) => {
+    const declaration = policy.agentDeclaration !== undefined ? toURL(policy.agentDeclaration, base) : null;
+    return declaration !== null && declaration.hostname === agent.hostname;
+  });
+}
+
+/**
+ * The registrable domain (eTLD+1) of a hostname, e.g. "shop.example.co.uk" ->
+ * "example.co.uk". IP addresses and single-label hosts are returned as-is;
+ * a hostname that is itself a public suffix gives null.
+ */
+export function registrableDomain(hostname: string, extraSuffixes: readonly string[] = []): string | null {
+  return domainOf(hostname, new Set(extraSuffixes));
+}
+
+/** The registrable domain under the full Public Suffix List (private domains included) and any extra suffixes. */
+function domainOf(hostname: string, extraSuffixes: ReadonlySet<string>): string | null {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  if (isIPAddress(host) || !host.includes(".")) return host;
+
+  const labels = host.split(".");
+  const listed = getPublicSuffix(host, { allowPrivateDomains: true })?.split(".").length ?? 1;
+  const suffixLength = Math.max(listed, publicSuffixLength(labels, extraSuffixes));
+  if (suffixLength >= labels.length) return null;
+  return labels.slice(labels.length - suffixLength - 1).join(".");
+}
+
+/** Number of trailing labels that form the public suffix under `suffixes`, per the PSL algorithm. */
+function publicSuffixLength(labels: string[], suffixes: ReadonlySet<string>): number {
+  let longest = 1; // The implicit "*" rule
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join(".");
+    const length = labels.length - i;
+    // Exception rules win outright and drop their leftmost label
+    if (suffixes.has(`!${candidate}`)) return length - 1;
+    if (suffixes.has(candidate) && length > longest) longest = length;
+    const wildcard = labels.slice(i + 1).join(".");
+    if (i + 1 < labels.length && suffixes.has(`*.${wildcard}`) && length > longest) longest = length;
+  }
+  return longest;
+}
+
+function sameScope(url: URL, site: URL, mode: ScopeMode, suffixes: ReadonlySet<string>): boolean {
+  if (url.origin === site.origin) return true;
+  if (mode === "same-origin") return false;
+  const domain = domainOf(url.hostname, suffixes);
+  return domain !== null && domain === domainOf(site.hostname, suffixes);
+}
+
+function toURL(value: string, base?: URL): URL | null {
+  try {
+    const url = new URL(value, base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function isIPAddress(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.startsWith("[");
+}
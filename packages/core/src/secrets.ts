@@ -0,0 +1,167 @@
+import type { AgentsTxtDocument } from "./types.js";
+
+/**
+ * agents.txt - Secret detection (SPEC 8.2)
+ *
+ * agents.txt is public. These checks look for credential shapes in every
+ * string of a document so they are caught before the file is published.
+ */
+
+export type SecretKind =
+  | "private-key"
+  | "jwt"
+  | "bearer-token"
+  | "aws-access-key"
+  | "api-token"
+  | "url-credentials"
+  | "credential-param";
+
+export interface SecretFinding {
+  /** Document path of the value, e.g. "capabilities.search.endpoint". */
+  path: string;
+  kind: SecretKind;
+  message: string;
+  /** The first characters of the match, for locating it without repeating the secret. */
+  excerpt: string;
+}
+
+/**
+ * Thrown by the generators when a document contains something that looks
+ * like a credential. Pass `allowSecrets: true` to publish anyway.
+ */
+export class SecretLeakError extends Error {
+  readonly findings: SecretFinding[];
+
+  constructor(findings: SecretFinding[]) {
+    super(
+      `Refusing to publish a document that appears to contain secrets: ${findings.map((f) => `${f.path} (${f.kind})`).join(", ")}`,
+    );
+    this.name = "SecretLeakError";
+    this.findings = findings;
+  }
+}
+
+const KIND_LABELS: Record<SecretKind, string> = {
+  "private-key": "private key",
+  jwt: "JSON Web Token",
+  "bearer-token": "bearer token",
+  "aws-access-key": "AWS access key",
+  "api-token": "API token",
+  "url-credentials": "credentials in URL",
+  "credential-param": "credential parameter",
+};
+
+const PATTERNS: { kind: SecretKind; pattern: RegExp; random?: boolean }[] = [
+  { kind: "private-key", pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----/g },
+  { kind: "jwt", pattern: /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/g },
+  { kind: "bearer-token", pattern: /\bBearer\s+([\w\-.~+/]{16,}=*)/gi, random: true },
+  { kind: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: "api-token", pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { kind: "api-token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { kind: "api-token", pattern: /\b[rs]k_live_[A-Za-z0-9]{16,}/g },
+  { kind: "api-token", pattern: /\bAIza[\w-]{35}\b/g },
+];
+
+/** Names that mark a query parameter or `name=value` pair as a credential. */
+const CREDENTIAL_NAME = /^(?:api[_-]?key|apikey|x-api-key|key|token|access[_-]?token|auth[_-]?token|auth|secret|client[_-]?secret|password|passwd|pwd|sig|signature|session[_-]?id)$/i;
+const ASSIGNMENT = /\b([A-Za-z][\w-]*)\s*[=:]\s*["']?([^\s&"',;]+)/g;
+const PLACEHOLDER = /^(?:\{[^}]*\}|:\w+|<[^>]*>|\$\{?\w+\}?|x+|\*+|\.{3}|your[\w-]*|redacted|none|null|true|false|required|optional)$/i;
+
+/**
+ * Scan every string in a document for credential shapes.
+ */
+export function detectSecrets(doc: AgentsTxtDocument): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  walk(doc, "", (path, value) => findings.push(...detectSecretsInValue(value, path)));
+  return findings;
+}
+
+/**
+ * Scan a single string. `path` is copied into each finding.
+ */
+export function detectSecretsInValue(value: string, path = ""): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const add = (kind: SecretKind, match: string) => {
+    findings.push({ path, kind, message: `Possible ${KIND_LABELS[kind]} in ${path || "value"}`, excerpt: excerpt(match) });
+  };
+
+  for (const { kind, pattern, random } of PATTERNS) {
+    for (const match of value.matchAll(pattern)) {
+      if (!random || looksRandom(match[1] ?? match[0])) add(kind, match[0]);
+    }
+  }
+
+  for (const raw of value.match(/https?:\/\/[^\s"'<>]+/gi) ?? []) {
+    let url: URL;
+    try {
+      url = new URL(raw);
+    } catch {
+      continue;
+    }
+    if (url.password || (url.username && looksRandom(decodeUserinfo(url.username)))) {
+      add("url-credentials", `${url.username}:${url.password}`);
+    }
+    for (const [name, param] of url.searchParams) {
+      if (looksRandom(param) && (isCredential(name, param) || param.length >= 24)) add("credential-param", `${name}=${param}`);
+    }
+  }
+
+  // name=value pairs outside URLs, e.g. in descriptions or Param defaults
+  const withoutUrls = value.replace(/https?:\/\/[^\s"'<>]+/gi, " ");
+  for (const [match, name, param] of withoutUrls.matchAll(ASSIGNMENT)) {
+    if (isCredential(name, param) && looksRandom(param)) add("credential-param", match);
+  }
+
+  return findings;
+}
+
+/** Percent-decode a URL username, keeping it as written if it is malformed (e.g. "%zz"). */
+function decodeUserinfo(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function isCredential(name: string, value: string): boolean {
+  return CREDENTIAL_NAME.test(name) && value.length >= 8 && !PLACEHOLDER.test(value);
+}
+
+/** Long enough and varied enough to be a generated token rather than a word. */
+function looksRandom(value: string): boolean {
+  if (value.length < 16 || PLACEHOLDER.test(value)) return false;
+  const hasDigit = /\d/.test(value);
+  const hasLetter = /[A-Za-z]/.test(value);
+  return hasDigit && hasLetter && shannonEntropy(value) >= 3.5;
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function excerpt(match: string): string {
+  return match.length <= 8 ? "*".repeat(match.length) : `${match.slice(0, 4)}…`;
+}
+
+/** Visit every string in a value. Array items are named by their `id` or `name` when they have one. */
+function walk(value: unknown, path: string, visit: (path: string, value: string) => void): void {
+  const join = (key: string) => (path ? `${path}.${key}` : key);
+  if (typeof value === "string") {
+    visit(path, value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => {
+      const label = item && typeof item === "object" ? (item.id ?? item.name ?? i) : i;
+      walk(item, join(String(label)), visit);
+    });
+  } else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) walk(item, join(key), visit);
+  }
+}
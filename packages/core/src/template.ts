@@ -0,0 +1,85 @@
+/**
+ * agents.txt - Endpoint path templates
+ *
+ * Endpoints may contain path placeholders in either Express style
+ * (`/users/:id`) or OpenAPI style (`/users/{id}`). Placeholders are only
+ * recognised in the path; the scheme, host, port, query and fragment are
+ * always literal. A `:` placeholder must start a path segment, so
+ * `/models/gemini:generate` has none.
+ */
+
+export type TemplateSegment =
+  | { type: "literal"; value: string }
+  | { type: "param"; name: string; syntax: ":" | "{}" };
+
+export interface EndpointTemplate {
+  /** Everything before the path, e.g. "https://api.example.com". */
+  origin: string;
+  /** The path, split into literal text and placeholders. */
+  segments: TemplateSegment[];
+  /** The query string and fragment, including the leading "?" or "#". */
+  suffix: string;
+  /** Placeholder names in order of first appearance. */
+  params: string[];
+}
+
+const PLACEHOLDER = /\{([^{}/]+)\}|(?<=\/):([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Split an endpoint into origin, templated path and suffix.
+ */
+export function parseEndpointTemplate(endpoint: string): EndpointTemplate {
+  const schemeEnd = endpoint.indexOf("://");
+  const authorityStart = schemeEnd === -1 ? 0 : schemeEnd + 3;
+  const rest = endpoint.slice(authorityStart);
+  const pathStart = schemeEnd === -1 ? 0 : authorityStart + indexOrLength(rest, /[/?#]/);
+  const pathEnd = pathStart + indexOrLength(endpoint.slice(pathStart), /[?#]/);
+
+  const origin = endpoint.slice(0, pathStart);
+  const path = endpoint.slice(pathStart, pathEnd);
+  const segments: TemplateSegment[] = [];
+  const params: string[] = [];
+
+  let last = 0;
+  for (const match of path.matchAll(PLACEHOLDER)) {
+    if (match.index! > last) segments.push({ type: "literal", value: path.slice(last, match.index) });
+    const name = match[1] ?? match[2];
+    segments.push({ type: "param", name, syntax: match[1] !== undefined ? "{}" : ":" });
+    if (!params.includes(name)) params.push(name);
+    last = match.index! + match[0].length;
+  }
+  if (last < path.length) segments.push({ type: "literal", value: path.slice(last) });
+
+  return { origin, segments, suffix: endpoint.slice(pathEnd), params };
+}
+
+/**
+ * Substitute path parameters into an endpoint. Values are percent-encoded as
+ * single path segments; missing values and "." or ".." are rejected so a
+ * value can never change which path is called.
+ */
+export function expandEndpoint(endpoint: string, values: Record<string, unknown>): string {
+  const template = parseEndpointTemplate(endpoint);
+  let path = "";
+  for (const segment of template.segments) {
+    if (segment.type === "literal") {
+      path += segment.value;
+      continue;
+    }
+    const value = Object.hasOwn(values, segment.name) ? values[segment.name] : undefined;
+    if (value === undefined || value === null || value === "") {
+      throw new Error(`Missing value for path parameter "${segment.name}"`);
+    }
+    const text = String(value);
+    if (text === "." || text === "..") {
+      throw new Error(`Invalid value for path parameter "${segment.name}": "${text}"`);
+    }
+    path += encodeURIComponent(text);
+  }
+  return template.origin + path + template.suffix;
+}
+
+function indexOrLength(value: string, pattern: RegExp): number {
+  const index = value.search(pattern);
+  return index === -1 ? value.length : index;
+}
@@ -0,0 +1,92 @@
+/**
+ * agents.txt - Transports and offline sources
+ *
+ * AgentsTxtClient makes every request through a Transport: any function
+ * with the signature of fetch(). Supply one to go through a proxy or client
+ * certificates, or to replay recorded responses. The sources below are
+ * transports that answer from memory or local files instead of the network,
+ * so discovery, crawling and the MCP server can run offline.
+ */
+
+export type Transport = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Serve files from memory, keyed by full URL
+ * (e.g. "https://example.com/.well-known/agents.txt"). Other URLs get 404.
+ */
+export function memorySource(files: Record<string, string> | Map<string, string>): Transport {
+  const entries = files instanceof Map ? [...files] : Object.entries(files);
+  const byUrl = new Map(entries.map(([url, body]) => [normalizeUrl(url), body]));
+  return async (url) => {
+    const body = byUrl.get(normalizeUrl(url));
+    return body !== undefined ? fileResponse(url, body) : notFound();
+  };
+}
+
+/**
+ * Serve one local file for every agents.txt request (every agents.json
+ * request if the file name ends in ".json"), on any site or only on
+ * `options.origin`. The file is read on each request. Node.js only.
+ */
+export function fileSource(path: string, options: { origin?: string } = {}): Transport {
+  const name = path.endsWith(".json") ? "agents.json" : "agents.txt";
+  const origin = options.origin !== undefined ? new URL(options.origin).origin : undefined;
+  return async (url) => {
+    const target = new URL(url);
+    if (origin !== undefined && target.origin !== origin) return notFound();
+    if (!target.pathname.endsWith(`/${name}`)) return notFound();
+    const body = await readLocalFile(path);
+    return body !== undefined ? fileResponse(path, body) : notFound();
+  };
+}
+
+/**
+ * Serve files from a directory with one subdirectory per host:
+ * https://example.com/.well-known/agents.txt is read from
+ * `<directory>/example.com/.well-known/agents.txt`, and the /agents.txt
+ * fallback from `<directory>/example.com/agents.txt`. A port is written
+ * with "_" (`localhost_8080`). Node.js only.
+ */
+export function directorySource(directory: string): Transport {
+  return async (url) => {
+    const target = new URL(url);
+    const { resolve, sep } = await import("node:path");
+    const root = resolve(directory);
+    const file = resolve(root, target.host.replace(":", "_"), `.${target.pathname}`);
+    // URL parsing removes dot segments; this also rules out encoded ones
+    if (!file.startsWith(root + sep)) return notFound();
+    const body = await readLocalFile(file);
+    return body !== undefined ? fileResponse(file, body) : notFound();
+  };
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    return new URL(url).href;
+  } catch {
+    return url;
+  }
+}
+
+/** Read a file, or undefined when there is none (or it is a directory). */
+async function readLocalFile(path: string): Promise<string | undefined> {
+  // Loaded on first use so the core stays usable outside Node.js
+  const { readFile } = await import("node:fs/promises");
+  try {
+    return await readFile(path, "utf8");
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    if (code === "ENOENT" || code === "EISDIR" || code === "ENOTDIR") return undefined;
+    throw err;
+  }
+}
+
+/** A 200 response with the Content-Type SPEC 2.3 gives the format. */
+function fileResponse(name: string, body: string): Response {
+  const contentType = name.split(/[?#]/)[0].endsWith(".json") ? "application/json" : "text/plain; charset=utf-8";
+  return new Response(body, { status: 200, headers: { "Content-Type": contentType } });
+}
+
+function notFound(): Response {
+  return new Response("", { status: 404 });
+}
@@ -1,3 +1,5 @@
+import type { FetchError } from "./fetch.js";
+
 /**
  * agents.txt - Core Type System
  *
@@ -133,21 +135,60 @@ export interface ParameterDef {
   max?: number;
   /** Minimum value (for numbers) or length (for strings). */
   min?: number;
+  /** Allowed values. */
+  enum?: ParameterValue[];
+  /** String format. */
+  format?: ParameterFormat;
 }
 
+export type ParameterValue = string | number | boolean;
+
+export type ParameterFormat = "date-time" | "email" | "uri";
+
 // -- Parse/Validate Results --
 
+export interface ParseOptions {
+  /** Treat warnings (unknown protocols and fields, malformed lines) as errors. Default: false. */
+  strict?: boolean;
+  /** Reject input larger than this many bytes (UTF-8). */
+  maxBytes?: number;
+  /** Reject documents declaring more capabilities than this. */
+  maxCapabilities?: number;
+  /** Reject any line longer than this many characters (text format only). */
+  maxLineLength?: number;
+  /**
+   * Spec versions to accept (major.minor). Default: SUPPORTED_SPEC_VERSIONS.
+   * Unsupported versions are an error when this is set or in strict mode, a warning otherwise.
+   */
+  specVersion?: string | string[];
+}
+
 export interface ParseResult {
   success: boolean;
   document?: AgentsTxtDocument;
   errors: ParseError[];
   warnings: ParseWarning[];
+  /** Where and when the file was fetched, for results from AgentsTxtClient. */
+  source?: SourceMetadata;
+}
+
+export interface SourceMetadata {
+  /** URL the file was fetched from. */
+  url: string;
+  /** When the body was downloaded or last revalidated (ISO 8601). */
+  fetchedAt: string;
+  /** When the copy stops being fresh (ISO 8601). Equal to fetchedAt if it was not cacheable. */
+  expiresAt: string;
+  /** "miss": downloaded; "hit": fresh from cache; "revalidated": 304; "stale": served while revalidating. */
+  cache: "miss" | "hit" | "revalidated" | "stale";
 }
 
 export interface ParseError {
   line?: number;
   field?: string;
   message: string;
+  /** The failure behind the error, for fetches by AgentsTxtClient. */
+  fetchError?: FetchError;
 }
 
 export interface ParseWarning {
@@ -166,10 +207,41 @@ export interface ValidationError {
   path: string;
   message: string;
   code: string;
+  /** ID of the lint rule that reported the problem. */
+  rule?: string;
+  /** Where the problem is in the source text, when validated from text. */
+  range?: SourceRange;
 }
 
 export interface ValidationWarning {
   path: string;
   message: string;
   code: string;
+  /** ID of the lint rule that reported the problem. */
+  rule?: string;
+  /** Where the problem is in the source text, when validated from text. */
+  range?: SourceRange;
+}
+
+/** A span of source text. Lines and columns are 1-based; the end is exclusive. */
+export interface SourceRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+// -- Export Results --
+
+export interface ExportResult<T> {
+  /** The exported document. */
+  output: T;
+  /** Fields of the source document the target format could not represent. */
+  unsupported: ExportIssue[];
+}
+
+export interface ExportIssue {
+  /** Dotted path of the field in the source document. */
+  path: string;
+  message: string;
 }
@@ -26,3 +26,45 @@ export function parseRateLimit(value: string): { requests: number; window: strin
 export function formatRateLimit(requests: number, window: string): string {
   return `${requests}/${window}`;
 }
+
+const WINDOW_MS: Record<string, number> = {
+  second: 1_000,
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+};
+
+/**
+ * Length of a rate limit window in milliseconds, or undefined for an unknown window.
+ */
+export function windowToMs(window: string): number | undefined {
+  return Object.hasOwn(WINDOW_MS, window) ? WINDOW_MS[window] : undefined;
+}
+
+/**
+ * Spec versions (major.minor) this implementation understands.
+ */
+export const SUPPORTED_SPEC_VERSIONS: readonly string[] = ["1.0"];
+
+/**
+ * Check a document's spec version against a list of accepted major.minor versions.
+ */
+export function isSupportedSpecVersion(
+  version: string,
+  supported: string | readonly string[] = SUPPORTED_SPEC_VERSIONS,
+): boolean {
+  const match = version.trim().match(/^(\d+)\.(\d+)(?:\.\d+)?$/);
+  if (!match) return false;
+  const list = typeof supported === "string" ? [supported] : supported;
+  return list.includes(`${match[1]}.${match[2]}`);
+}
+
+/**
+ * Check whether a string exceeds a UTF-8 byte budget without encoding it when avoidable.
+ */
+export function exceedsByteLength(input: string, maxBytes: number): boolean {
+  // UTF-8 uses 1-3 bytes per UTF-16 code unit
+  if (input.length > maxBytes) return true;
+  if (input.length * 3 <= maxBytes) return false;
+  return new TextEncoder().encode(input).byteLength > maxBytes;
+}
@@ -1,134 +1,72 @@
-import type { AgentsTxtDocument, ValidationResult, ValidationError, ValidationWarning } from "./types.js";
-import { AgentsTxtDocumentSchema } from "./schema.js";
+import type { AgentsTxtDocument, ParseResult, SourceRange, ValidationResult } from "./types.js";
+import { lint } from "./lint.js";
 import { parse } from "./parser.js";
 import { parseJSON } from "./parser-json.js";
+import { parseCST, locatePath, locateLine } from "./cst.js";
+import type { AgentsTxtCST } from "./cst.js";
 
 /**
  * Validate an AgentsTxtDocument object against the spec.
+ * Runs the built-in lint rules with their default severities.
  */
 export function validate(doc: AgentsTxtDocument): ValidationResult {
-  const errors: ValidationError[] = [];
-  const warnings: ValidationWarning[] = [];
-
-  // Schema validation
-  const schemaResult = AgentsTxtDocumentSchema.safeParse(doc);
-  if (!schemaResult.success) {
-    for (const issue of schemaResult.error.issues) {
-      errors.push({
-        path: issue.path.join("."),
-        message: issue.message,
-        code: "SCHEMA_VIOLATION",
-      });
-    }
-  }
-
-  // Capability IDs must be unique
-  const capIds = new Set<string>();
-  for (const cap of doc.capabilities) {
-    if (capIds.has(cap.id)) {
-      errors.push({
-        path: `capabilities.${cap.id}`,
-        message: `Duplicate capability ID: "${cap.id}"`,
-        code: "DUPLICATE_CAPABILITY",
-      });
-    }
-    capIds.add(cap.id);
-  }
-
-  // Agent capability references must exist
-  for (const [agentName, policy] of Object.entries(doc.agents)) {
-    if (policy.capabilities) {
-      for (const capId of policy.capabilities) {
-        if (!capIds.has(capId)) {
-          errors.push({
-            path: `agents.${agentName}.capabilities`,
-            message: `Agent "${agentName}" references unknown capability: "${capId}"`,
-            code: "UNKNOWN_CAPABILITY_REF",
-          });
-        }
-      }
-    }
-  }
-
-  // Agent declaration: operatesOn should have entries when declarationType is "agent"
-  if (doc.declarationType === "agent" && (!doc.operatesOn || doc.operatesOn.length === 0)) {
-    warnings.push({
-      path: "operatesOn",
-      message: 'Agent declarations should include at least one Operates-On URL',
-      code: "MISSING_OPERATES_ON",
-    });
-  }
-
-  // operatesOn without declarationType: "agent" is suspicious
-  if (doc.operatesOn && doc.operatesOn.length > 0 && doc.declarationType !== "agent") {
-    warnings.push({
-      path: "declarationType",
-      message: 'Operates-On is set but Declaration-Type is not "agent"',
-      code: "OPERATES_ON_WITHOUT_AGENT_TYPE",
-    });
-  }
-
-  // Site URL should be HTTPS
-  if (doc.site.url && !doc.site.url.startsWith("https://")) {
-    warnings.push({
-      path: "site.url",
-      message: "Site URL should use HTTPS",
-      code: "INSECURE_URL",
-    });
-  }
-
-  // Endpoint URLs should be HTTPS
-  for (const cap of doc.capabilities) {
-    if (cap.endpoint && !cap.endpoint.startsWith("https://")) {
-      warnings.push({
-        path: `capabilities.${cap.id}.endpoint`,
-        message: `Capability "${cap.id}" endpoint should use HTTPS`,
-        code: "INSECURE_ENDPOINT",
-      });
-    }
-  }
-
-  return {
-    valid: errors.length === 0,
-    errors,
-    warnings,
-  };
+  const { valid, errors, warnings } = lint(doc);
+  return { valid, errors, warnings };
 }
 
 /**
- * Parse and validate an agents.txt text string.
+ * Parse and validate an agents.txt text string. Parse warnings are included
+ * and every problem that can be found in the text carries its source range.
  */
 export function validateText(text: string): ValidationResult {
+  const cst = parseCST(text);
   const parseResult = parse(text);
-  if (!parseResult.success || !parseResult.document) {
-    return {
-      valid: false,
-      errors: parseResult.errors.map((e) => ({
-        path: e.field ?? "",
-        message: e.message,
-        code: "PARSE_ERROR",
-      })),
-      warnings: [],
-    };
-  }
-  return validate(parseResult.document);
+  const result = validateParsed(parseResult, (line) => (line !== undefined ? locateLine(cst, line) : undefined));
+  return withRanges(result, cst);
+}
+
+/**
+ * Add source ranges to the problems of a result obtained from agents.txt
+ * text, e.g. by lint() on the parsed document.
+ */
+export function locateProblems<T extends ValidationResult>(result: T, text: string): T {
+  return withRanges(result, parseCST(text));
 }
 
 /**
- * Parse and validate an agents.json string.
+ * Parse and validate an agents.json string. Parse warnings are included.
  */
 export function validateJSON(json: string): ValidationResult {
-  const parseResult = parseJSON(json);
+  return validateParsed(parseJSON(json), () => undefined);
+}
+
+function validateParsed(
+  parseResult: ParseResult,
+  rangeOf: (line: number | undefined) => SourceRange | undefined,
+): ValidationResult {
+  const toMessage = (e: { line?: number; field?: string; message: string }, code: string) => {
+    const range = rangeOf(e.line);
+    return { path: e.field ?? "", message: e.message, code, ...(range ? { range } : {}) };
+  };
+  const parseWarnings = parseResult.warnings.map((w) => toMessage(w, "PARSE_WARNING"));
+
   if (!parseResult.success || !parseResult.document) {
     return {
       valid: false,
-      errors: parseResult.errors.map((e) => ({
-        path: e.field ?? "",
-        message: e.message,
-        code: "PARSE_ERROR",
-      })),
-      warnings: [],
+      errors: parseResult.errors.map((e) => toMessage(e, "PARSE_ERROR")),
+      warnings: parseWarnings,
     };
   }
-  return validate(parseResult.document);
+  const result = validate(parseResult.document);
+  return { ...result, warnings: [...parseWarnings, ...result.warnings] };
+}
+
+/** Fill in source ranges for problems that only have a document path. */
+function withRanges<T extends ValidationResult>(result: T, cst: AgentsTxtCST): T {
+  const locate = <T extends { path: string; range?: SourceRange }>(problem: T): T => {
+    if (problem.range || !problem.path) return problem;
+    const range = locatePath(cst, problem.path);
+    return range ? { ...problem, range } : problem;
+  };
+  return { ...result, errors: result.errors.map(locate), warnings: result.warnings.map(locate) };
 }
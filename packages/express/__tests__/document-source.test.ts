@@ -0,0 +1,233 @@
+import { describe, it, expect, afterEach } from "vitest";
+import express from "express";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generate } from "@agents-txt/core";
+import type { AgentsTxtDocument } from "@agents-txt/core";
+import { agentsTxt, enforceCapability, DocumentReloadError } from "../src/index.js";
+import type { AgentsTxtMiddleware } from "../src/index.js";
+
+async function request(app: ReturnType<typeof express>, path: string, opts: RequestInit = {}) {
+  const server = app.listen(0);
+  const addr = server.address() as { port: number };
+  try {
+    const res = await fetch(`http://127.0.0.1:${addr.port}${path}`, opts);
+    return { status: res.status, body: await res.text() };
+  } finally {
+    server.close();
+  }
+}
+
+function makeDocument(name: string, capabilityIds = ["search"]): AgentsTxtDocument {
+  return {
+    specVersion: "1.0",
+    generatedAt: "2026-01-01T00:00:00.000Z",
+    site: { name, url: "https://live.example.com" },
+    capabilities: capabilityIds.map((id) => ({
+      id,
+      description: `Capability ${id}`,
+      endpoint: `https://live.example.com/api/${id}`,
+      method: "GET",
+      protocol: "REST",
+    })),
+    access: { allow: ["*"], disallow: [] },
+    agents: { "*": {} },
+  };
+}
+
+async function waitFor(check: () => Promise<boolean>, timeoutMs = 3000): Promise<void> {
+  const until = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > until) throw new Error("Timed out");
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
+
+const cleanup: (() => void)[] = [];
+afterEach(() => {
+  while (cleanup.length > 0) cleanup.pop()!();
+});
+
+function serve(middleware: AgentsTxtMiddleware) {
+  cleanup.push(() => middleware.close());
+  const app = express();
+  app.use(middleware);
+  return app;
+}
+
+describe("provided documents", () => {
+  it("serves the provider's document and asks again after refreshMs", async () => {
+    let name = "First";
+    let calls = 0;
+    const middleware = agentsTxt({
+      document: async () => {
+        calls++;
+        return makeDocument(name);
+      },
+      refreshMs: 0,
+      rateLimit: false,
+    });
+    const app = serve(middleware);
+
+    expect((await request(app, "/.well-known/agents.txt")).body).toContain("Site-Name: First");
+    name = "Second";
+    // A document due a refresh is served while the provider is asked again
+    await waitFor(async () => (await request(app, "/.well-known/agents.txt")).body.includes("Site-Name: Second"));
+    expect(calls).toBeGreaterThan(1);
+  });
+
+  it("renders again only when the document changes", async () => {
+    const document = makeDocument("Unchanged");
+    const middleware = agentsTxt({ document: () => document, rateLimit: false });
+    const app = serve(middleware);
+
+    const first = (await request(app, "/.well-known/agents.json")).body;
+    await middleware.reload();
+    expect((await request(app, "/.well-known/agents.json")).body).toBe(first);
+  });
+
+  it("keeps serving the last good document and reports a failed reload", async () => {
+    let document: AgentsTxtDocument = makeDocument("Good");
+    const errors: DocumentReloadError[] = [];
+    const middleware = agentsTxt({ document: () => document, onReloadError: (e) => errors.push(e), rateLimit: false });
+    const app = serve(middleware);
+    expect((await request(app, "/.well-known/agents.txt")).body).toContain("Site-Name: Good");
+
+    document = { ...makeDocument("Bad"), site: { name: "", url: "not a url" } };
+    await expect(middleware.reload()).rejects.toBeInstanceOf(DocumentReloadError);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].source).toBe("provider");
+    expect(errors[0].problems.length).toBeGreaterThan(0);
+    expect((await request(app, "/.well-known/agents.txt")).body).toContain("Site-Name: Good");
+  });
+
+  it("passes the error on while no document has loaded", async () => {
+    const errors: DocumentReloadError[] = [];
+    const app = serve(
+      agentsTxt({
+        document: () => Promise.reject(new Error("database down")),
+        onReloadError: (e) => errors.push(e),
+        rateLimit: false,
+      }),
+    );
+    let caught: unknown;
+    app.use((err: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      caught = err;
+      res.status(503).end();
+    });
+
+    expect((await request(app, "/.well-known/agents.txt")).status).toBe(503);
+    expect(caught).toBeInstanceOf(DocumentReloadError);
+    expect((caught as Error).message).toContain("database down");
+    expect(errors.length).toBeGreaterThan(0);
+  });
+
+  it("asks a failing provider again at most once per refreshMs", async () => {
+    let calls = 0;
+    let failing = false;
+    const errors: DocumentReloadError[] = [];
+    const middleware = agentsTxt({
+      document: async () => {
+        calls++;
+        if (failing) throw new Error("database down");
+        return makeDocument("Cached");
+      },
+      refreshMs: 200,
+      onReloadError: (e) => errors.push(e),
+      rateLimit: false,
+    });
+    const app = serve(middleware);
+    await middleware.reload();
+    calls = 0;
+
+    failing = true;
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    for (let i = 0; i < 5; i++) {
+      expect((await request(app, "/.well-known/agents.txt")).body).toContain("Site-Name: Cached");
+    }
+    expect(calls).toBe(1);
+    expect(errors).toHaveLength(1);
+  });
+
+  it("does not ask a provider that never loaded on every request", async () => {
+    let calls = 0;
+    const app = serve(
+      agentsTxt({
+        document: () => {
+          calls++;
+          return Promise.reject(new Error("database down"));
+        },
+        rateLimit: false,
+      }),
+    );
+    app.use((_err: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(503).end();
+    });
+
+    for (let i = 0; i < 3; i++) expect((await request(app, "/.well-known/agents.txt")).status).toBe(503);
+    expect(calls).toBe(1);
+  });
+
+  it("refuses a document that looks like it contains credentials", async () => {
+    const document = makeDocument("Leaky");
+    document.capabilities[0].endpoint = "https://live.example.com/api/search?api_key=sk9Qw2Lm7Xz4Rt8Vb1Nc";
+    const middleware = agentsTxt({ document: () => document, rateLimit: false });
+    serve(middleware);
+    await expect(middleware.reload()).rejects.toThrow(/Invalid document from provider: Possible/);
+  });
+});
+
+describe("watched files", () => {
+  function tempDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), "agents-txt-"));
+    cleanup.push(() => rmSync(dir, { recursive: true, force: true }));
+    return dir;
+  }
+
+  it("serves an agents.txt file and reloads it when it changes", async () => {
+    const file = join(tempDir(), "agents.txt");
+    writeFileSync(file, generate(makeDocument("On Disk")));
+    const middleware = agentsTxt({ document: file, rateLimit: false });
+    const app = serve(middleware);
+
+    expect((await request(app, "/.well-known/agents.json")).body).toContain('"name": "On Disk"');
+    writeFileSync(file, generate(makeDocument("Edited")));
+    await waitFor(async () => (await request(app, "/.well-known/agents.json")).body.includes('"name": "Edited"'));
+  });
+
+  it("keeps the last good file when an edit does not parse", async () => {
+    const file = join(tempDir(), "agents.json");
+    writeFileSync(file, JSON.stringify(makeDocument("Valid")));
+    const errors: DocumentReloadError[] = [];
+    const middleware = agentsTxt({ document: file, onReloadError: (e) => errors.push(e), rateLimit: false });
+    const app = serve(middleware);
+    await middleware.reload();
+
+    writeFileSync(file, "{ not json");
+    await waitFor(async () => errors.length > 0);
+    expect(errors[0].source).toBe(file);
+    expect((await request(app, "/.well-known/agents.txt")).body).toContain("Site-Name: Valid");
+  });
+});
+
+describe("enforcement with a loaded document", () => {
+  it("follows the document agentsTxt() serves", async () => {
+    let document = makeDocument("Live", ["search"]);
+    const options = { document: () => document, rateLimit: false as const };
+    const middleware = agentsTxt(options);
+    const app = serve(middleware);
+    app.get("/api/lookup", enforceCapability(options, "lookup"), (_req, res) => res.json({ ok: true }));
+    app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(500).json({ error: err.message });
+    });
+
+    const before = await request(app, "/api/lookup");
+    expect(before.status).toBe(500);
+    expect(before.body).toContain('Unknown capability \\"lookup\\"');
+
+    document = makeDocument("Live", ["search", "lookup"]);
+    await middleware.reload();
+    expect((await request(app, "/api/lookup")).status).toBe(200);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import express from "express";
+import { agentsTxt, enforceCapability, enforceAgentsTxt } from "../src/index.js";
+import type { AgentsTxtOptions } from "../src/index.js";
+
+function makeOptions(): AgentsTxtOptions {
+  return {
+    site: { name: "Enforced Site", url: "https://enforced.example.com" },
+    capabilities: [
+      {
+        id: "search",
+        description: "Search",
+        endpoint: "https://enforced.example.com/api/search",
+        method: "GET",
+        protocol: "REST",
+        rateLimit: { requests: 3, window: "minute" },
+      },
+      {
+        id: "get-item",
+        description: "Get an item",
+        endpoint: "https://enforced.example.com/api/items/:id",
+        method: "GET",
+        protocol: "REST",
+      },
+      {
+        id: "create-item",
+        description: "Create an item",
+        endpoint: "https://enforced.example.com/api/items",
+        method: "POST",
+        protocol: "REST",
+      },
+    ],
+    access: { allow: ["/api/*"], disallow: ["/api/admin/*"] },
+    agents: {
+      "*": { capabilities: ["search", "get-item"] },
+      writer: { capabilities: ["search", "get-item", "create-item"], rateLimit: { requests: 2, window: "minute" } },
+    },
+  };
+}
+
+async function request(app: ReturnType<typeof express>, path: string, opts: RequestInit = {}) {
+  const server = app.listen(0);
+  const addr = server.address() as { port: number };
+  try {
+    const res = await fetch(`http://127.0.0.1:${addr.port}${path}`, opts);
+    const body = await res.text();
+    return { status: res.status, headers: res.headers, body: body ? JSON.parse(body) : undefined };
+  } finally {
+    server.close();
+  }
+}
+
+const as = (agent: string, init: RequestInit = {}): RequestInit => ({ ...init, headers: { "User-Agent": agent } });
+
+describe("enforceCapability", () => {
+  function createApp(options = makeOptions()) {
+    const app = express();
+    app.use(agentsTxt(options));
+    app.get("/api/search", enforceCapability(options, "search"), (_req, res) => res.json({ ok: true }));
+    app.get("/api/items/:id", enforceCapability(options, "get-item"), (_req, res) => res.json({ ok: true }));
+    app.post("/api/items", enforceCapability(options, "create-item"), (_req, res) => res.json({ ok: true }));
+    return app;
+  }
+
+  it("lets an agent use a capability its policy grants", async () => {
+    const res = await request(createApp(), "/api/search", as("SomeBot/1.0"));
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ ok: true });
+  });
+
+  it("rejects an agent whose policy does not include the capability", async () => {
+    const res = await request(createApp(), "/api/items", as("SomeBot/1.0", { method: "POST" }));
+    expect(res.status).toBe(403);
+    expect(res.body).toEqual({
+      error: 'Agent "somebot" may not use capability "create-item"',
+      code: "CAPABILITY_NOT_GRANTED",
+      capability: "create-item",
+    });
+
+    const writer = await request(createApp(), "/api/items", as("Writer/2.0", { method: "POST" }));
+    expect(writer.status).toBe(200);
+  });
+
+  it("applies the capability rate limit", async () => {
+    const app = createApp();
+    const statuses = [];
+    for (let i = 0; i < 4; i++) statuses.push((await request(app, "/api/search", as("SomeBot"))).status);
+    expect(statuses).toEqual([200, 200, 200, 429]);
+
+    const limited = await request(app, "/api/search", as("SomeBot"));
+    expect(limited.body).toEqual({ error: "Rate limit exceeded", code: "RATE_LIMITED", capability: "search" });
+    expect(limited.headers.get("retry-after")).toMatch(/^\d+$/);
+    expect(limited.headers.get("x-ratelimit-remaining")).toBe("0");
+
+    // Counted per matched policy: another name under `*` shares the count
+    expect((await request(app, "/api/search", as("OtherBot"))).status).toBe(429);
+    expect((await request(app, "/api/search", as("writer"))).status).toBe(200);
+  });
+
+  it("does not reset the limits for an agent that changes its User-Agent", async () => {
+    const app = createApp();
+    const statuses = [];
+    for (let i = 0; i < 5; i++) statuses.push((await request(app, "/api/search", as(`RotatingBot${i}/1.0`))).status);
+    expect(statuses).toEqual([200, 200, 200, 429, 429]);
+  });
+
+  it("applies the agent rate limit across all capabilities", async () => {
+    const app = createApp();
+    expect((await request(app, "/api/search", as("writer"))).status).toBe(200);
+    expect((await request(app, "/api/items/1", as("writer"))).headers.get("x-ratelimit-remaining")).toBe("0");
+    expect((await request(app, "/api/items", as("writer", { method: "POST" }))).status).toBe(429);
+  });
+
+  it("can identify agents another way and skip rate limits", async () => {
+    const options = makeOptions();
+    const app = express();
+    app.post(
+      "/api/items",
+      enforceCapability(options, "create-item", { identify: (req) => req.get("x-agent"), rateLimit: false }),
+      (_req, res) => res.json({ ok: true }),
+    );
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await request(app, "/api/items", { method: "POST", headers: { "X-Agent": "writer" } })).status);
+    }
+    expect(statuses).toEqual([200, 200, 200]);
+  });
+
+  it("throws for a capability that is not declared", () => {
+    expect(() => enforceCapability(makeOptions(), "nope")).toThrow('Unknown capability "nope"');
+  });
+});
+
+describe("enforceAgentsTxt", () => {
+  function createApp(settings: Record<string, unknown> = {}) {
+    const options = makeOptions();
+    const app = express();
+    for (const [name, value] of Object.entries(settings)) app.set(name, value);
+    app.use(agentsTxt(options));
+    app.use("/api", enforceAgentsTxt(options));
+    app.get("/api/search", (_req, res) => res.json({ ok: true }));
+    app.get("/api/items/:id", (_req, res) => res.json({ ok: true }));
+    app.post("/api/items", (_req, res) => res.json({ ok: true }));
+    app.get("/api/admin/users", (_req, res) => res.json({ ok: true }));
+    app.get("/api/status", (_req, res) => res.json({ ok: true }));
+    return app;
+  }
+
+  it("matches requests to capabilities by method and path", async () => {
+    const app = createApp();
+    expect((await request(app, "/api/items/42?full=1", as("SomeBot"))).status).toBe(200);
+    expect((await request(app, "/api/items", as("SomeBot", { method: "POST" }))).body.code).toBe("CAPABILITY_NOT_GRANTED");
+    expect((await request(app, "/api/items", as("writer", { method: "POST" }))).status).toBe(200);
+  });
+
+  it("blocks Disallowed paths and passes other paths through", async () => {
+    const app = createApp();
+    const blocked = await request(app, "/api/admin/users", as("SomeBot"));
+    expect(blocked.status).toBe(403);
+    expect(blocked.body).toEqual({
+      error: "Agents may not access /api/admin/users (Disallow: /api/admin/*)",
+      code: "PATH_DISALLOWED",
+    });
+    expect((await request(app, "/api/%61dmin/users", as("SomeBot"))).status).toBe(403);
+    expect((await request(app, "/api/status", as("SomeBot"))).status).toBe(200);
+  });
+
+  it("ignores case in paths, as Express routes do", async () => {
+    const app = createApp();
+    expect((await request(app, "/API/Items", as("SomeBot", { method: "POST" }))).body.code).toBe("CAPABILITY_NOT_GRANTED");
+    const blocked = await request(app, "/API/ADMIN/users", as("SomeBot"));
+    expect(blocked.status).toBe(403);
+    expect(blocked.body.code).toBe("PATH_DISALLOWED");
+  });
+
+  it("compares case when the app enables case sensitive routing", async () => {
+    const app = createApp({ "case sensitive routing": true });
+    // A different route to the app, and not covered by Disallow: /api/admin/*
+    app.get("/api/ADMIN/users", (_req, res) => res.json({ ok: true }));
+    expect((await request(app, "/api/ADMIN/users", as("SomeBot"))).status).toBe(200);
+    expect((await request(app, "/api/admin/users", as("SomeBot"))).status).toBe(403);
+  });
+
+  it("applies capability rate limits to upper-case paths", async () => {
+    const app = createApp();
+    const statuses = [];
+    for (const path of ["/api/search", "/API/search", "/Api/Search", "/API/SEARCH"]) {
+      statuses.push((await request(app, path, as("SomeBot"))).status);
+    }
+    expect(statuses).toEqual([200, 200, 200, 429]);
+  });
+});
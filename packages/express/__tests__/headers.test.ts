@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import express from "express";
+import { parseRateLimitHeaders } from "@agents-txt/core";
+import { agentsTxt, enforceCapability } from "../src/index.js";
+import type { AgentsTxtOptions } from "../src/index.js";
+
+async function request(app: ReturnType<typeof express>, path: string, opts: RequestInit = {}) {
+  const server = app.listen(0);
+  const addr = server.address() as { port: number };
+  try {
+    const res = await fetch(`http://127.0.0.1:${addr.port}${path}`, opts);
+    await res.text();
+    return { status: res.status, headers: res.headers };
+  } finally {
+    server.close();
+  }
+}
+
+function makeOptions(rateLimit?: AgentsTxtOptions["rateLimit"]): AgentsTxtOptions {
+  return {
+    site: { name: "Header Site", url: "https://headers.example.com" },
+    capabilities: [
+      {
+        id: "search",
+        description: "Search",
+        endpoint: "https://headers.example.com/api/search",
+        method: "GET",
+        protocol: "REST",
+        rateLimit: { requests: 5, window: "minute" },
+      },
+    ],
+    agents: { "*": { rateLimit: { requests: 100, window: "hour" } } },
+    rateLimit,
+  };
+}
+
+describe("rate limit headers", () => {
+  it("sends the IETF fields and the legacy headers for the document", async () => {
+    const app = express();
+    app.use(agentsTxt(makeOptions({ limits: [{ requests: 10, window: "second" }, { requests: 500, window: "day" }] })));
+    const before = Math.floor(Date.now() / 1000);
+    const res = await request(app, "/.well-known/agents.txt");
+
+    expect(res.headers.get("ratelimit-policy")).toBe('"10/second";q=10;w=1, "500/day";q=500;w=86400');
+    // A logged hit counts for one window
+    expect(res.headers.get("ratelimit")).toBe('"10/second";r=9;t=1, "500/day";r=499;t=86400');
+    expect(res.headers.get("x-ratelimit-limit")).toBe("10");
+    expect(res.headers.get("x-ratelimit-remaining")).toBe("9");
+    const reset = Number(res.headers.get("x-ratelimit-reset"));
+    expect(reset).toBeGreaterThanOrEqual(before + 1);
+    expect(reset).toBeLessThanOrEqual(before + 3);
+  });
+
+  it("can leave out either set", async () => {
+    const legacyOnly = express();
+    legacyOnly.use(agentsTxt(makeOptions({ headers: { standard: false } })));
+    const a = await request(legacyOnly, "/.well-known/agents.txt");
+    expect(a.headers.get("ratelimit")).toBeNull();
+    expect(a.headers.get("x-ratelimit-limit")).toBe("60");
+
+    const standardOnly = express();
+    standardOnly.use(agentsTxt(makeOptions({ headers: { legacy: false } })));
+    const b = await request(standardOnly, "/.well-known/agents.txt");
+    expect(b.headers.get("ratelimit")).toBe('"60/minute";r=59;t=60');
+    expect(b.headers.get("x-ratelimit-remaining")).toBeNull();
+  });
+
+  it("describes the agent and capability limits of a capability endpoint", async () => {
+    const options = makeOptions();
+    const app = express();
+    app.get("/api/search", enforceCapability(options, "search"), (_req, res) => res.json({ ok: true }));
+
+    const res = await request(app, "/api/search");
+    expect(res.headers.get("ratelimit-policy")).toBe('"agent:100/hour";q=100;w=3600, "capability:search:5/minute";q=5;w=60');
+    expect(res.headers.get("x-ratelimit-limit")).toBe("5");
+    expect(res.headers.get("x-ratelimit-remaining")).toBe("4");
+  });
+
+  it("can be read back by agents to throttle themselves", async () => {
+    const options = makeOptions();
+    const app = express();
+    app.get("/api/search", enforceCapability(options, "search"), (_req, res) => res.json({ ok: true }));
+
+    let last: Awaited<ReturnType<typeof request>> | undefined;
+    for (let i = 0; i < 6; i++) last = await request(app, "/api/search");
+    expect(last!.status).toBe(429);
+
+    const info = parseRateLimitHeaders(last!.headers);
+    expect(info).toMatchObject({ limit: 5, remaining: 0 });
+    expect(info!.retryAfterSeconds).toBeGreaterThan(0);
+    // The agent's overall limit counts every attempt, including the refused one
+    expect(info!.policies).toEqual([
+      { name: "agent:100/hour", limit: 100, windowSeconds: 3600, remaining: 94, resetSeconds: 3600 },
+      expect.objectContaining({ name: "capability:search:5/minute", limit: 5, remaining: 0 }),
+    ]);
+  });
+});
@@ -1,6 +1,6 @@
-import { describe, it, expect, afterAll } from "vitest";
+import { describe, it, expect, afterAll, vi } from "vitest";
 import express from "express";
-import { agentsTxt } from "../src/index.js";
+import { agentsTxt, RateLimiter } from "../src/index.js";
 
 function createApp(options?: Parameters<typeof agentsTxt>[0]) {
   const app = express();
@@ -129,6 +129,22 @@ describe("agentsTxt middleware", () => {
     expect(res.body).toContain("Allow: /api/*");
     expect(res.body).toContain("Disallow: /admin/*");
   });
+
+  it("refuses to serve a document that contains secrets", () => {
+    const options = {
+      site: { name: "T", url: "https://t.com" },
+      capabilities: [
+        {
+          id: "search",
+          description: "Search",
+          endpoint: "https://t.com/api/search?api_key=sk9Qw2Lm7Xz4Rt8Vb1Nc",
+          protocol: "REST" as const,
+        },
+      ],
+    };
+    expect(() => agentsTxt(options)).toThrow(/appears to contain secrets/);
+    expect(() => agentsTxt({ ...options, allowSecrets: true })).not.toThrow();
+  });
 });
 
 describe("rate limiter integration", () => {
@@ -147,4 +163,32 @@ describe("rate limiter integration", () => {
     const res = await request(app, "/.well-known/agents.txt");
     expect(res.headers.get("x-ratelimit-remaining")).toBeNull();
   });
+
+  it("applies every declared limit", async () => {
+    const app = createApp({
+      site: { name: "T", url: "https://t.com" },
+      capabilities: [],
+      rateLimit: {
+        limits: [
+          { requests: 2, window: "second" },
+          { requests: 100, window: "day" },
+        ],
+        algorithm: "token-bucket",
+      },
+    });
+    const statuses = [];
+    for (let i = 0; i < 3; i++) statuses.push((await request(app, "/.well-known/agents.txt")).status);
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+
+  it("stops the rate limiter when closed", () => {
+    const destroy = vi.spyOn(RateLimiter.prototype, "destroy");
+    try {
+      const middleware = agentsTxt({ site: { name: "T", url: "https://t.com" }, capabilities: [] });
+      middleware.close();
+      expect(destroy).toHaveBeenCalledTimes(1);
+    } finally {
+      destroy.mockRestore();
+    }
+  });
 });
@@ -1,4 +1,4 @@
-import { describe, it, expect, afterEach } from "vitest";
+import { describe, it, expect, afterEach, beforeEach, vi } from "vitest";
 import { RateLimiter } from "../src/rate-limiter.js";
 
 describe("RateLimiter", () => {
@@ -62,3 +62,171 @@ describe("RateLimiter", () => {
     expect(result.allowed).toBe(true);
   });
 });
+
+/** The limiter's per-key state, to check what it keeps. */
+const entriesOf = (limiter: RateLimiter) => (limiter as unknown as { entries: Map<string, { state: unknown }> }).entries;
+
+describe("RateLimiter with declared limits", () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    limiter?.destroy();
+    vi.useRealTimers();
+  });
+
+  it("takes RateLimit values with any window", () => {
+    limiter = new RateLimiter();
+    const perSecond = { requests: 2, window: "second" } as const;
+    expect(limiter.check("k", perSecond)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(limiter.check("k", perSecond)).toMatchObject({ allowed: true, remaining: 0 });
+    const blocked = limiter.check("k", perSecond);
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterMs).toBeLessThanOrEqual(2000);
+
+    vi.advanceTimersByTime(2000);
+    expect(limiter.check("k", perSecond).allowed).toBe(true);
+  });
+
+  it("applies several limits at once", () => {
+    limiter = new RateLimiter({
+      algorithm: "sliding-window-log",
+      limits: [
+        { requests: 2, window: "second" },
+        { requests: 3, window: "day" },
+      ],
+    });
+    expect(limiter.check("k")).toMatchObject({ allowed: true, remaining: 1 });
+    expect(limiter.check("k")).toMatchObject({ allowed: true, remaining: 0 });
+    expect(limiter.check("k")).toMatchObject({ allowed: false, retryAfterMs: 1000 });
+
+    vi.advanceTimersByTime(1000);
+    expect(limiter.check("k")).toMatchObject({ allowed: true, remaining: 0 });
+    vi.advanceTimersByTime(1000);
+    expect(limiter.check("k")).toMatchObject({ allowed: false, retryAfterMs: 86_400_000 - 2000 });
+  });
+
+  it("does not count a hit denied by one limit against the others", () => {
+    limiter = new RateLimiter({ algorithm: "sliding-window-log" });
+    const limits = [
+      { requests: 1, window: "second" as const },
+      { requests: 5, window: "minute" as const },
+    ];
+    limiter.check("k", limits);
+    for (let i = 0; i < 3; i++) expect(limiter.check("k", limits).allowed).toBe(false);
+    vi.advanceTimersByTime(1000);
+    // Second hit against the minute limit, not fifth
+    expect(limiter.check("k", limits)).toMatchObject({ allowed: true, remaining: 0 });
+    vi.advanceTimersByTime(1000);
+    expect(limiter.check("k", { requests: 5, window: "minute" })).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it("reports the limit, remaining and reset of every limit", () => {
+    limiter = new RateLimiter({
+      algorithm: "sliding-window-log",
+      limits: [
+        { requests: 3, window: "second" },
+        { requests: 5, window: "minute" },
+      ],
+    });
+    limiter.check("k");
+    vi.advanceTimersByTime(400);
+    expect(limiter.check("k")).toEqual({
+      allowed: true,
+      remaining: 1,
+      limit: 3,
+      resetMs: 1000,
+      limits: [
+        { name: "3/second", limit: 3, windowMs: 1000, remaining: 1, resetMs: 1000, retryAfterMs: undefined },
+        { name: "5/minute", limit: 5, windowMs: 60_000, remaining: 3, resetMs: 60_000, retryAfterMs: undefined },
+      ],
+    });
+
+    limiter.check("k");
+    const refused = limiter.check("k");
+    expect(refused).toMatchObject({ allowed: false, remaining: 0, limit: 3, retryAfterMs: 600, resetMs: 1000 });
+    expect(refused.limits[1]).toMatchObject({ remaining: 2, retryAfterMs: undefined });
+  });
+
+  it("skips limits with an unknown window", () => {
+    limiter = new RateLimiter({ defaultLimit: 1 });
+    const limits = [{ requests: 1, window: "fortnight" as never }, { requests: 2, window: "minute" as const }];
+    expect(limiter.check("k", limits).allowed).toBe(true);
+    expect(limiter.check("k", limits).allowed).toBe(true);
+    expect(limiter.check("k", limits).allowed).toBe(false);
+  });
+});
+
+describe("RateLimiter algorithms", () => {
+  let limiter: RateLimiter;
+  const perMinute = { requests: 10, window: "minute" } as const;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    limiter?.destroy();
+    vi.useRealTimers();
+  });
+
+  const hits = (n: number) => Array.from({ length: n }, () => limiter.check("k", perMinute).allowed).filter(Boolean).length;
+
+  it("sliding-window-counter weights the previous window by its overlap", () => {
+    limiter = new RateLimiter({ algorithm: "sliding-window-counter" });
+    expect(hits(12)).toBe(10);
+
+    // The previous window still counts in full at the start of the next one
+    vi.advanceTimersByTime(60_000);
+    const blocked = limiter.check("k", perMinute);
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterMs).toBe(6000);
+
+    // Half of it three-quarters through (10 * 0.25 = 2.5 of 10)
+    vi.advanceTimersByTime(45_000);
+    expect(hits(10)).toBe(7);
+  });
+
+  it("sliding-window-counter keeps two counters per key whatever the limit", () => {
+    limiter = new RateLimiter({ algorithm: "sliding-window-counter" });
+    const perDay = { requests: 100_000, window: "day" } as const;
+    for (let i = 0; i < 5000; i++) limiter.check("k", perDay);
+    expect(limiter.check("k", perDay)).toMatchObject({ allowed: true, remaining: 94_999 });
+    const [entry] = entriesOf(limiter).values();
+    expect(entry.state).toMatchObject({ current: 5001, previous: 0 });
+  });
+
+  it("sliding-window-log is exact", () => {
+    limiter = new RateLimiter({ algorithm: "sliding-window-log" });
+    expect(hits(5)).toBe(5);
+    vi.advanceTimersByTime(30_000);
+    expect(hits(10)).toBe(5);
+    expect(limiter.check("k", perMinute).retryAfterMs).toBe(30_000);
+    vi.advanceTimersByTime(30_000);
+    expect(hits(10)).toBe(5);
+  });
+
+  it("token-bucket allows a burst, then refills evenly", () => {
+    limiter = new RateLimiter({ algorithm: "token-bucket" });
+    expect(hits(15)).toBe(10);
+    expect(limiter.check("k", perMinute)).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 6000 });
+
+    vi.advanceTimersByTime(6000);
+    expect(hits(2)).toBe(1);
+    vi.advanceTimersByTime(30_000);
+    expect(limiter.check("k", perMinute)).toMatchObject({ allowed: true, remaining: 4 });
+  });
+
+  it("forgets keys once they are idle", () => {
+    limiter = new RateLimiter({ algorithm: "token-bucket", cleanupIntervalMs: 1000 });
+    limiter.check("k", perMinute);
+    const entries = entriesOf(limiter);
+    vi.advanceTimersByTime(5000);
+    expect(entries.size).toBe(1);
+    vi.advanceTimersByTime(2000);
+    expect(entries.size).toBe(0);
+  });
+});
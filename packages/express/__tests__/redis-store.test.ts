@@ -0,0 +1,233 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer } from "node:net";
+import type { Server, Socket } from "node:net";
+import { RateLimiter, RedisError, RedisRateLimitStore } from "../src/index.js";
+
+/**
+ * An in-process stand-in for Redis: just enough RESP and just the commands
+ * the store sends, with keys that expire.
+ */
+interface StandIn {
+  port: number;
+  commands: string[][];
+  keys: Map<string, { value: number; expiresAt?: number }>;
+  sockets: Set<Socket>;
+  close(): Promise<void>;
+}
+
+interface StandInOptions {
+  password?: string;
+  /** Write replies one byte at a time. */
+  trickle?: boolean;
+  /** Never reply. */
+  silent?: boolean;
+}
+
+async function startStandIn(options: StandInOptions = {}): Promise<StandIn> {
+  const commands: string[][] = [];
+  const keys = new Map<string, { value: number; expiresAt?: number }>();
+  const sockets = new Set<Socket>();
+
+  const live = (key: string) => {
+    const entry = keys.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) keys.delete(key);
+    return keys.get(key);
+  };
+
+  const run = ([name, ...args]: string[]): string => {
+    switch (name.toUpperCase()) {
+      case "AUTH":
+        return args[args.length - 1] === options.password ? "+OK\r\n" : "-WRONGPASS invalid password\r\n";
+      case "SELECT":
+        return "+OK\r\n";
+      case "SET": {
+        if (args.includes("NX") && live(args[0])) return "$-1\r\n";
+        const px = args.indexOf("PX");
+        keys.set(args[0], { value: Number(args[1]), expiresAt: px >= 0 ? Date.now() + Number(args[px + 1]) : undefined });
+        return "+OK\r\n";
+      }
+      case "INCR": {
+        const entry = live(args[0]) ?? { value: 0 };
+        entry.value++;
+        keys.set(args[0], entry);
+        return `:${entry.value}\r\n`;
+      }
+      case "EVAL": {
+        // The only script the store sends: decrement a key while it exists
+        const entry = live(args[2]);
+        if (entry) entry.value--;
+        return `:${entry?.value ?? 0}\r\n`;
+      }
+      case "PTTL": {
+        const entry = live(args[0]);
+        if (!entry) return ":-2\r\n";
+        return `:${entry.expiresAt === undefined ? -1 : entry.expiresAt - Date.now()}\r\n`;
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    let buffer = "";
+    let queued: string[][] | undefined;
+
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      for (let command = readCommand(); command; command = readCommand()) {
+        commands.push(command);
+        if (options.silent) continue;
+        let reply: string;
+        const name = command[0].toUpperCase();
+        if (name === "MULTI") {
+          queued = [];
+          reply = "+OK\r\n";
+        } else if (name === "EXEC") {
+          const replies = (queued ?? []).map(run);
+          queued = undefined;
+          reply = `*${replies.length}\r\n${replies.join("")}`;
+        } else if (queued) {
+          queued.push(command);
+          reply = "+QUEUED\r\n";
+        } else {
+          reply = run(command);
+        }
+        if (options.trickle) for (const byte of reply) socket.write(byte);
+        else socket.write(reply);
+      }
+    });
+
+    function readCommand(): string[] | undefined {
+      const lines = buffer.split("\r\n");
+      const count = Number(lines[0].slice(1));
+      if (!lines[0].startsWith("*") || lines.length < 1 + count * 2 + 1) return undefined;
+      const args = [];
+      for (let i = 0; i < count; i++) args.push(lines[2 + i * 2]);
+      buffer = lines.slice(1 + count * 2).join("\r\n");
+      return args;
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return {
+    port: (server.address() as { port: number }).port,
+    commands,
+    keys,
+    sockets,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+describe("RedisRateLimitStore", () => {
+  let standIn: StandIn | undefined;
+  const stores: RedisRateLimitStore[] = [];
+
+  const storeFor = (options: ConstructorParameters<typeof RedisRateLimitStore>[0] = {}) => {
+    const store = new RedisRateLimitStore({ port: standIn!.port, ...options });
+    stores.push(store);
+    return store;
+  };
+
+  afterEach(async () => {
+    for (const store of stores.splice(0)) await store.close();
+    await standIn?.close();
+    standIn = undefined;
+  });
+
+  it("counts hits in one transaction with the window as expiry", async () => {
+    standIn = await startStandIn();
+    const store = storeFor();
+
+    expect(await store.increment("search|bot|1.2.3.4", 60_000)).toMatchObject({ count: 1 });
+    const second = await store.increment("search|bot|1.2.3.4", 60_000);
+    expect(second.count).toBe(2);
+    expect(second.resetMs).toBeGreaterThan(59_000);
+    expect(second.resetMs).toBeLessThanOrEqual(60_000);
+
+    expect([...standIn.keys.keys()]).toEqual(["agents-txt:ratelimit:search|bot|1.2.3.4"]);
+    expect(standIn.commands.slice(0, 5).map((c) => c[0])).toEqual(["MULTI", "SET", "INCR", "PTTL", "EXEC"]);
+    expect(standIn.commands[1]).toEqual(["SET", "agents-txt:ratelimit:search|bot|1.2.3.4", "0", "PX", "60000", "NX"]);
+  });
+
+  it("shares one limit between instances using the same server", async () => {
+    standIn = await startStandIn();
+    const first = new RateLimiter({ defaultLimit: 2, store: storeFor() });
+    const second = new RateLimiter({ defaultLimit: 2, store: storeFor() });
+
+    expect((await first.consume("ip")).allowed).toBe(true);
+    expect((await second.consume("ip")).allowed).toBe(true);
+    expect(await first.consume("ip")).toMatchObject({ allowed: false, remaining: 0 });
+    first.destroy();
+    second.destroy();
+  });
+
+  it("takes back a refused hit, but leaves an expired key alone", async () => {
+    standIn = await startStandIn();
+    const store = storeFor();
+    const limiter = new RateLimiter({ defaultLimit: 1, store });
+
+    expect((await limiter.consume("ip")).allowed).toBe(true);
+    expect((await limiter.consume("ip")).allowed).toBe(false);
+    expect(standIn.keys.get("agents-txt:ratelimit:ip|1/60000")?.value).toBe(1);
+
+    await store.decrement("gone");
+    expect(standIn.keys.has("agents-txt:ratelimit:gone")).toBe(false);
+    limiter.destroy();
+  });
+
+  it("starts a new window once the key expires", async () => {
+    standIn = await startStandIn();
+    const store = storeFor({ keyPrefix: "test:" });
+    await store.increment("k", 20);
+    await new Promise((r) => setTimeout(r, 30));
+    expect((await store.increment("k", 20)).count).toBe(1);
+    expect(standIn.keys.has("test:k")).toBe(true);
+  });
+
+  it("reads replies that arrive in pieces", async () => {
+    standIn = await startStandIn({ trickle: true });
+    const store = storeFor();
+    const hits = await Promise.all([store.increment("a", 60_000), store.increment("a", 60_000), store.increment("b", 60_000)]);
+    expect(hits.map((h) => h.count)).toEqual([1, 2, 1]);
+  });
+
+  it("authenticates and selects the database on connect", async () => {
+    standIn = await startStandIn({ password: "s3cret" });
+    await storeFor({ password: "s3cret", username: "limiter", db: 2 }).increment("a", 1000);
+    expect(standIn.commands.slice(0, 2)).toEqual([["AUTH", "limiter", "s3cret"], ["SELECT", "2"]]);
+
+    const wrong = storeFor({ password: "nope" });
+    await expect(wrong.increment("a", 1000)).rejects.toThrow("WRONGPASS invalid password");
+  });
+
+  it("reconnects after the connection drops", async () => {
+    standIn = await startStandIn();
+    const store = storeFor();
+    await store.increment("a", 60_000);
+    for (const socket of standIn.sockets) socket.destroy();
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect((await store.increment("a", 60_000)).count).toBe(2);
+  });
+
+  it("rejects with RedisError when the server is unreachable or silent", async () => {
+    standIn = await startStandIn();
+    const port = standIn.port;
+    await standIn.close();
+    standIn = undefined;
+    const unreachable = new RedisRateLimitStore({ port, timeoutMs: 500 });
+    stores.push(unreachable);
+    const error = await unreachable.increment("a", 1000).catch((err) => err);
+    expect(error).toBeInstanceOf(RedisError);
+    expect(error.message).toContain(`Cannot connect to Redis at 127.0.0.1:${port}`);
+
+    standIn = await startStandIn({ silent: true });
+    await expect(storeFor({ timeoutMs: 50 }).increment("a", 1000)).rejects.toThrow("Redis did not reply within 50ms");
+  });
+});
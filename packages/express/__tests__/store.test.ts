@@ -0,0 +1,157 @@
+import { describe, it, expect, afterEach } from "vitest";
+import express from "express";
+import { agentsTxt, enforceCapability, MemoryRateLimitStore, RateLimiter } from "../src/index.js";
+import type { AgentsTxtOptions, RateLimitStore } from "../src/index.js";
+
+async function request(app: ReturnType<typeof express>, path: string, opts: RequestInit = {}) {
+  const server = app.listen(0);
+  const addr = server.address() as { port: number };
+  try {
+    const res = await fetch(`http://127.0.0.1:${addr.port}${path}`, opts);
+    const body = await res.text();
+    return { status: res.status, headers: res.headers, body };
+  } finally {
+    server.close();
+  }
+}
+
+describe("MemoryRateLimitStore", () => {
+  let store: MemoryRateLimitStore;
+
+  afterEach(async () => {
+    await store?.close();
+  });
+
+  it("counts hits per key within a window", async () => {
+    store = new MemoryRateLimitStore();
+    expect(await store.increment("a", 60_000)).toMatchObject({ count: 1 });
+    expect(await store.increment("a", 60_000)).toMatchObject({ count: 2 });
+    const other = await store.increment("b", 60_000);
+    expect(other.count).toBe(1);
+    expect(other.resetMs).toBeGreaterThan(59_000);
+    expect(other.resetMs).toBeLessThanOrEqual(60_000);
+  });
+
+  it("starts over when the window ends", async () => {
+    store = new MemoryRateLimitStore();
+    await store.increment("a", 20);
+    await store.increment("a", 20);
+    await new Promise((r) => setTimeout(r, 30));
+    expect((await store.increment("a", 20)).count).toBe(1);
+  });
+
+  it("counts new keys as over the limit once full", async () => {
+    store = new MemoryRateLimitStore({ maxEntries: 1 });
+    await store.increment("a", 60_000);
+    expect((await store.increment("b", 60_000)).count).toBe(Infinity);
+    expect((await store.increment("a", 60_000)).count).toBe(2);
+  });
+});
+
+describe("RateLimiter with a store", () => {
+  it("limits across limiters that share the store", async () => {
+    const store = new MemoryRateLimitStore();
+    const first = new RateLimiter({ defaultLimit: 2, store });
+    const second = new RateLimiter({ defaultLimit: 2, store });
+
+    expect(await first.consume("ip")).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await second.consume("ip")).toMatchObject({ allowed: true, remaining: 0 });
+    const blocked = await first.consume("ip");
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterMs).toBeGreaterThan(0);
+
+    first.destroy();
+    second.destroy();
+    await store.close();
+  });
+
+  it("does not count a hit one limit refuses against the others", async () => {
+    const store = new MemoryRateLimitStore();
+    const limiter = new RateLimiter({
+      limits: [
+        { requests: 2, window: "second" },
+        { requests: 5, window: "day" },
+      ],
+      store,
+    });
+
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await limiter.consume("ip"));
+    expect(results.map((r) => r.allowed)).toEqual([true, true, false, false]);
+    // Only the two allowed hits count against the daily limit
+    expect(results[3].limits.map((s) => s.remaining)).toEqual([0, 3]);
+    expect((await store.increment("ip|5/86400000", 86_400_000)).count).toBe(3);
+
+    limiter.destroy();
+    await store.close();
+  });
+
+  it("consumes from memory without a store, like check()", async () => {
+    const limiter = new RateLimiter({ defaultLimit: 1 });
+    expect((await limiter.consume("ip")).allowed).toBe(true);
+    expect(limiter.check("ip").allowed).toBe(false);
+    limiter.destroy();
+  });
+});
+
+describe("shared store across app instances", () => {
+  const options = (store: RateLimitStore): AgentsTxtOptions => ({
+    site: { name: "Scaled Site", url: "https://scaled.example.com" },
+    capabilities: [
+      {
+        id: "search",
+        description: "Search",
+        endpoint: "https://scaled.example.com/api/search",
+        method: "GET",
+        protocol: "REST",
+        rateLimit: { requests: 2, window: "minute" },
+      },
+    ],
+    rateLimit: { defaultLimit: 2, store },
+  });
+
+  function instance(store: RateLimitStore) {
+    const opts = options(store);
+    const app = express();
+    app.use(agentsTxt(opts));
+    app.get("/api/search", enforceCapability(opts, "search", { store }), (_req, res) => res.json({ ok: true }));
+    return app;
+  }
+
+  it("holds the document rate limit across instances", async () => {
+    const store = new MemoryRateLimitStore();
+    const [a, b] = [instance(store), instance(store)];
+    expect((await request(a, "/.well-known/agents.txt")).status).toBe(200);
+    expect((await request(b, "/.well-known/agents.txt")).status).toBe(200);
+    const limited = await request(a, "/.well-known/agents.json");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("retry-after")).toMatch(/^\d+$/);
+    await store.close();
+  });
+
+  it("holds capability rate limits across instances", async () => {
+    const store = new MemoryRateLimitStore();
+    const [a, b] = [instance(store), instance(store)];
+    const statuses = [];
+    for (const app of [a, b, a]) statuses.push((await request(app, "/api/search")).status);
+    expect(statuses).toEqual([200, 200, 429]);
+    await store.close();
+  });
+
+  it("passes store errors to the app's error handler", async () => {
+    const broken: RateLimitStore = {
+      increment: async () => {
+        throw new Error("store unavailable");
+      },
+    };
+    const app = instance(broken);
+    app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(503).json({ error: err.message });
+    });
+
+    const document = await request(app, "/.well-known/agents.txt");
+    expect(document.status).toBe(503);
+    expect(JSON.parse(document.body)).toEqual({ error: "store unavailable" });
+    expect((await request(app, "/api/search")).status).toBe(503);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * agents.txt - Document sources for the middleware
+ *
+ * agentsTxt() serves a document built once from its options, the document an
+ * async provider returns, or an agents.txt/agents.json file that is watched
+ * for changes. A loaded document is validated and rendered to both formats
+ * once per change. When a reload fails, the failure is reported and the last
+ * good document stays in service.
+ */
+
+import { watch } from "node:fs";
+import type { FSWatcher } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename, dirname, resolve } from "node:path";
+import { generate, generateJSON, parse, parseJSON, validate } from "@agents-txt/core";
+import type { AgentsTxtDocument, ParseError, ValidationError } from "@agents-txt/core";
+
+export type DocumentProvider = () => AgentsTxtDocument | Promise<AgentsTxtDocument>;
+
+/** A document and its two renderings, as served. */
+export interface RenderedDocument {
+  document: AgentsTxtDocument;
+  txt: string;
+  json: string;
+}
+
+/** A document that could not be loaded, parsed, validated or rendered. */
+export class DocumentReloadError extends Error {
+  /** The file path, or "provider". */
+  readonly source: string;
+  /** What was wrong with a document that was read but refused. */
+  readonly problems: (ParseError | ValidationError)[];
+
+  constructor(source: string, message: string, problems: (ParseError | ValidationError)[] = [], options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "DocumentReloadError";
+    this.source = source;
+    this.problems = problems;
+  }
+}
+
+export interface DocumentSourceOptions {
+  /** Render documents that look like they contain credentials. */
+  allowSecrets?: boolean;
+  /** Called with every failed load; the previous document is still served. */
+  onReloadError?: (error: DocumentReloadError) => void;
+  /** How long a provider's document is served before the provider is asked again, in ms. */
+  refreshMs?: number;
+}
+
+/** Where agentsTxt() and the enforcement middleware get the document they serve. */
+export class DocumentSource {
+  /** Whether the document can change while the app runs. */
+  readonly dynamic: boolean;
+  private current?: RenderedDocument;
+  private currentKey?: string;
+  /** When the last load finished, successful or not. */
+  private askedAt = 0;
+  private loading?: Promise<void>;
+  private lastError?: DocumentReloadError;
+  private watcher?: FSWatcher;
+  private debounce?: ReturnType<typeof setTimeout>;
+
+  private constructor(
+    private name: string,
+    private load: (() => Promise<AgentsTxtDocument>) | undefined,
+    private options: DocumentSourceOptions,
+  ) {
+    this.dynamic = load !== undefined;
+  }
+
+  /** A document that never changes. Throws SecretLeakError like generate(). */
+  static fixed(document: AgentsTxtDocument, options: DocumentSourceOptions = {}): DocumentSource {
+    const source = new DocumentSource("options", undefined, options);
+    source.current = render(document, options);
+    return source;
+  }
+
+  /** A document from a provider, asked again every `refreshMs` (default: 60000). */
+  static provider(provider: DocumentProvider, options: DocumentSourceOptions = {}): DocumentSource {
+    const source = new DocumentSource("provider", async () => provider(), { ...options, refreshMs: options.refreshMs ?? 60_000 });
+    source.reload().catch(() => {});
+    return source;
+  }
+
+  /** A document read from an agents.txt or agents.json file, reloaded whenever the file changes. */
+  static file(path: string, options: DocumentSourceOptions = {}): DocumentSource {
+    const file = resolve(path);
+    const source = new DocumentSource(file, () => readDocument(file), { ...options, refreshMs: undefined });
+    source.reload().catch(() => {});
+    source.watch(file);
+    return source;
+  }
+
+  /**
+   * The document to serve. A provider's document that is due a refresh is
+   * served while it refreshes. A failed load is not retried until `refreshMs`
+   * has passed, so a failing provider is not asked on every request.
+   */
+  async get(): Promise<RenderedDocument> {
+    if (!this.current) {
+      if (this.loading || this.due()) await this.reload().catch(() => {});
+      if (!this.current) throw this.lastError ?? new DocumentReloadError(this.name, "No document loaded");
+    } else if (this.options.refreshMs !== undefined && this.due()) {
+      this.reload().catch(() => {});
+    }
+    return this.current;
+  }
+
+  /** The document in service, if one has loaded. */
+  peek(): RenderedDocument | undefined {
+    return this.current;
+  }
+
+  /**
+   * Load the document again now. Rejects with a DocumentReloadError (also
+   * passed to onReloadError) if the new document is refused.
+   */
+  reload(): Promise<void> {
+    if (!this.load) return Promise.resolve();
+    this.loading ??= this.refresh(this.load).finally(() => {
+      this.loading = undefined;
+    });
+    return this.loading;
+  }
+
+  /** Stop watching the file. */
+  close(): void {
+    clearTimeout(this.debounce);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  private due(): boolean {
+    return this.options.refreshMs === undefined || Date.now() - this.askedAt >= this.options.refreshMs;
+  }
+
+  private async refresh(load: () => Promise<AgentsTxtDocument>): Promise<void> {
+    try {
+      const document = await load();
+      const key = JSON.stringify(document);
+      // Unchanged: keep serving the rendering already made
+      if (key !== this.currentKey) {
+        const problems = validate(document).errors;
+        if (problems.length > 0) {
+          throw new DocumentReloadError(this.name, `Invalid document from ${this.name}: ${problems[0].message}`, problems);
+        }
+        this.current = render({ ...document, generatedAt: document.generatedAt ?? new Date().toISOString() }, this.options);
+        this.currentKey = key;
+      }
+    } catch (err) {
+      const error =
+        err instanceof DocumentReloadError
+          ? err
+          : new DocumentReloadError(this.name, `Cannot load document from ${this.name}: ${(err as Error).message}`, [], { cause: err });
+      this.lastError = error;
+      this.options.onReloadError?.(error);
+      throw error;
+    } finally {
+      this.askedAt = Date.now();
+    }
+  }
+
+  private watch(file: string): void {
+    // Watch the directory: editors often replace a file rather than write to it
+    this.watcher = watch(dirname(file), { persistent: false }, (_event, name) => {
+      if (name !== null && name.toString() !== basename(file)) return;
+      clearTimeout(this.debounce);
+      this.debounce = setTimeout(() => this.reload().catch(() => {}), 50);
+    });
+    this.watcher.on("error", (err) => {
+      const error = new DocumentReloadError(file, `Stopped watching ${file}: ${err.message}`, [], { cause: err });
+      this.lastError = error;
+      this.options.onReloadError?.(error);
+    });
+  }
+}
+
+function render(document: AgentsTxtDocument, options: DocumentSourceOptions): RenderedDocument {
+  return {
+    document,
+    txt: generate(document, { allowSecrets: options.allowSecrets }),
+    json: generateJSON(document, { allowSecrets: options.allowSecrets }),
+  };
+}
+
+/** Read and parse a file as agents.json if its name ends in ".json", agents.txt otherwise. */
+async function readDocument(file: string): Promise<AgentsTxtDocument> {
+  const text = await readFile(file, "utf8");
+  const result = file.endsWith(".json") ? parseJSON(text) : parse(text);
+  if (!result.success || !result.document) {
+    const detail = result.errors[0]?.message ?? "not an agents.txt document";
+    throw new DocumentReloadError(file, `Cannot parse ${file}: ${detail}`, result.errors);
+  }
+  return result.document;
+}
@@ -0,0 +1,248 @@
+import { agentNameFromUserAgent, isPathAllowed, normalizePath, parseEndpointTemplate, resolveAgentPolicy } from "@agents-txt/core";
+import type { AgentsTxtDocument, Capability, RateLimit } from "@agents-txt/core";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { documentSourceFor } from "./middleware.js";
+import type { AgentsTxtOptions } from "./middleware.js";
+import { RateLimiter } from "./rate-limiter.js";
+import type { RateLimitAlgorithm, RateLimitResult, RateLimitStatus } from "./rate-limiter.js";
+import { setRateLimitHeaders } from "./headers.js";
+import type { RateLimitHeaderOptions } from "./headers.js";
+import type { RateLimitStore } from "./store.js";
+import type { DocumentSource } from "./document-source.js";
+
+export interface EnforceOptions {
+  /** The caller's User-Agent string, used to find its policy. Default: the User-Agent header. */
+  identify?: (req: Request) => string | undefined;
+  /** Who rate limits count against, together with the agent. Default: the client IP. */
+  clientKey?: (req: Request) => string;
+  /** Apply the declared rate limits. Default: true. */
+  rateLimit?: boolean;
+  /**
+   * Count rate limits in a shared store, so they hold across instances.
+   * Default: the options' rateLimit.store, else this process. Store errors
+   * are passed to next().
+   */
+  store?: RateLimitStore;
+}
+
+export type EnforcementCode = "PATH_DISALLOWED" | "CAPABILITY_NOT_GRANTED" | "RATE_LIMITED";
+
+interface Enforcement {
+  source: DocumentSource;
+  algorithm?: RateLimitAlgorithm;
+  store?: RateLimitStore;
+  headers?: RateLimitHeaderOptions;
+  /** Shared by every middleware built from the same options. */
+  limiter?: RateLimiter;
+}
+
+interface Route {
+  capability: Capability;
+  method: string;
+  pattern: RegExp;
+  /** The same pattern ignoring case, as Express routes do by default. */
+  loosePattern: RegExp;
+}
+
+const enforcements = new WeakMap<AgentsTxtOptions, Enforcement>();
+/** Capability routes, matched once per document. */
+const documentRoutes = new WeakMap<AgentsTxtDocument, Route[]>();
+/** Documents with their access rules and endpoints lower-cased, for case-insensitive routing. */
+const foldedDocuments = new WeakMap<AgentsTxtDocument, AgentsTxtDocument>();
+/** Limiters over a store; the counters themselves are shared through the store. */
+const storeLimiters = new WeakMap<RateLimitStore, RateLimiter>();
+
+/**
+ * Middleware for a route that implements one declared capability. Rejects
+ * agents whose policy does not include the capability (403) and applies the
+ * capability's and the agent's rate limits (429). Disallow rules do not
+ * apply: a declared capability endpoint takes precedence (SPEC 3.5).
+ *
+ * Pass the same options object given to agentsTxt(): middleware built from
+ * one options object shares its counters, so an agent-level limit covers
+ * all of that agent's capabilities, and follows the same loaded document.
+ * An unknown capability throws here for a declared document, and is passed
+ * to next() for a loaded one.
+ */
+export function enforceCapability(
+  options: AgentsTxtOptions,
+  capabilityId: string,
+  settings: EnforceOptions = {},
+): RequestHandler {
+  const enforcement = enforcementFor(options);
+  const fixed = enforcement.source.dynamic ? undefined : enforcement.source.peek();
+  if (fixed && !fixed.document.capabilities.some((c) => c.id === capabilityId)) {
+    throw new Error(`Unknown capability "${capabilityId}"`);
+  }
+
+  return function enforceCapabilityMiddleware(req: Request, res: Response, next: NextFunction): void {
+    enforcement.source
+      .get()
+      .then(({ document }) => {
+        const capability = document.capabilities.find((c) => c.id === capabilityId);
+        if (!capability) throw new Error(`Unknown capability "${capabilityId}"`);
+        return authorize(enforcement, document, [capability], settings, req, res, next);
+      })
+      .catch(next);
+  };
+}
+
+/**
+ * Middleware that enforces the whole declaration: a request matching a
+ * capability endpoint (by method and path) is checked as in
+ * enforceCapability(); any other request is rejected (403) when its path is
+ * Disallowed, and passed on otherwise. Mount it in front of the routes
+ * agents call. Paths are compared ignoring case unless the app enables
+ * "case sensitive routing", so they match what the routes match.
+ */
+export function enforceAgentsTxt(options: AgentsTxtOptions, settings: EnforceOptions = {}): RequestHandler {
+  const enforcement = enforcementFor(options);
+
+  return function enforceAgentsTxtMiddleware(req: Request, res: Response, next: NextFunction): void {
+    enforcement.source
+      .get()
+      .then(({ document }) => {
+        const caseSensitive = req.app?.get("case sensitive routing") === true;
+        const path = normalizePath(req.originalUrl).split("?")[0];
+        const method = req.method === "HEAD" ? "GET" : req.method;
+        const matches = routesFor(document)
+          .filter((r) => r.method === method && (caseSensitive ? r.pattern : r.loosePattern).test(path))
+          .map((r) => r.capability);
+        if (matches.length > 0) {
+          return authorize(enforcement, document, matches, settings, req, res, next);
+        }
+
+        const decision = caseSensitive
+          ? isPathAllowed(document, req.originalUrl)
+          : isPathAllowed(foldedFor(document), req.originalUrl.toLowerCase());
+        if (!decision.allowed) {
+          reject(res, 403, "PATH_DISALLOWED", `Agents may not access ${decision.path} (Disallow: ${decision.rule})`);
+          return;
+        }
+        next();
+      })
+      .catch(next);
+  };
+}
+
+function enforcementFor(options: AgentsTxtOptions): Enforcement {
+  let enforcement = enforcements.get(options);
+  if (!enforcement) {
+    const rateLimit = options.rateLimit || undefined;
+    enforcement = {
+      source: documentSourceFor(options),
+      algorithm: rateLimit?.algorithm,
+      store: rateLimit?.store,
+      headers: rateLimit?.headers,
+    };
+    enforcements.set(options, enforcement);
+  }
+  return enforcement;
+}
+
+function routesFor(document: AgentsTxtDocument): Route[] {
+  let routes = documentRoutes.get(document);
+  if (!routes) {
+    routes = document.capabilities.map((capability) => ({
+      capability,
+      method: (capability.method ?? "GET").toUpperCase(),
+      pattern: endpointPattern(capability.endpoint, ""),
+      loosePattern: endpointPattern(capability.endpoint, "i"),
+    }));
+    documentRoutes.set(document, routes);
+  }
+  return routes;
+}
+
+function foldedFor(document: AgentsTxtDocument): AgentsTxtDocument {
+  let folded = foldedDocuments.get(document);
+  if (!folded) {
+    const lower = (patterns: string[]) => patterns.map((p) => p.toLowerCase());
+    folded = {
+      ...document,
+      access: { ...document.access, allow: lower(document.access.allow), disallow: lower(document.access.disallow) },
+      capabilities: document.capabilities.map((c) => ({ ...c, endpoint: c.endpoint.toLowerCase() })),
+    };
+    foldedDocuments.set(document, folded);
+  }
+  return folded;
+}
+
+/**
+ * Let the request through if the agent may use one of the capabilities and
+ * is within its limits; otherwise answer 403 or 429.
+ */
+async function authorize(
+  enforcement: Enforcement,
+  document: AgentsTxtDocument,
+  capabilities: Capability[],
+  settings: EnforceOptions,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  const userAgent = settings.identify ? settings.identify(req) : req.get("user-agent");
+  const agent = userAgent ? agentNameFromUserAgent(userAgent) : "";
+  const policy = resolveAgentPolicy(document, userAgent);
+  const capability = capabilities.find((c) => policy.capabilities.includes(c.id));
+  if (!capability) {
+    const id = capabilities[0].id;
+    reject(res, 403, "CAPABILITY_NOT_GRANTED", `Agent "${agent || "*"}" may not use capability "${id}"`, { capability: id });
+    return;
+  }
+
+  if (settings.rateLimit !== false) {
+    const client = settings.clientKey?.(req) ?? req.ip ?? req.socket?.remoteAddress ?? "unknown";
+    // Count against the policy that matched, not the name the agent gave: every
+    // unknown name falls back to `*` and must not get a fresh count
+    const counted = policy.agent ?? "*";
+    // SPEC 7.2: the agent's limit counts across all capabilities, the capability's only here
+    const checks: [string, string, RateLimit | undefined][] = [
+      ["agent", `agent|${counted}|${client}`, policy.rateLimit],
+      [`capability:${capability.id}`, `capability|${capability.id}|${counted}|${client}`, capability.rateLimit],
+    ];
+
+    const limiter = limiterFor(enforcement, settings.store ?? enforcement.store);
+    // Headers describe both limits, named after what they apply to
+    const statuses: RateLimitStatus[] = [];
+    let closest: RateLimitResult | undefined;
+    for (const [scope, key, limit] of checks) {
+      if (!limit) continue;
+      const result = await limiter.consume(key, limit);
+      statuses.push(...result.limits.map((s) => ({ ...s, name: `${scope}:${s.name}` })));
+      if (!result.allowed) {
+        setRateLimitHeaders(res, { ...result, limits: statuses }, enforcement.headers);
+        reject(res, 429, "RATE_LIMITED", "Rate limit exceeded", { capability: capability.id });
+        return;
+      }
+      if (!closest || result.remaining < closest.remaining) closest = result;
+    }
+    if (closest) setRateLimitHeaders(res, { ...closest, limits: statuses }, enforcement.headers);
+  }
+  next();
+}
+
+function limiterFor(enforcement: Enforcement, store: RateLimitStore | undefined): RateLimiter {
+  if (!store) {
+    enforcement.limiter ??= new RateLimiter({ algorithm: enforcement.algorithm });
+    return enforcement.limiter;
+  }
+  let limiter = storeLimiters.get(store);
+  if (!limiter) {
+    limiter = new RateLimiter({ store });
+    storeLimiters.set(store, limiter);
+  }
+  return limiter;
+}
+
+/** A regular expression for the path of an endpoint, with placeholders matching one segment. */
+function endpointPattern(endpoint: string, flags: string): RegExp {
+  const path = parseEndpointTemplate(endpoint)
+    .segments.map((s) => (s.type === "literal" ? s.value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") : "[^/]+"))
+    .join("");
+  return new RegExp(`^${path.replace(/\/+$/, "")}/?$`, flags);
+}
+
+function reject(res: Response, status: number, code: EnforcementCode, error: string, extra: Record<string, unknown> = {}): void {
+  res.status(status).json({ error, code, ...extra });
+}
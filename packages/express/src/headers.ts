@@ -0,0 +1,49 @@
+/**
+ * agents.txt - Rate limit response headers
+ *
+ * SPEC 7.3 asks for X-RateLimit-Remaining and Retry-After. Agents can only
+ * pace themselves if they also learn the limit and when it resets, so these
+ * go out too: as the IETF RateLimit and RateLimit-Policy fields
+ * (draft-ietf-httpapi-ratelimit-headers), and as the X-RateLimit-* headers
+ * older clients read.
+ */
+
+import type { Response } from "express";
+import type { RateLimitResult } from "./rate-limiter.js";
+
+export interface RateLimitHeaderOptions {
+  /** RateLimit and RateLimit-Policy, one entry per limit. Default: true. */
+  standard?: boolean;
+  /**
+   * X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset (Unix
+   * time in seconds), for the limit closest to running out. Default: true.
+   */
+  legacy?: boolean;
+}
+
+/** Describe a rate limit decision in headers, with Retry-After if the request was refused. */
+export function setRateLimitHeaders(res: Response, result: RateLimitResult, options: RateLimitHeaderOptions = {}): void {
+  if (result.limits.length > 0) {
+    if (options.standard !== false) {
+      res.setHeader("RateLimit-Policy", result.limits.map((l) => `${sfString(l.name)};q=${l.limit};w=${seconds(l.windowMs)}`).join(", "));
+      res.setHeader("RateLimit", result.limits.map((l) => `${sfString(l.name)};r=${l.remaining};t=${seconds(l.resetMs)}`).join(", "));
+    }
+    if (options.legacy !== false) {
+      res.setHeader("X-RateLimit-Limit", String(result.limit));
+      res.setHeader("X-RateLimit-Remaining", String(result.remaining));
+      res.setHeader("X-RateLimit-Reset", String(Math.ceil((Date.now() + result.resetMs) / 1000)));
+    }
+  }
+  if (!result.allowed) {
+    res.setHeader("Retry-After", String(seconds(result.retryAfterMs || 60000)));
+  }
+}
+
+function seconds(ms: number): number {
+  return Math.ceil(ms / 1000);
+}
+
+/** A structured field string (RFC 8941): quoted, with " and \ escaped. */
+function sfString(value: string): string {
+  return `"${value.replace(/[\\"]/g, "\\$&").replace(/[^\x20-\x7e]/g, "")}"`;
+}
@@ -1,4 +1,26 @@
 export { agentsTxt } from "./middleware.js";
-export type { AgentsTxtOptions } from "./middleware.js";
+export type {
+  AgentsTxtOptions,
+  AgentsTxtMiddleware,
+  DeclaredDocumentOptions,
+  LoadedDocumentOptions,
+  ServeOptions,
+} from "./middleware.js";
+export { DocumentReloadError } from "./document-source.js";
+export type { DocumentProvider } from "./document-source.js";
+export { enforceCapability, enforceAgentsTxt } from "./enforce.js";
+export type { EnforceOptions, EnforcementCode } from "./enforce.js";
 export { RateLimiter } from "./rate-limiter.js";
-export type { RateLimiterOptions } from "./rate-limiter.js";
+export type {
+  RateLimiterOptions,
+  RateLimitResult,
+  RateLimitStatus,
+  RateLimitAlgorithm,
+  RateLimitInput,
+} from "./rate-limiter.js";
+export { MemoryRateLimitStore } from "./store.js";
+export type { RateLimitStore, RateLimitHit, MemoryRateLimitStoreOptions } from "./store.js";
+export { RedisRateLimitStore, RedisError } from "./redis-store.js";
+export type { RedisRateLimitStoreOptions } from "./redis-store.js";
+export { setRateLimitHeaders } from "./headers.js";
+export type { RateLimitHeaderOptions } from "./headers.js";
@@ -1,9 +1,15 @@
-import { generate, generateJSON } from "@agents-txt/core";
-import type { AgentsTxtDocument, SiteInfo, Capability, AccessControl, AgentPolicy } from "@agents-txt/core";
+import type { AgentsTxtDocument, SiteInfo, Capability, AccessControl, AgentPolicy, RateLimit } from "@agents-txt/core";
 import { RateLimiter } from "./rate-limiter.js";
+import type { RateLimitAlgorithm } from "./rate-limiter.js";
+import type { RateLimitStore } from "./store.js";
+import { setRateLimitHeaders } from "./headers.js";
+import type { RateLimitHeaderOptions } from "./headers.js";
+import { DocumentSource } from "./document-source.js";
+import type { DocumentProvider, DocumentReloadError } from "./document-source.js";
 import type { Request, Response, NextFunction } from "express";
 
-export interface AgentsTxtOptions {
+/** A document declared in code, built once. */
+export interface DeclaredDocumentOptions {
   /** Site identity. */
   site: SiteInfo;
   /** Capabilities to declare. */
@@ -12,16 +18,94 @@ export interface AgentsTxtOptions {
   access?: AccessControl;
   /** Per-agent policies. Default: wildcard. */
   agents?: Record<string, AgentPolicy>;
-  /** Rate limiting options. Set to false to disable. */
-  rateLimit?: { enabled?: boolean; defaultLimit?: number } | false;
+}
+
+/** A document loaded at runtime and reloaded when it changes. */
+export interface LoadedDocumentOptions {
+  /**
+   * A function returning the document, or the path of an agents.txt or
+   * agents.json file (parsed as JSON if the name ends in ".json"). A file is
+   * watched and reloaded on change; a provider is asked again every
+   * `refreshMs`. Every new document is validated before it is served.
+   */
+  document: DocumentProvider | string;
+  /** How long a provider's document is served before it is asked again, in ms. Default: 60000. */
+  refreshMs?: number;
+  /** Called when a reload fails. The last good document is served meanwhile. */
+  onReloadError?: (error: DocumentReloadError) => void;
+}
+
+/** How agentsTxt() serves the document, wherever it comes from. */
+export interface ServeOptions {
+  /**
+   * Rate limiting options. Set to false to disable. `limits` replaces
+   * `defaultLimit` (per minute) with any number of windows, e.g.
+   * [{ requests: 10, window: "second" }, { requests: 1000, window: "day" }].
+   * Give a shared `store` to count across every instance of the app.
+   * `headers` picks which rate limit headers to send (SPEC 7.3).
+   * enforceCapability() and enforceAgentsTxt() use the algorithm, store and
+   * headers too.
+   */
+  rateLimit?:
+    | {
+        enabled?: boolean;
+        defaultLimit?: number;
+        limits?: RateLimit | RateLimit[];
+        algorithm?: RateLimitAlgorithm;
+        store?: RateLimitStore;
+        headers?: RateLimitHeaderOptions;
+      }
+    | false;
   /** Allowed CORS origins. Default: ["*"]. */
   corsOrigins?: string[];
   /** Serve paths. Default: /.well-known/agents.txt and /.well-known/agents.json */
   paths?: { txt?: string; json?: string };
+  /**
+   * Serve the document even if it looks like it contains credentials.
+   * By default agentsTxt() throws SecretLeakError for a declared document,
+   * and a loaded one is refused like an invalid one.
+   */
+  allowSecrets?: boolean;
+}
+
+export type AgentsTxtOptions = ServeOptions & (DeclaredDocumentOptions | LoadedDocumentOptions);
+
+export interface AgentsTxtMiddleware {
+  (req: Request, res: Response, next: NextFunction): void;
+  /** Load a provided or watched document again now. Resolves once it is in service. */
+  reload(): Promise<void>;
+  /** Stop watching the document file and the rate limiter's cleanup timer. */
+  close(): void;
 }
 
-export function agentsTxt(options: AgentsTxtOptions) {
-  const doc: AgentsTxtDocument = {
+const sources = new WeakMap<AgentsTxtOptions, DocumentSource>();
+
+/**
+ * The source of the document the options describe. Middleware built from
+ * the same options object shares it, so all of it sees one document.
+ */
+export function documentSourceFor(options: AgentsTxtOptions): DocumentSource {
+  let source = sources.get(options);
+  if (!source) {
+    const sourceOptions = {
+      allowSecrets: options.allowSecrets,
+      ...("document" in options ? { refreshMs: options.refreshMs, onReloadError: options.onReloadError } : {}),
+    };
+    if (!("document" in options)) {
+      source = DocumentSource.fixed(buildDocument(options), sourceOptions);
+    } else if (typeof options.document === "string") {
+      source = DocumentSource.file(options.document, sourceOptions);
+    } else {
+      source = DocumentSource.provider(options.document, sourceOptions);
+    }
+    sources.set(options, source);
+  }
+  return source;
+}
+
+/** The document the options declare, with the defaults filled in. */
+function buildDocument(options: DeclaredDocumentOptions): AgentsTxtDocument {
+  return {
     specVersion: "1.0",
     generatedAt: new Date().toISOString(),
     site: options.site,
@@ -29,20 +113,26 @@ export function agentsTxt(options: AgentsTxtOptions) {
     access: options.access ?? { allow: ["*"], disallow: [] },
     agents: options.agents ?? { "*": {} },
   };
+}
 
-  const txtContent = generate(doc);
-  const jsonContent = generateJSON(doc);
+export function agentsTxt(options: AgentsTxtOptions): AgentsTxtMiddleware {
+  const source = documentSourceFor(options);
 
   const txtPath = options.paths?.txt ?? "/.well-known/agents.txt";
   const jsonPath = options.paths?.json ?? "/.well-known/agents.json";
 
   const rateLimiter = options.rateLimit !== false
-    ? new RateLimiter({ defaultLimit: (options.rateLimit && options.rateLimit.defaultLimit) ?? 60 })
+    ? new RateLimiter({
+        defaultLimit: (options.rateLimit && options.rateLimit.defaultLimit) ?? 60,
+        limits: options.rateLimit?.limits,
+        algorithm: options.rateLimit?.algorithm,
+        store: options.rateLimit?.store,
+      })
     : null;
 
   const corsOrigins = options.corsOrigins ?? ["*"];
 
-  return function agentsTxtMiddleware(req: Request, res: Response, next: NextFunction): void {
+  function agentsTxtMiddleware(req: Request, res: Response, next: NextFunction): void {
     // Only handle our paths
     if (req.path !== txtPath && req.path !== jsonPath) {
       next();
@@ -70,26 +160,39 @@ export function agentsTxt(options: AgentsTxtOptions) {
     }
 
     // Rate limiting
-    if (rateLimiter) {
-      const ip = req.ip ?? req.socket?.remoteAddress ?? "unknown";
-      const result = rateLimiter.check(ip);
-      res.setHeader("X-RateLimit-Remaining", String(result.remaining));
+    if (!rateLimiter) {
+      serve(req, res, next);
+      return;
+    }
+    const ip = req.ip ?? req.socket?.remoteAddress ?? "unknown";
+    rateLimiter.consume(`document|${ip}`).then((result) => {
+      setRateLimitHeaders(res, result, options.rateLimit ? options.rateLimit.headers : undefined);
       if (!result.allowed) {
-        res.setHeader("Retry-After", String(Math.ceil((result.retryAfterMs || 60000) / 1000)));
-        res.status(429).json({ error: "Rate limit exceeded" });
+        res.status(429).json({ error: "Rate limit exceeded", code: "RATE_LIMITED" });
         return;
       }
-    }
+      serve(req, res, next);
+    }, next);
+  }
 
-    // Serve content
-    if (req.path === txtPath) {
-      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+  function serve(req: Request, res: Response, next: NextFunction): void {
+    source.get().then((rendered) => {
       res.setHeader("Cache-Control", "public, max-age=300");
-      res.send(txtContent);
-    } else {
-      res.setHeader("Content-Type", "application/json; charset=utf-8");
-      res.setHeader("Cache-Control", "public, max-age=300");
-      res.send(jsonContent);
-    }
-  };
+      if (req.path === txtPath) {
+        res.setHeader("Content-Type", "text/plain; charset=utf-8");
+        res.send(rendered.txt);
+      } else {
+        res.setHeader("Content-Type", "application/json; charset=utf-8");
+        res.send(rendered.json);
+      }
+    }, next);
+  }
+
+  return Object.assign(agentsTxtMiddleware, {
+    reload: () => source.reload(),
+    close: () => {
+      source.close();
+      rateLimiter?.destroy();
+    },
+  });
 }
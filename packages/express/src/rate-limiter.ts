@@ -1,66 +1,337 @@
-interface SlidingWindowEntry {
-  timestamps: number[];
-}
+import { windowToMs } from "@agents-txt/core";
+import type { RateLimit } from "@agents-txt/core";
+import type { RateLimitStore } from "./store.js";
+
+/**
+ * How hits are counted against a limit:
+ * - "sliding-window-counter": hits in this window plus the previous window's,
+ *   weighted by how much of it the sliding window still covers. Two counters
+ *   per key, whatever the limit.
+ * - "sliding-window-log": a timestamp per hit. Exact, but memory grows with
+ *   the limit.
+ * - "token-bucket": a bucket of `requests` tokens, refilled evenly over the
+ *   window. Allows bursts of up to the whole limit.
+ */
+export type RateLimitAlgorithm = "sliding-window-counter" | "sliding-window-log" | "token-bucket";
 
 export interface RateLimiterOptions {
   /** Default requests per window. Default: 60. */
   defaultLimit?: number;
   /** Window size in ms. Default: 60000 (1 minute). */
   windowMs?: number;
+  /**
+   * Limits applied when check() or consume() is given none, all at once
+   * (e.g. 10 per second and 1000 per day). Default: defaultLimit per windowMs.
+   */
+  limits?: RateLimit | RateLimit[];
+  /** Default: "sliding-window-log", as before algorithms could be chosen. */
+  algorithm?: RateLimitAlgorithm;
   /** Cleanup interval in ms. Default: 60000. */
   cleanupIntervalMs?: number;
   /** Max tracked keys (OOM protection). Default: 10000. */
   maxEntries?: number;
+  /**
+   * Count in a shared store instead of this process, so the limit holds
+   * across instances. Only consume() uses the store; check() always counts
+   * in memory. Stores count in fixed windows, whatever the algorithm.
+   */
+  store?: RateLimitStore;
+}
+
+/** Where one limit stands for a key. */
+export interface RateLimitStatus {
+  /** Identifies the limit in RateLimit headers, e.g. "60/minute". */
+  name: string;
+  /** Requests allowed per window. */
+  limit: number;
+  windowMs: number;
+  /** Requests left before the limit is reached. */
+  remaining: number;
+  /** Ms until the full limit is available again. */
+  resetMs: number;
+  /** Set when this limit refused the hit. */
+  retryAfterMs?: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Requests left under the limit closest to running out. */
+  remaining: number;
+  retryAfterMs?: number;
+  /** Requests per window of that limit. */
+  limit: number;
+  /** Ms until that limit is fully available again. */
+  resetMs: number;
+  /** Every limit checked, in order. */
+  limits: RateLimitStatus[];
+}
+
+/** Limits to check: a request count per the default window, or declared limits. */
+export type RateLimitInput = number | RateLimit | RateLimit[];
+
+interface Limit {
+  requests: number;
+  windowMs: number;
+}
+
+type State =
+  | { algorithm: "sliding-window-counter"; windowStart: number; current: number; previous: number }
+  | { algorithm: "sliding-window-log"; timestamps: number[] }
+  | { algorithm: "token-bucket"; tokens: number; updatedAt: number };
+
+interface Entry {
+  state: State;
+  /** When the state is back to what a new key would have. */
+  idleAt: number;
+}
+
+interface Decision {
+  allowed: boolean;
+  /** Remaining after this hit, if it is taken. */
+  remaining: number;
+  retryAfterMs?: number;
+  /** Record the hit. */
+  take(): void;
 }
 
 export class RateLimiter {
-  private windows = new Map<string, SlidingWindowEntry>();
+  private entries = new Map<string, Entry>();
   private cleanupTimer: ReturnType<typeof setInterval>;
   private windowMs: number;
   private defaultLimit: number;
+  private limits?: Limit[];
+  private algorithm: RateLimitAlgorithm;
   private maxEntries: number;
+  private store?: RateLimitStore;
 
   constructor(options: RateLimiterOptions = {}) {
     this.windowMs = options.windowMs ?? 60_000;
     this.defaultLimit = options.defaultLimit ?? 60;
+    this.limits = options.limits !== undefined ? toLimits(options.limits) : undefined;
+    this.algorithm = options.algorithm ?? "sliding-window-log";
     this.maxEntries = options.maxEntries ?? 10_000;
+    this.store = options.store;
 
     this.cleanupTimer = setInterval(() => {
       const now = Date.now();
-      for (const [key, entry] of this.windows) {
-        entry.timestamps = entry.timestamps.filter((t) => now - t < this.windowMs);
-        if (entry.timestamps.length === 0) this.windows.delete(key);
+      for (const [key, entry] of this.entries) {
+        if (entry.idleAt <= now) this.entries.delete(key);
       }
     }, options.cleanupIntervalMs ?? 60_000);
   }
 
-  check(key: string, limit?: number): { allowed: boolean; remaining: number; retryAfterMs?: number } {
-    const effectiveLimit = limit ?? this.defaultLimit;
+  /**
+   * Count a hit on `key` if every limit allows it. A hit denied by one limit
+   * counts against none of them.
+   */
+  check(key: string, limit?: RateLimitInput): RateLimitResult {
     const now = Date.now();
+    const limits = this.resolve(limit);
+    const checks: { entryKey: string; entry?: Entry; state: State; limit: Limit; decision: Decision }[] = [];
 
-    if (!this.windows.has(key) && this.windows.size >= this.maxEntries) {
-      return { allowed: false, remaining: 0, retryAfterMs: this.windowMs };
+    for (const l of limits) {
+      const entryKey = `${key}|${l.requests}/${l.windowMs}`;
+      const entry = this.entries.get(entryKey);
+      if (!entry && this.entries.size >= this.maxEntries) {
+        return summarize(
+          limits.map((l) => ({ ...describe(l), remaining: 0, resetMs: l.windowMs, retryAfterMs: l.windowMs })),
+          false,
+        );
+      }
+      const state = entry?.state ?? this.initialState(l, now);
+      checks.push({ entryKey, entry, state, limit: l, decision: decide(state, l, now) });
     }
 
-    let entry = this.windows.get(key);
-    if (!entry) {
-      entry = { timestamps: [] };
-      this.windows.set(key, entry);
+    const allowed = checks.every((c) => c.decision.allowed);
+    const statuses: RateLimitStatus[] = [];
+    for (const { entryKey, entry, state, limit: l, decision } of checks) {
+      if (allowed) {
+        decision.take();
+        const idle = idleAt(state, l, now);
+        if (entry) entry.idleAt = idle;
+        else this.entries.set(entryKey, { state, idleAt: idle });
+      }
+      statuses.push({
+        ...describe(l),
+        // A hit another limit refused was not counted against this one
+        remaining: !decision.allowed ? 0 : allowed ? decision.remaining : decision.remaining + 1,
+        resetMs: Math.max(0, idleAt(state, l, now) - now),
+        retryAfterMs: decision.retryAfterMs,
+      });
     }
+    return summarize(statuses, allowed);
+  }
 
-    entry.timestamps = entry.timestamps.filter((t) => now - t < this.windowMs);
+  /**
+   * Like check(), but counts in the store when there is one. A hit one limit
+   * refuses is taken back from all of them, if the store can decrement.
+   */
+  async consume(key: string, limit?: RateLimitInput): Promise<RateLimitResult> {
+    if (!this.store) return this.check(key, limit);
+    const limits = this.resolve(limit);
+    const store = this.store;
+    const keys = limits.map((l) => `${key}|${l.requests}/${l.windowMs}`);
+    const hits = await Promise.all(limits.map((l, i) => store.increment(keys[i], l.windowMs)));
 
-    if (entry.timestamps.length >= effectiveLimit) {
-      const retryAfterMs = this.windowMs - (now - entry.timestamps[0]);
-      return { allowed: false, remaining: 0, retryAfterMs };
-    }
+    const allowed = hits.every((hit, i) => hit.count <= limits[i].requests);
+    const takenBack = !allowed && store.decrement !== undefined;
+    if (takenBack) await Promise.all(keys.map((k) => store.decrement!(k)));
 
-    entry.timestamps.push(now);
-    return { allowed: true, remaining: effectiveLimit - entry.timestamps.length };
+    const statuses = hits.map((hit, i): RateLimitStatus => {
+      const refused = hit.count > limits[i].requests;
+      return {
+        ...describe(limits[i]),
+        remaining: refused ? 0 : limits[i].requests - hit.count + (takenBack ? 1 : 0),
+        resetMs: hit.resetMs,
+        retryAfterMs: refused ? hit.resetMs : undefined,
+      };
+    });
+    return summarize(statuses, allowed);
   }
 
   destroy(): void {
     clearInterval(this.cleanupTimer);
-    this.windows.clear();
+    this.entries.clear();
+  }
+
+  private resolve(limit: RateLimitInput | undefined): Limit[] {
+    if (typeof limit === "number") return [{ requests: limit, windowMs: this.windowMs }];
+    if (limit !== undefined) return toLimits(limit);
+    return this.limits ?? [{ requests: this.defaultLimit, windowMs: this.windowMs }];
+  }
+
+  private initialState(limit: Limit, now: number): State {
+    switch (this.algorithm) {
+      case "sliding-window-log":
+        return { algorithm: "sliding-window-log", timestamps: [] };
+      case "token-bucket":
+        return { algorithm: "token-bucket", tokens: limit.requests, updatedAt: now };
+      default:
+        return { algorithm: "sliding-window-counter", windowStart: now, current: 0, previous: 0 };
+    }
+  }
+}
+
+/** Convert declared limits, skipping any with a window SPEC 7.2 does not define. */
+function toLimits(limits: RateLimit | RateLimit[]): Limit[] {
+  const out: Limit[] = [];
+  for (const limit of Array.isArray(limits) ? limits : [limits]) {
+    const windowMs = windowToMs(limit.window);
+    if (windowMs) out.push({ requests: limit.requests, windowMs });
+  }
+  return out;
+}
+
+const WINDOW_NAMES: Record<number, string> = { 1_000: "second", 60_000: "minute", 3_600_000: "hour", 86_400_000: "day" };
+
+function describe(limit: Limit): Pick<RateLimitStatus, "name" | "limit" | "windowMs"> {
+  const window = WINDOW_NAMES[limit.windowMs] ?? `${limit.windowMs}ms`;
+  return { name: `${limit.requests}/${window}`, limit: limit.requests, windowMs: limit.windowMs };
+}
+
+/**
+ * Report on the limit closest to running out: the one that waits longest
+ * if the hit was refused, else the one with the fewest requests left.
+ */
+function summarize(limits: RateLimitStatus[], allowed: boolean): RateLimitResult {
+  let primary: RateLimitStatus | undefined;
+  for (const status of limits) {
+    if (allowed ? !primary || status.remaining < primary.remaining : (status.retryAfterMs ?? -1) > (primary?.retryAfterMs ?? -1)) {
+      primary = status;
+    }
+  }
+  if (!primary) return { allowed, remaining: Infinity, limit: Infinity, resetMs: 0, limits };
+  const result: RateLimitResult = { allowed, remaining: primary.remaining, limit: primary.limit, resetMs: primary.resetMs, limits };
+  if (!allowed) result.retryAfterMs = primary.retryAfterMs;
+  return result;
+}
+
+/** When the state will be back to what a new key has, if nothing else hits it. */
+function idleAt(state: State, limit: Limit, now: number): number {
+  if (limit.requests < 1) return now + limit.windowMs;
+  switch (state.algorithm) {
+    case "sliding-window-log":
+      return state.timestamps.length > 0 ? state.timestamps[state.timestamps.length - 1] + limit.windowMs : now;
+    case "token-bucket":
+      return state.updatedAt + Math.ceil(((limit.requests - state.tokens) * limit.windowMs) / limit.requests);
+    case "sliding-window-counter":
+      if (state.current > 0) return state.windowStart + 2 * limit.windowMs;
+      return state.previous > 0 ? state.windowStart + limit.windowMs : now;
+  }
+}
+
+/** Decide on a hit at `now`, bringing the state up to date first. */
+function decide(state: State, limit: Limit, now: number): Decision {
+  const { requests, windowMs } = limit;
+  if (requests < 1) return { allowed: false, remaining: 0, retryAfterMs: windowMs, take: () => {} };
+
+  switch (state.algorithm) {
+    case "sliding-window-log": {
+      state.timestamps = state.timestamps.filter((t) => now - t < windowMs);
+      const count = state.timestamps.length;
+      if (count >= requests) {
+        return { allowed: false, remaining: 0, retryAfterMs: state.timestamps[count - requests] + windowMs - now, take: () => {} };
+      }
+      return {
+        allowed: true,
+        remaining: requests - count - 1,
+        take: () => {
+          state.timestamps.push(now);
+        },
+      };
+    }
+
+    case "token-bucket": {
+      const perMs = requests / windowMs;
+      state.tokens = Math.min(requests, state.tokens + (now - state.updatedAt) * perMs);
+      state.updatedAt = now;
+      if (state.tokens < 1) {
+        return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - state.tokens) / perMs), take: () => {} };
+      }
+      return {
+        allowed: true,
+        remaining: Math.floor(state.tokens - 1),
+        take: () => {
+          state.tokens -= 1;
+        },
+      };
+    }
+
+    case "sliding-window-counter": {
+      const elapsedWindows = Math.floor((now - state.windowStart) / windowMs);
+      if (elapsedWindows > 0) {
+        state.previous = elapsedWindows === 1 ? state.current : 0;
+        state.current = 0;
+        state.windowStart += elapsedWindows * windowMs;
+      }
+      const elapsed = now - state.windowStart;
+      const estimate = (state.previous * (windowMs - elapsed)) / windowMs + state.current;
+      if (estimate + 1 > requests) {
+        return { allowed: false, remaining: 0, retryAfterMs: counterRetryAfter(state, requests, windowMs, elapsed), take: () => {} };
+      }
+      return {
+        allowed: true,
+        remaining: Math.floor(requests - estimate - 1),
+        take: () => {
+          state.current += 1;
+        },
+      };
+    }
+  }
+}
+
+/** How long until the weighted count leaves room for one more hit. */
+function counterRetryAfter(
+  state: { current: number; previous: number },
+  requests: number,
+  windowMs: number,
+  elapsed: number,
+): number {
+  const room = requests - 1;
+  // Enough room in this window once the previous one has slid far enough out
+  if (state.current <= room && state.previous > 0) {
+    return Math.max(1, Math.ceil(windowMs - elapsed - (windowMs * (room - state.current)) / state.previous));
   }
+  // Otherwise in the next window, once this one has slid far enough out
+  return Math.max(1, Math.ceil(windowMs - elapsed + windowMs * (1 - room / state.current)));
 }
@@ -0,0 +1,263 @@
+/**
+ * agents.txt - Redis rate limit store
+ *
+ * A RateLimitStore that keeps its counters in Redis (or anything speaking
+ * the Redis protocol, RESP), so every instance pointed at the same server
+ * shares one limit. It talks RESP over node:net directly instead of pulling
+ * in a Redis client.
+ */
+
+import { connect } from "node:net";
+import type { Socket } from "node:net";
+import type { RateLimitHit, RateLimitStore } from "./store.js";
+
+export interface RedisRateLimitStoreOptions {
+  /** Default: "127.0.0.1". */
+  host?: string;
+  /** Default: 6379. */
+  port?: number;
+  /** Sent with AUTH on connect. */
+  password?: string;
+  /** ACL user sent with AUTH (Redis 6+). */
+  username?: string;
+  /** Database selected on connect. Default: 0. */
+  db?: number;
+  /** Prepended to every key. Default: "agents-txt:ratelimit:". */
+  keyPrefix?: string;
+  /** How long to wait for a connection or a reply, in ms. Default: 2000. */
+  timeoutMs?: number;
+}
+
+/** An error reply from the server, or a connection that failed. */
+export class RedisError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "RedisError";
+  }
+}
+
+type Reply = string | number | null | RedisError | Reply[];
+
+interface Pending {
+  resolve: (reply: Reply) => void;
+  reject: (err: Error) => void;
+}
+
+/** Decrement a key only while it exists, so an expired window is not recreated without an expiry. */
+const DECREMENT_SCRIPT = 'if redis.call("EXISTS", KEYS[1]) == 1 then return redis.call("DECR", KEYS[1]) end return 0';
+
+/**
+ * Counts with one transaction per hit: SET the key to 0 with the window as
+ * its expiry unless it exists, INCR it, and read its PTTL. A hit is taken
+ * back with a script that decrements the key only if it still exists. Works
+ * with Redis 2.6.12 and later. The connection is opened on first use and reopened after
+ * a failure; a failed increment() rejects with a RedisError.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private host: string;
+  private port: number;
+  private keyPrefix: string;
+  private timeoutMs: number;
+  private options: RedisRateLimitStoreOptions;
+  private connection?: Promise<Connection>;
+
+  constructor(options: RedisRateLimitStoreOptions = {}) {
+    this.host = options.host ?? "127.0.0.1";
+    this.port = options.port ?? 6379;
+    this.keyPrefix = options.keyPrefix ?? "agents-txt:ratelimit:";
+    this.timeoutMs = options.timeoutMs ?? 2000;
+    this.options = options;
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const redisKey = this.keyPrefix + key;
+    const px = String(Math.max(1, Math.ceil(windowMs)));
+    const replies = await this.send([
+      ["MULTI"],
+      ["SET", redisKey, "0", "PX", px, "NX"],
+      ["INCR", redisKey],
+      ["PTTL", redisKey],
+      ["EXEC"],
+    ]);
+    const results = replies[4];
+    if (!Array.isArray(results)) throw new RedisError("Redis aborted the rate limit transaction");
+    throwIfError(results);
+
+    const [, count, ttl] = results;
+    if (typeof count !== "number" || typeof ttl !== "number") throw new RedisError("Unexpected reply from Redis");
+    // A key left without an expiry (PTTL -1) still gets a full window
+    return { count, resetMs: ttl > 0 ? ttl : windowMs };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.send([["EVAL", DECREMENT_SCRIPT, "1", this.keyPrefix + key]]);
+  }
+
+  async close(): Promise<void> {
+    const connection = await this.connection?.catch(() => undefined);
+    this.connection = undefined;
+    connection?.close();
+  }
+
+  /** Send commands in one write and wait for all their replies. */
+  private async send(commands: string[][]): Promise<Reply[]> {
+    const connection = await this.connect();
+    const timer = setTimeout(
+      () => connection.fail(new RedisError(`Redis did not reply within ${this.timeoutMs}ms`)),
+      this.timeoutMs,
+    );
+    try {
+      const replies = await connection.send(commands);
+      throwIfError(replies);
+      return replies;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private connect(): Promise<Connection> {
+    this.connection ??= this.open().catch((err) => {
+      this.connection = undefined;
+      throw err;
+    });
+    return this.connection;
+  }
+
+  private async open(): Promise<Connection> {
+    const address = `${this.host}:${this.port}`;
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const socket = connect({ host: this.host, port: this.port });
+      const timer = setTimeout(() => socket.destroy(new RedisError(`Timed out connecting to Redis at ${address}`)), this.timeoutMs);
+      socket.once("connect", () => {
+        clearTimeout(timer);
+        socket.removeListener("error", onError);
+        resolve(socket);
+      });
+      const onError = (err: Error) => {
+        clearTimeout(timer);
+        reject(err instanceof RedisError ? err : new RedisError(`Cannot connect to Redis at ${address}: ${err.message}`, { cause: err }));
+      };
+      socket.once("error", onError);
+    });
+    socket.setNoDelay(true);
+
+    // Once the socket is gone, the next command reconnects
+    const connection = new Connection(socket, () => {
+      this.connection = undefined;
+    });
+
+    const setup: string[][] = [];
+    const { password, username, db } = this.options;
+    if (password !== undefined) setup.push(username !== undefined ? ["AUTH", username, password] : ["AUTH", password]);
+    if (db) setup.push(["SELECT", String(db)]);
+    if (setup.length > 0) {
+      try {
+        throwIfError(await connection.send(setup));
+      } catch (err) {
+        connection.close();
+        throw err;
+      }
+    }
+    return connection;
+  }
+}
+
+/** One socket, with replies handed to the commands in the order they were sent. */
+class Connection {
+  closed = false;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: Pending[] = [];
+
+  constructor(
+    private socket: Socket,
+    private onClose: () => void,
+  ) {
+    socket.on("data", (chunk: Buffer) => this.read(chunk));
+    socket.on("error", (err) => this.fail(err instanceof RedisError ? err : new RedisError(err.message, { cause: err })));
+    socket.on("close", () => this.fail(new RedisError("Redis connection closed")));
+  }
+
+  send(commands: string[][]): Promise<Reply[]> {
+    if (this.closed) return Promise.reject(new RedisError("Redis connection closed"));
+    const replies = commands.map((): Promise<Reply> => new Promise((resolve, reject) => this.pending.push({ resolve, reject })));
+    this.socket.write(commands.map(encodeCommand).join(""));
+    return Promise.all(replies);
+  }
+
+  /** Reject everything waiting and drop the socket. */
+  fail(err: Error): void {
+    const wasOpen = !this.closed;
+    this.closed = true;
+    for (const pending of this.pending.splice(0)) pending.reject(err);
+    this.socket.destroy();
+    if (wasOpen) this.onClose();
+  }
+
+  close(): void {
+    this.fail(new RedisError("Redis connection closed"));
+  }
+
+  private read(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+    try {
+      for (let reply = parseReply(this.buffer, offset); reply; reply = parseReply(this.buffer, offset)) {
+        offset = reply.end;
+        this.pending.shift()?.resolve(reply.value);
+      }
+    } catch (err) {
+      this.fail(err as Error);
+      return;
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+}
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n` + args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join("");
+}
+
+/** Parse one RESP reply starting at `start`, or undefined if it has not all arrived yet. */
+function parseReply(buffer: Buffer, start: number): { value: Reply; end: number } | undefined {
+  if (start >= buffer.length) return undefined;
+  const lineEnd = buffer.indexOf("\r\n", start);
+  if (lineEnd === -1) return undefined;
+  const type = String.fromCharCode(buffer[start]);
+  const line = buffer.toString("utf8", start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, end: next };
+    case "-":
+      return { value: new RedisError(line), end: next };
+    case ":":
+      return { value: Number(line), end: next };
+    case "$": {
+      const length = Number(line);
+      if (length < 0) return { value: null, end: next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { value: buffer.toString("utf8", next, next + length), end: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) return { value: null, end: next };
+      const items: Reply[] = [];
+      let end = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, end);
+        if (!item) return undefined;
+        items.push(item.value);
+        end = item.end;
+      }
+      return { value: items, end };
+    }
+    default:
+      throw new RedisError(`Unexpected RESP reply type "${type}"`);
+  }
+}
+
+function throwIfError(replies: Reply[]): void {
+  const error = replies.find((reply) => reply instanceof RedisError);
+  if (error) throw error;
+}
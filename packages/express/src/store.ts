@@ -0,0 +1,87 @@
+/**
+ * agents.txt - Rate limit stores
+ *
+ * RateLimiter counts in process memory, so every instance of a scaled-out
+ * deployment would allow the full declared limit. A RateLimitStore keeps the
+ * counters somewhere all instances share: give the same store to every
+ * instance and a limit holds across them.
+ */
+
+export interface RateLimitHit {
+  /** Hits on the key in the current window, including this one. */
+  count: number;
+  /** Milliseconds until the window ends and the count starts over. */
+  resetMs: number;
+}
+
+export interface RateLimitStore {
+  /**
+   * Count one hit on `key`, atomically across everyone sharing the store.
+   * The first hit opens a window of `windowMs`; the count expires with it.
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  /**
+   * Take back a hit increment() counted, if the key's window is still open.
+   * RateLimiter calls it when one of several limits refuses a hit; without
+   * it, the refused hit still counts against every limit.
+   */
+  decrement?(key: string): Promise<void>;
+  /** Release connections or timers. */
+  close?(): Promise<void>;
+}
+
+export interface MemoryRateLimitStoreOptions {
+  /** Max tracked keys (OOM protection). Default: 10000. */
+  maxEntries?: number;
+  /** Cleanup interval in ms. Default: 60000. */
+  cleanupIntervalMs?: number;
+}
+
+interface Counter {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * The reference RateLimitStore: fixed-window counters in this process. It
+ * only limits one instance, like RateLimiter itself; use it to try the store
+ * interface out, or as the model for a store of your own.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, Counter>();
+  private cleanupTimer: ReturnType<typeof setInterval>;
+  private maxEntries: number;
+
+  constructor(options: MemoryRateLimitStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10_000;
+    this.cleanupTimer = setInterval(() => {
+      const now = Date.now();
+      for (const [key, counter] of this.counters) {
+        if (counter.resetAt <= now) this.counters.delete(key);
+      }
+    }, options.cleanupIntervalMs ?? 60_000);
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    let counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= now) {
+      // Full: count the hit as over any limit instead of tracking the key
+      if (!counter && this.counters.size >= this.maxEntries) return { count: Infinity, resetMs: windowMs };
+      counter = { count: 0, resetAt: now + windowMs };
+      this.counters.set(key, counter);
+    }
+    counter.count++;
+    return { count: counter.count, resetMs: counter.resetAt - now };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const counter = this.counters.get(key);
+    if (counter && counter.resetAt > Date.now() && counter.count > 0) counter.count--;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.cleanupTimer);
+    this.counters.clear();
+  }
+}
@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import express from "express";
 import { agentsTxt } from "@agents-txt/express";
+import { AgentsTxtClient, memorySource } from "@agents-txt/core";
+import type { Transport } from "@agents-txt/core";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
 import { createAgentsTxtServer } from "../src/server.js";
 import type { Server } from "http";
 
@@ -70,6 +74,11 @@ describe("createAgentsTxtServer", () => {
     expect(result.server).toBeDefined();
   });
 
+  it("reconciles agents.txt with agents.json", async () => {
+    const result = await createAgentsTxtServer(`http://127.0.0.1:${port}`);
+    expect(result.inconsistencies).toEqual([]);
+  });
+
   it("registers tools for REST capabilities only, skips MCP", async () => {
     const result = await createAgentsTxtServer(`http://127.0.0.1:${port}`);
     expect(result.document.capabilities).toHaveLength(3);
@@ -123,3 +132,140 @@ describe("createAgentsTxtServer", () => {
     }
   });
 });
+
+describe("REST tool calls", () => {
+  let apiServer: Server;
+  let apiPort: number;
+
+  beforeAll(async () => {
+    const api = express();
+    api.use(express.json());
+    await new Promise<void>((resolve) => {
+      apiServer = api.listen(0, () => resolve());
+    });
+    apiPort = (apiServer.address() as { port: number }).port;
+    api.use(
+      agentsTxt({
+        site: { name: "Path Test Site", url: `http://127.0.0.1:${apiPort}` },
+        capabilities: [
+          {
+            id: "get-item",
+            description: "Get an item",
+            endpoint: `http://127.0.0.1:${apiPort}/api/items/:id/versions/{version}`,
+            method: "GET",
+            protocol: "REST",
+            parameters: [
+              { name: "id", in: "path", type: "string", required: true },
+              { name: "version", in: "path", type: "integer", required: true },
+              { name: "fields", in: "query", type: "string" },
+            ],
+          },
+        ],
+      }),
+    );
+    api.get("/api/items/:id/versions/:version", (req, res) => {
+      if (req.params.id === "missing") {
+        res.status(404).json({ error: "Not found" });
+        return;
+      }
+      res.json({ id: req.params.id, version: req.params.version, url: req.originalUrl });
+    });
+  });
+
+  afterAll(() => {
+    apiServer?.close();
+  });
+
+  async function connect() {
+    const { server: mcp } = await createAgentsTxtServer(`http://127.0.0.1:${apiPort}`);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await Promise.all([mcp.connect(serverTransport), client.connect(clientTransport)]);
+    return client;
+  }
+
+  it("expands path parameters with encoding and keeps them out of the query", async () => {
+    const client = await connect();
+    const result = await client.callTool({
+      name: "get-item",
+      arguments: { id: "a/b c", version: 2, fields: "title" },
+    });
+    const [content] = result.content as { type: string; text: string }[];
+    expect(JSON.parse(content.text)).toEqual({
+      id: "a/b c",
+      version: "2",
+      url: "/api/items/a%2Fb%20c/versions/2?fields=title",
+    });
+    await client.close();
+  });
+
+  it("requires path parameters and refuses dot segments", async () => {
+    const client = await connect();
+    const missing = await client.callTool({ name: "get-item", arguments: { version: 2 } });
+    expect(missing.isError).toBe(true);
+
+    const traversal = await client.callTool({ name: "get-item", arguments: { id: "..", version: 2 } });
+    const [content] = traversal.content as { type: string; text: string }[];
+    expect(content.text).toContain('Invalid value for path parameter "id"');
+    await client.close();
+  });
+
+  it("flags an endpoint that cannot be expanded as a tool error", async () => {
+    const client = await connect();
+    const result = await client.callTool({ name: "get-item", arguments: { id: "..", version: 2 } });
+    expect(result.isError).toBe(true);
+    await client.close();
+  });
+
+  it("flags an HTTP error response as a tool error", async () => {
+    const client = await connect();
+    const result = await client.callTool({ name: "get-item", arguments: { id: "missing", version: 2 } });
+    const [content] = result.content as { type: string; text: string }[];
+    expect(result.isError).toBe(true);
+    expect(content.text).toMatch(/^Error: HTTP 404/);
+    await client.close();
+  });
+});
+
+describe("offline discovery", () => {
+  const files = {
+    "https://offline.example.com/.well-known/agents.txt": `Spec-Version: 1.0
+Site-Name: Offline Site
+Site-URL: https://offline.example.com
+
+Capability: lookup
+  Endpoint: https://offline.example.com/api/lookup
+  Method: GET
+  Protocol: REST
+  Description: Look something up
+`,
+  };
+
+  it("discovers through a transport and uses it for tool calls", async () => {
+    const called: string[] = [];
+    const source = memorySource(files);
+    const transport: Transport = async (url, init) => {
+      called.push(url);
+      if (url.startsWith("https://offline.example.com/api/")) return new Response('{"ok":true}');
+      return source(url, init);
+    };
+
+    const { server: mcp, document } = await createAgentsTxtServer("https://offline.example.com", { transport });
+    expect(document.site.name).toBe("Offline Site");
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await Promise.all([mcp.connect(serverTransport), client.connect(clientTransport)]);
+    const result = await client.callTool({ name: "lookup", arguments: {} });
+    const [content] = result.content as { type: string; text: string }[];
+    expect(content.text).toBe('{"ok":true}');
+    expect(called).toContain("https://offline.example.com/api/lookup");
+    await client.close();
+  });
+
+  it("accepts a ready-made client", async () => {
+    const client = new AgentsTxtClient({ transport: memorySource(files) });
+    const { document } = await createAgentsTxtServer("https://offline.example.com", { client });
+    expect(document.capabilities.map((c) => c.id)).toEqual(["lookup"]);
+  });
+});
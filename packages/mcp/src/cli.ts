@@ -12,10 +12,13 @@ if (!targetUrl) {
 
 async function main() {
   try {
-    const { server, document } = await createAgentsTxtServer(targetUrl);
+    const { server, document, inconsistencies } = await createAgentsTxtServer(targetUrl);
 
     console.error(`[agents-txt-mcp] Connected to: ${document.site.name}`);
     console.error(`[agents-txt-mcp] Capabilities: ${document.capabilities.map((c) => c.id).join(", ")}`);
+    for (const issue of inconsistencies) {
+      console.error(`[agents-txt-mcp] Warning: agents.txt and agents.json disagree: ${issue.message}`);
+    }
 
     const transport = new StdioServerTransport();
     await server.connect(transport);
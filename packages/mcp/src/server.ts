@@ -1,12 +1,24 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { AgentsTxtClient } from "@agents-txt/core";
-import type { AgentsTxtDocument, Capability } from "@agents-txt/core";
+import { z } from "zod";
+import { AgentsTxtClient, expandEndpoint, parseEndpointTemplate } from "@agents-txt/core";
+import type { AgentsTxtDocument, Capability, Inconsistency, ParseOptions, ScopePolicy, Transport } from "@agents-txt/core";
 
 export interface ServerOptions {
   /** Bearer token for authenticated endpoints. */
   bearerToken?: string;
   /** API key for authenticated endpoints. */
   apiKey?: string;
+  /** Options for parsing the remote files. Default: strict, with the client's size limits. */
+  parseOptions?: ParseOptions;
+  /** Skip capabilities whose URLs point outside the target site. Default: off. */
+  scope?: ScopePolicy;
+  /**
+   * Makes every request, both discovery and tool calls, in place of the
+   * global fetch. Offline sources such as memorySource() work here too.
+   */
+  transport?: Transport;
+  /** Client to discover the site with. When given, parseOptions, scope and transport do not apply to discovery. */
+  client?: AgentsTxtClient;
 }
 
 /**
@@ -16,14 +28,13 @@ export interface ServerOptions {
 export async function createAgentsTxtServer(
   targetUrl: string,
   options: ServerOptions = {},
-): Promise<{ server: McpServer; document: AgentsTxtDocument }> {
-  const client = new AgentsTxtClient();
+): Promise<{ server: McpServer; document: AgentsTxtDocument; inconsistencies: Inconsistency[] }> {
+  const client =
+    options.client ??
+    new AgentsTxtClient({ parseOptions: options.parseOptions, scope: options.scope, transport: options.transport });
 
-  // Try JSON first (more structured), fall back to text
-  let result = await client.discoverJSON(targetUrl);
-  if (!result.success) {
-    result = await client.discover(targetUrl);
-  }
+  // Both formats, merged; agents.json wins where they disagree
+  const result = await client.discoverAll(targetUrl);
 
   if (!result.success || !result.document) {
     throw new Error(
@@ -44,7 +55,7 @@ export async function createAgentsTxtServer(
     }
   }
 
-  return { server, document: doc };
+  return { server, document: doc, inconsistencies: result.inconsistencies };
 }
 
 function buildAuthHeaders(cap: Capability, options: ServerOptions): Record<string, string> {
@@ -73,19 +84,32 @@ function buildAuthHeaders(cap: Capability, options: ServerOptions): Record<strin
   return headers;
 }
 
+function paramSchema(type: string): z.ZodTypeAny {
+  switch (type) {
+    case "integer":
+      return z.number().int();
+    case "number":
+      return z.number();
+    case "boolean":
+      return z.boolean();
+    case "array":
+      return z.array(z.unknown());
+    case "object":
+      return z.record(z.unknown());
+    default:
+      return z.string();
+  }
+}
+
 function registerRestTool(server: McpServer, cap: Capability, options: ServerOptions): void {
-  // Build input schema from parameters
-  const properties: Record<string, { type: string; description?: string }> = {};
-  const required: string[] = [];
-
-  if (cap.parameters) {
-    for (const param of cap.parameters) {
-      properties[param.name] = {
-        type: param.type === "integer" ? "number" : param.type,
-        description: param.description,
-      };
-      if (param.required) required.push(param.name);
-    }
+  // Build input schema from parameters; path parameters are always required
+  const pathParams = new Set(parseEndpointTemplate(cap.endpoint).params);
+  const properties: Record<string, z.ZodTypeAny> = {};
+
+  for (const param of cap.parameters ?? []) {
+    let schema = paramSchema(param.type);
+    if (param.description) schema = schema.describe(param.description);
+    properties[param.name] = param.required || pathParams.has(param.name) ? schema : schema.optional();
   }
 
   server.tool(
@@ -94,7 +118,18 @@ function registerRestTool(server: McpServer, cap: Capability, options: ServerOpt
     properties,
     async (args: Record<string, unknown>) => {
       const method = (cap.method ?? "GET").toUpperCase();
-      const url = new URL(cap.endpoint);
+      let url: URL;
+      try {
+        url = new URL(expandEndpoint(cap.endpoint, args));
+      } catch (err) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Error calling ${cap.endpoint}: ${err instanceof Error ? err.message : "Invalid endpoint"}`,
+          }],
+          isError: true,
+        };
+      }
       const authHeaders = buildAuthHeaders(cap, options);
       const headers: Record<string, string> = {
         "Accept": "application/json",
@@ -105,9 +140,9 @@ function registerRestTool(server: McpServer, cap: Capability, options: ServerOpt
       let body: string | undefined;
 
       if (method === "GET" || method === "HEAD") {
-        // GET/HEAD: all args go to query string
+        // GET/HEAD: all non-path args go to query string
         for (const [key, value] of Object.entries(args)) {
-          if (value !== undefined && value !== null) {
+          if (value !== undefined && value !== null && !pathParams.has(key)) {
             url.searchParams.set(key, String(value));
           }
         }
@@ -115,7 +150,7 @@ function registerRestTool(server: McpServer, cap: Capability, options: ServerOpt
         // POST/PUT/PATCH/DELETE: separate query vs body params
         const bodyArgs: Record<string, unknown> = {};
         for (const [key, value] of Object.entries(args)) {
-          if (value === undefined || value === null) continue;
+          if (value === undefined || value === null || pathParams.has(key)) continue;
           const paramDef = cap.parameters?.find((p) => p.name === key);
           if (paramDef?.in === "query") {
             url.searchParams.set(key, String(value));
@@ -130,7 +165,8 @@ function registerRestTool(server: McpServer, cap: Capability, options: ServerOpt
       }
 
       try {
-        const response = await fetch(url.toString(), {
+        const transport = options.transport ?? fetch;
+        const response = await transport(url.toString(), {
           method,
           headers,
           body,
@@ -144,6 +180,7 @@ function registerRestTool(server: McpServer, cap: Capability, options: ServerOpt
               type: "text" as const,
               text: `Error: HTTP ${response.status} ${response.statusText}\n${data}`,
             }],
+            isError: true,
           };
         }
 
@@ -156,6 +193,7 @@ function registerRestTool(server: McpServer, cap: Capability, options: ServerOpt
             type: "text" as const,
             text: `Error calling ${cap.endpoint}: ${err instanceof Error ? err.message : "Unknown error"}`,
           }],
+          isError: true,
         };
       }
     },